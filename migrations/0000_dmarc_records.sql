@@ -0,0 +1,20 @@
+-- Per-record DMARC rows, one per <record> of an aggregate report
+-- Apply with: wrangler d1 migrations apply dmarc_reports
+-- Later migrations alter this table, so databases created before it existed need it first.
+
+CREATE TABLE IF NOT EXISTS dmarc_records (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dmarc_report_id INTEGER NOT NULL REFERENCES dmarc_reports(id) ON DELETE CASCADE,
+  source_ip TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  disposition TEXT NOT NULL,
+  dkim_evaluated TEXT,
+  spf_evaluated TEXT,
+  reasons TEXT,
+  header_from TEXT,
+  envelope_from TEXT,
+  envelope_to TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_dmarc_records_report ON dmarc_records(dmarc_report_id);
+CREATE INDEX IF NOT EXISTS idx_dmarc_records_source_ip ON dmarc_records(source_ip);
@@ -0,0 +1,23 @@
+-- Message-weighted DMARC totals and per-result-element counters
+-- Apply with: wrangler d1 migrations apply dmarc_reports
+-- Rows stored before this migration were counted per result element, so copy those
+-- values into the *_results columns. Their weighted columns cannot be recomputed in
+-- SQL; re-parse raw_xml if historical message volumes are needed.
+
+ALTER TABLE dmarc_reports ADD COLUMN message_count INTEGER DEFAULT 0;
+ALTER TABLE dmarc_reports ADD COLUMN dmarc_pass INTEGER DEFAULT 0;
+ALTER TABLE dmarc_reports ADD COLUMN dmarc_fail INTEGER DEFAULT 0;
+ALTER TABLE dmarc_reports ADD COLUMN dkim_pass_results INTEGER DEFAULT 0;
+ALTER TABLE dmarc_reports ADD COLUMN dkim_fail_results INTEGER DEFAULT 0;
+ALTER TABLE dmarc_reports ADD COLUMN dkim_temperror_results INTEGER DEFAULT 0;
+ALTER TABLE dmarc_reports ADD COLUMN spf_pass_results INTEGER DEFAULT 0;
+ALTER TABLE dmarc_reports ADD COLUMN spf_fail_results INTEGER DEFAULT 0;
+ALTER TABLE dmarc_reports ADD COLUMN spf_temperror_results INTEGER DEFAULT 0;
+
+UPDATE dmarc_reports SET
+  dkim_pass_results = dkim_pass,
+  dkim_fail_results = dkim_fail,
+  dkim_temperror_results = dkim_temperror,
+  spf_pass_results = spf_pass,
+  spf_fail_results = spf_fail,
+  spf_temperror_results = spf_temperror;
@@ -0,0 +1,10 @@
+-- Runtime-managed trusted reporters and quarantine flag for unknown reporters
+
+CREATE TABLE IF NOT EXISTS trusted_reporters (
+  domain TEXT PRIMARY KEY,
+  note TEXT,
+  created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+
+ALTER TABLE dmarc_reports ADD COLUMN quarantined INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE tls_reports ADD COLUMN quarantined INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,15 @@
+-- Background replays of archived raw emails, advanced by the cron trigger
+
+CREATE TABLE IF NOT EXISTS replay_jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  prefix TEXT NOT NULL,
+  from_ts INTEGER,
+  to_ts INTEGER,
+  cursor TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  processed INTEGER NOT NULL DEFAULT 0,
+  stored INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER DEFAULT (strftime('%s', 'now')),
+  updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
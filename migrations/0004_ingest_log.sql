@@ -0,0 +1,19 @@
+-- Ledger of every received email and the outcome of processing it
+
+CREATE TABLE IF NOT EXISTS ingest_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  r2_key TEXT NOT NULL,
+  sender TEXT NOT NULL,
+  sender_domain TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  message_id TEXT,
+  outcome TEXT NOT NULL,
+  error TEXT,
+  attachment_count INTEGER NOT NULL DEFAULT 0,
+  report_ids TEXT NOT NULL DEFAULT '[]',
+  quarantined INTEGER NOT NULL DEFAULT 0,
+  received_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingest_log_received_at ON ingest_log(received_at);
+CREATE INDEX IF NOT EXISTS idx_ingest_log_sender_domain ON ingest_log(sender_domain);
@@ -0,0 +1,9 @@
+-- Per-domain digest emails sent by the cron trigger
+
+CREATE TABLE IF NOT EXISTS digest_subscriptions (
+  domain TEXT PRIMARY KEY,
+  recipients TEXT NOT NULL,
+  cadence TEXT NOT NULL DEFAULT 'weekly',
+  last_period_end INTEGER,
+  created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
@@ -0,0 +1,28 @@
+-- Threshold alert rules and alert history
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+  domain TEXT PRIMARY KEY,
+  failure_rate_threshold REAL,
+  min_messages INTEGER NOT NULL DEFAULT 100,
+  window_hours INTEGER NOT NULL DEFAULT 24,
+  new_source_min_messages INTEGER,
+  email_recipients TEXT NOT NULL DEFAULT '[]',
+  webhook_url TEXT,
+  cooldown_minutes INTEGER NOT NULL DEFAULT 360,
+  created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+
+-- Every alert raised, also consulted for cooldown/deduplication
+CREATE TABLE IF NOT EXISTS alert_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  domain TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  dedup_key TEXT NOT NULL,
+  message TEXT NOT NULL,
+  value REAL NOT NULL,
+  report_id TEXT NOT NULL,
+  channels TEXT NOT NULL DEFAULT '[]',
+  created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_history_dedup ON alert_history(domain, dedup_key, created_at);
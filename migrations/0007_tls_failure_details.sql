@@ -0,0 +1,34 @@
+-- Full RFC 8460 policy fields and TLS-RPT failure details in their own table
+-- Existing failure_details JSON is copied into tls_failure_details before the column is dropped.
+
+ALTER TABLE tls_reports ADD COLUMN policy_string TEXT;
+ALTER TABLE tls_reports ADD COLUMN mx_host TEXT;
+
+CREATE TABLE IF NOT EXISTS tls_failure_details (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  tls_report_id INTEGER NOT NULL REFERENCES tls_reports(id) ON DELETE CASCADE,
+  result_type TEXT NOT NULL,
+  sending_mta_ip TEXT,
+  receiving_mx_hostname TEXT,
+  receiving_mx_helo TEXT,
+  receiving_ip TEXT,
+  failed_session_count INTEGER NOT NULL DEFAULT 0,
+  additional_information TEXT,
+  failure_reason_code TEXT
+);
+
+INSERT INTO tls_failure_details
+  (tls_report_id, result_type, sending_mta_ip, receiving_mx_hostname, failed_session_count)
+SELECT tls_reports.id,
+       json_extract(f.value, '$."result-type"'),
+       json_extract(f.value, '$."sending-mta-ip"'),
+       json_extract(f.value, '$."receiving-mx-hostname"'),
+       COALESCE(json_extract(f.value, '$."failed-session-count"'), 0)
+FROM tls_reports, json_each(COALESCE(tls_reports.failure_details, '[]')) AS f
+WHERE json_extract(f.value, '$."result-type"') IS NOT NULL;
+
+ALTER TABLE tls_reports DROP COLUMN failure_details;
+
+CREATE INDEX IF NOT EXISTS idx_tls_failure_details_report ON tls_failure_details(tls_report_id);
+CREATE INDEX IF NOT EXISTS idx_tls_failure_details_result_type ON tls_failure_details(result_type);
+CREATE INDEX IF NOT EXISTS idx_tls_failure_details_mx ON tls_failure_details(receiving_mx_hostname);
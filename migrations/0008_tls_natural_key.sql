@@ -0,0 +1,13 @@
+-- Natural key for TLS-RPT policy rows so resent and replayed reports are upserted
+-- Duplicates stored before this migration are collapsed onto the earliest copy.
+
+DELETE FROM tls_failure_details WHERE tls_report_id NOT IN (
+  SELECT MIN(id) FROM tls_reports GROUP BY org_name, report_id, policy_domain, policy_type
+);
+
+DELETE FROM tls_reports WHERE id NOT IN (
+  SELECT MIN(id) FROM tls_reports GROUP BY org_name, report_id, policy_domain, policy_type
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tls_natural_key
+  ON tls_reports(org_name, report_id, policy_domain, policy_type);
@@ -0,0 +1,88 @@
+-- Re-key DMARC reports on (org_name, report_id, domain): report IDs are only unique per reporter
+-- SQLite cannot drop the old column-level UNIQUE on report_id, so both DMARC tables are rebuilt.
+-- Records are set aside first, because dropping dmarc_reports would cascade into dmarc_records.
+
+CREATE TABLE dmarc_reports_backup AS SELECT * FROM dmarc_reports;
+CREATE TABLE dmarc_records_backup AS SELECT * FROM dmarc_records;
+
+DROP TABLE dmarc_records;
+DROP TABLE dmarc_reports;
+
+CREATE TABLE dmarc_reports (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  report_id TEXT NOT NULL,
+  org_name TEXT NOT NULL,
+  domain TEXT NOT NULL,
+  begin_date INTEGER NOT NULL,
+  end_date INTEGER NOT NULL,
+  message_count INTEGER DEFAULT 0,
+  dmarc_pass INTEGER DEFAULT 0,
+  dmarc_fail INTEGER DEFAULT 0,
+  dkim_pass INTEGER DEFAULT 0,
+  dkim_fail INTEGER DEFAULT 0,
+  dkim_temperror INTEGER DEFAULT 0,
+  spf_pass INTEGER DEFAULT 0,
+  spf_fail INTEGER DEFAULT 0,
+  spf_temperror INTEGER DEFAULT 0,
+  dkim_pass_results INTEGER DEFAULT 0,
+  dkim_fail_results INTEGER DEFAULT 0,
+  dkim_temperror_results INTEGER DEFAULT 0,
+  spf_pass_results INTEGER DEFAULT 0,
+  spf_fail_results INTEGER DEFAULT 0,
+  spf_temperror_results INTEGER DEFAULT 0,
+  policy_p TEXT NOT NULL,
+  raw_xml TEXT,
+  quarantined INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+
+CREATE TABLE dmarc_records (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dmarc_report_id INTEGER NOT NULL REFERENCES dmarc_reports(id) ON DELETE CASCADE,
+  source_ip TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  disposition TEXT NOT NULL,
+  dkim_evaluated TEXT,
+  spf_evaluated TEXT,
+  reasons TEXT,
+  header_from TEXT,
+  envelope_from TEXT,
+  envelope_to TEXT
+);
+
+INSERT INTO dmarc_reports (
+  id, report_id, org_name, domain, begin_date, end_date,
+  message_count, dmarc_pass, dmarc_fail,
+  dkim_pass, dkim_fail, dkim_temperror, spf_pass, spf_fail, spf_temperror,
+  dkim_pass_results, dkim_fail_results, dkim_temperror_results,
+  spf_pass_results, spf_fail_results, spf_temperror_results,
+  policy_p, raw_xml, quarantined, created_at
+)
+SELECT
+  id, report_id, org_name, domain, begin_date, end_date,
+  message_count, dmarc_pass, dmarc_fail,
+  dkim_pass, dkim_fail, dkim_temperror, spf_pass, spf_fail, spf_temperror,
+  dkim_pass_results, dkim_fail_results, dkim_temperror_results,
+  spf_pass_results, spf_fail_results, spf_temperror_results,
+  policy_p, raw_xml, quarantined, created_at
+FROM dmarc_reports_backup;
+
+INSERT INTO dmarc_records (
+  id, dmarc_report_id, source_ip, count, disposition, dkim_evaluated, spf_evaluated,
+  reasons, header_from, envelope_from, envelope_to
+)
+SELECT
+  id, dmarc_report_id, source_ip, count, disposition, dkim_evaluated, spf_evaluated,
+  reasons, header_from, envelope_from, envelope_to
+FROM dmarc_records_backup;
+
+DROP TABLE dmarc_records_backup;
+DROP TABLE dmarc_reports_backup;
+
+CREATE INDEX IF NOT EXISTS idx_dmarc_domain ON dmarc_reports(domain);
+CREATE INDEX IF NOT EXISTS idx_dmarc_begin_date ON dmarc_reports(begin_date);
+CREATE INDEX IF NOT EXISTS idx_dmarc_org_name ON dmarc_reports(org_name);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dmarc_natural_key ON dmarc_reports(org_name, report_id, domain);
+CREATE INDEX IF NOT EXISTS idx_dmarc_report_id ON dmarc_reports(report_id);
+CREATE INDEX IF NOT EXISTS idx_dmarc_records_report ON dmarc_records(dmarc_report_id);
+CREATE INDEX IF NOT EXISTS idx_dmarc_records_source_ip ON dmarc_records(source_ip);
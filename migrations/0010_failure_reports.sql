@@ -0,0 +1,29 @@
+-- RFC 6591 failure reports (DMARC ruf) parsed from multipart/report emails
+CREATE TABLE IF NOT EXISTS failure_reports (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  reporter TEXT NOT NULL,
+  feedback_type TEXT NOT NULL,
+  user_agent TEXT,
+  version TEXT,
+  auth_failure TEXT,
+  source_ip TEXT,
+  reported_domain TEXT,
+  original_mail_from TEXT,
+  original_rcpt_to TEXT,
+  arrival_date INTEGER,
+  delivery_result TEXT,
+  identity_alignment TEXT,
+  dkim_domain TEXT,
+  dkim_identity TEXT,
+  dkim_selector TEXT,
+  spf_dns TEXT,
+  incidents INTEGER NOT NULL DEFAULT 1,
+  original_headers TEXT,
+  redacted INTEGER NOT NULL DEFAULT 0,
+  quarantined INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_failure_reports_domain ON failure_reports(reported_domain);
+CREATE INDEX IF NOT EXISTS idx_failure_reports_arrival_date ON failure_reports(arrival_date);
+CREATE INDEX IF NOT EXISTS idx_failure_reports_source_ip ON failure_reports(source_ip);
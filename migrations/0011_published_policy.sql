@@ -0,0 +1,10 @@
+-- Keep the whole <policy_published> block with each DMARC report, not just p
+-- Reports stored earlier keep NULL for the new columns.
+
+ALTER TABLE dmarc_reports ADD COLUMN policy_sp TEXT;
+ALTER TABLE dmarc_reports ADD COLUMN policy_adkim TEXT;
+ALTER TABLE dmarc_reports ADD COLUMN policy_aspf TEXT;
+ALTER TABLE dmarc_reports ADD COLUMN policy_pct INTEGER;
+ALTER TABLE dmarc_reports ADD COLUMN policy_fo TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_dmarc_domain_org ON dmarc_reports(domain, org_name, begin_date);
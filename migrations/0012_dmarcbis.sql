@@ -0,0 +1,8 @@
+-- DMARCbis aggregate report fields, and which schema each report used
+-- Reports stored earlier were all parsed as RFC 7489.
+
+ALTER TABLE dmarc_reports ADD COLUMN policy_np TEXT;
+ALTER TABLE dmarc_reports ADD COLUMN policy_testing TEXT;
+ALTER TABLE dmarc_reports ADD COLUMN policy_discovery_method TEXT;
+ALTER TABLE dmarc_reports ADD COLUMN schema_version TEXT NOT NULL DEFAULT 'rfc7489';
+ALTER TABLE dmarc_reports ADD COLUMN generator TEXT;
@@ -0,0 +1,8 @@
+-- Identifier alignment computed by the worker with the bundled Public Suffix List
+-- Reports and records stored earlier keep NULL, and are left out of aligned pass rates.
+
+ALTER TABLE dmarc_reports ADD COLUMN dkim_aligned_pass INTEGER;
+ALTER TABLE dmarc_reports ADD COLUMN spf_aligned_pass INTEGER;
+ALTER TABLE dmarc_reports ADD COLUMN dmarc_aligned_pass INTEGER;
+ALTER TABLE dmarc_records ADD COLUMN dkim_aligned INTEGER;
+ALTER TABLE dmarc_records ADD COLUMN spf_aligned INTEGER;
@@ -0,0 +1,14 @@
+-- Sender inventory: DKIM signing domain and reverse DNS name per record, plus
+-- runtime-managed classification overrides. Records stored earlier keep NULL.
+
+ALTER TABLE dmarc_records ADD COLUMN dkim_domain TEXT;
+ALTER TABLE dmarc_records ADD COLUMN source_hostname TEXT;
+
+CREATE TABLE IF NOT EXISTS sending_services (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  service TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  pattern TEXT NOT NULL,
+  created_at INTEGER DEFAULT (strftime('%s', 'now')),
+  UNIQUE (kind, pattern)
+);
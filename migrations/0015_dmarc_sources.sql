@@ -0,0 +1,27 @@
+-- First-seen/last-seen tracking of source IPs per domain, backfilled from stored records.
+-- Backfilled sources are never flagged as suspected spoofing and have no first report.
+
+CREATE TABLE IF NOT EXISTS dmarc_sources (
+  domain TEXT NOT NULL,
+  source_ip TEXT NOT NULL,
+  first_seen INTEGER NOT NULL,
+  last_seen INTEGER NOT NULL,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  dmarc_pass INTEGER NOT NULL DEFAULT 0,
+  report_count INTEGER NOT NULL DEFAULT 0,
+  first_org_name TEXT,
+  first_report_id TEXT,
+  suspected_spoofing INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (domain, source_ip)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dmarc_sources_first_seen ON dmarc_sources(domain, first_seen);
+
+INSERT OR IGNORE INTO dmarc_sources
+  (domain, source_ip, first_seen, last_seen, message_count, dmarc_pass, report_count)
+SELECT p.domain, r.source_ip, MIN(p.begin_date), MAX(p.end_date), SUM(r.count),
+       SUM(CASE WHEN r.dkim_evaluated = 'pass' OR r.spf_evaluated = 'pass' THEN r.count ELSE 0 END),
+       COUNT(DISTINCT p.id)
+FROM dmarc_records r JOIN dmarc_reports p ON p.id = r.dmarc_report_id
+WHERE p.quarantined = 0
+GROUP BY p.domain, r.source_ip;
@@ -0,0 +1,3 @@
+-- Alert when a reporter misses its usual cadence by this many hours (NULL disables the check)
+
+ALTER TABLE alert_rules ADD COLUMN missing_report_grace_hours INTEGER;
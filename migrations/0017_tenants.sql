@@ -0,0 +1,20 @@
+-- Multi-tenant mode: reports are stamped with the tenant resolved from their recipient address.
+-- Reports stored earlier keep a NULL tenant and stay visible to API_TOKEN only.
+
+ALTER TABLE dmarc_reports ADD COLUMN tenant_id TEXT;
+ALTER TABLE tls_reports ADD COLUMN tenant_id TEXT;
+ALTER TABLE failure_reports ADD COLUMN tenant_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_dmarc_tenant ON dmarc_reports(tenant_id, end_date);
+CREATE INDEX IF NOT EXISTS idx_tls_tenant ON tls_reports(tenant_id, end_date);
+CREATE INDEX IF NOT EXISTS idx_failure_reports_tenant ON failure_reports(tenant_id);
+
+CREATE TABLE IF NOT EXISTS tenants (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  addresses TEXT NOT NULL DEFAULT '[]',
+  trusted_reporters TEXT NOT NULL DEFAULT '[]',
+  retention_days INTEGER,
+  api_key_hash TEXT UNIQUE,
+  created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
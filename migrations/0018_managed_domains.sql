@@ -0,0 +1,9 @@
+-- Managed-domains registry: reports for other domains are logged as unsolicited, not stored
+
+CREATE TABLE IF NOT EXISTS managed_domains (
+  domain TEXT PRIMARY KEY,
+  note TEXT,
+  created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+
+ALTER TABLE ingest_log ADD COLUMN unsolicited_domains TEXT NOT NULL DEFAULT '[]';
@@ -0,0 +1,8 @@
+-- Deduplicate failure reports on (reporter, fingerprint), where the fingerprint is a SHA-256 of
+-- the source IP, arrival date and original headers. Rows stored earlier have no fingerprint
+-- and are left as they are.
+
+ALTER TABLE failure_reports ADD COLUMN fingerprint TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_failure_reports_fingerprint
+  ON failure_reports(reporter, fingerprint);
@@ -0,0 +1,23 @@
+-- Message-weighted DMARC totals and per-result-element counters
+-- Rows stored before this migration were counted per result element, so copy those
+-- values into the *_results columns. Their weighted columns cannot be recomputed in
+-- SQL; re-parse raw_xml if historical message volumes are needed.
+
+ALTER TABLE dmarc_reports
+  ADD COLUMN IF NOT EXISTS message_count INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS dmarc_pass INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS dmarc_fail INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS dkim_pass_results INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS dkim_fail_results INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS dkim_temperror_results INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS spf_pass_results INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS spf_fail_results INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS spf_temperror_results INTEGER DEFAULT 0;
+
+UPDATE dmarc_reports SET
+  dkim_pass_results = dkim_pass,
+  dkim_fail_results = dkim_fail,
+  dkim_temperror_results = dkim_temperror,
+  spf_pass_results = spf_pass,
+  spf_fail_results = spf_fail,
+  spf_temperror_results = spf_temperror;
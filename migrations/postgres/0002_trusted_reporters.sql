@@ -0,0 +1,5 @@
+-- Quarantine flag for reports from unknown reporters
+-- (the trusted_reporters allowlist itself lives in D1)
+
+ALTER TABLE dmarc_reports ADD COLUMN IF NOT EXISTS quarantined BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE tls_reports ADD COLUMN IF NOT EXISTS quarantined BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,13 @@
+-- Natural key for TLS-RPT policy rows so resent and replayed reports are upserted
+-- Duplicates stored before this migration are collapsed onto the earliest copy
+-- (their failure details go with them through ON DELETE CASCADE).
+
+DELETE FROM tls_reports a USING tls_reports b
+WHERE a.id > b.id
+  AND a.org_name = b.org_name
+  AND a.report_id = b.report_id
+  AND a.policy_domain = b.policy_domain
+  AND a.policy_type = b.policy_type;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tls_natural_key
+  ON tls_reports(org_name, report_id, policy_domain, policy_type);
@@ -0,0 +1,6 @@
+-- Re-key DMARC reports on (org_name, report_id, domain): report IDs are only unique per reporter
+
+ALTER TABLE dmarc_reports DROP CONSTRAINT IF EXISTS dmarc_reports_report_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dmarc_natural_key ON dmarc_reports(org_name, report_id, domain);
+CREATE INDEX IF NOT EXISTS idx_dmarc_report_id ON dmarc_reports(report_id);
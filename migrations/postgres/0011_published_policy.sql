@@ -0,0 +1,11 @@
+-- Keep the whole <policy_published> block with each DMARC report, not just p
+-- Reports stored earlier keep NULL for the new columns.
+
+ALTER TABLE dmarc_reports
+  ADD COLUMN IF NOT EXISTS policy_sp TEXT,
+  ADD COLUMN IF NOT EXISTS policy_adkim TEXT,
+  ADD COLUMN IF NOT EXISTS policy_aspf TEXT,
+  ADD COLUMN IF NOT EXISTS policy_pct INTEGER,
+  ADD COLUMN IF NOT EXISTS policy_fo TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_dmarc_domain_org ON dmarc_reports(domain, org_name, begin_date);
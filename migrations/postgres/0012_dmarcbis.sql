@@ -0,0 +1,9 @@
+-- DMARCbis aggregate report fields, and which schema each report used
+-- Reports stored earlier were all parsed as RFC 7489.
+
+ALTER TABLE dmarc_reports
+  ADD COLUMN IF NOT EXISTS policy_np TEXT,
+  ADD COLUMN IF NOT EXISTS policy_testing TEXT,
+  ADD COLUMN IF NOT EXISTS policy_discovery_method TEXT,
+  ADD COLUMN IF NOT EXISTS schema_version TEXT NOT NULL DEFAULT 'rfc7489',
+  ADD COLUMN IF NOT EXISTS generator TEXT;
@@ -0,0 +1,11 @@
+-- Identifier alignment computed by the worker with the bundled Public Suffix List
+-- Reports and records stored earlier keep NULL, and are left out of aligned pass rates.
+
+ALTER TABLE dmarc_reports
+  ADD COLUMN IF NOT EXISTS dkim_aligned_pass INTEGER,
+  ADD COLUMN IF NOT EXISTS spf_aligned_pass INTEGER,
+  ADD COLUMN IF NOT EXISTS dmarc_aligned_pass INTEGER;
+
+ALTER TABLE dmarc_records
+  ADD COLUMN IF NOT EXISTS dkim_aligned BOOLEAN,
+  ADD COLUMN IF NOT EXISTS spf_aligned BOOLEAN;
@@ -0,0 +1,6 @@
+-- Sender inventory: DKIM signing domain and reverse DNS name per record
+-- (the classification overrides live in D1). Records stored earlier keep NULL.
+
+ALTER TABLE dmarc_records
+  ADD COLUMN IF NOT EXISTS dkim_domain TEXT,
+  ADD COLUMN IF NOT EXISTS source_hostname TEXT;
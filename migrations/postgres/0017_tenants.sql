@@ -0,0 +1,10 @@
+-- Multi-tenant mode: reports are stamped with the tenant resolved from their recipient address.
+-- The tenants table itself lives in D1 only.
+
+ALTER TABLE dmarc_reports ADD COLUMN IF NOT EXISTS tenant_id TEXT;
+ALTER TABLE tls_reports ADD COLUMN IF NOT EXISTS tenant_id TEXT;
+ALTER TABLE failure_reports ADD COLUMN IF NOT EXISTS tenant_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_dmarc_tenant ON dmarc_reports(tenant_id, end_date);
+CREATE INDEX IF NOT EXISTS idx_tls_tenant ON tls_reports(tenant_id, end_date);
+CREATE INDEX IF NOT EXISTS idx_failure_reports_tenant ON failure_reports(tenant_id);
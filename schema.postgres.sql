@@ -4,22 +4,84 @@
 -- DMARC Reports Table
 CREATE TABLE IF NOT EXISTS dmarc_reports (
   id SERIAL PRIMARY KEY,
-  report_id TEXT UNIQUE NOT NULL,
+  report_id TEXT NOT NULL,
   org_name TEXT NOT NULL,
   domain TEXT NOT NULL,
   begin_date TIMESTAMP NOT NULL,
   end_date TIMESTAMP NOT NULL,
+  message_count INTEGER DEFAULT 0,
+  dmarc_pass INTEGER DEFAULT 0,
+  dmarc_fail INTEGER DEFAULT 0,
   dkim_pass INTEGER DEFAULT 0,
   dkim_fail INTEGER DEFAULT 0,
   dkim_temperror INTEGER DEFAULT 0,
   spf_pass INTEGER DEFAULT 0,
   spf_fail INTEGER DEFAULT 0,
   spf_temperror INTEGER DEFAULT 0,
+  dkim_pass_results INTEGER DEFAULT 0,
+  dkim_fail_results INTEGER DEFAULT 0,
+  dkim_temperror_results INTEGER DEFAULT 0,
+  spf_pass_results INTEGER DEFAULT 0,
+  spf_fail_results INTEGER DEFAULT 0,
+  spf_temperror_results INTEGER DEFAULT 0,
+  -- Own alignment check, NULL for reports stored before it existed
+  dkim_aligned_pass INTEGER,
+  spf_aligned_pass INTEGER,
+  dmarc_aligned_pass INTEGER,
   policy_p TEXT NOT NULL,
+  policy_sp TEXT,
+  policy_adkim TEXT,
+  policy_aspf TEXT,
+  policy_pct INTEGER,
+  policy_fo TEXT,
+  policy_np TEXT,
+  policy_testing TEXT,
+  policy_discovery_method TEXT,
+  -- rfc7489 or dmarcbis
+  schema_version TEXT NOT NULL DEFAULT 'rfc7489',
+  generator TEXT,
   raw_xml TEXT,
+  quarantined BOOLEAN NOT NULL DEFAULT FALSE,
+  tenant_id TEXT,
   created_at TIMESTAMP DEFAULT NOW()
 );
 
+-- DMARC Records Table (one row per <record>: source IP and its evaluated outcome)
+CREATE TABLE IF NOT EXISTS dmarc_records (
+  id SERIAL PRIMARY KEY,
+  dmarc_report_id INTEGER NOT NULL REFERENCES dmarc_reports(id) ON DELETE CASCADE,
+  source_ip TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  disposition TEXT NOT NULL,
+  dkim_evaluated TEXT,
+  spf_evaluated TEXT,
+  reasons JSONB,
+  header_from TEXT,
+  envelope_from TEXT,
+  envelope_to TEXT,
+  dkim_aligned BOOLEAN,
+  spf_aligned BOOLEAN,
+  dkim_domain TEXT,
+  source_hostname TEXT
+);
+
+-- Every source IP seen sending as a domain, maintained as reports are stored.
+-- suspected_spoofing is set when the report that introduced the source saw it fail DKIM and SPF.
+-- The table is global across tenants, so only API_TOKEN can read it.
+CREATE TABLE IF NOT EXISTS dmarc_sources (
+  domain TEXT NOT NULL,
+  source_ip TEXT NOT NULL,
+  first_seen TIMESTAMP NOT NULL,
+  last_seen TIMESTAMP NOT NULL,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  dmarc_pass INTEGER NOT NULL DEFAULT 0,
+  report_count INTEGER NOT NULL DEFAULT 0,
+  first_org_name TEXT,
+  first_report_id TEXT,
+  suspected_spoofing BOOLEAN NOT NULL DEFAULT FALSE,
+  PRIMARY KEY (domain, source_ip)
+);
+
 -- TLS-RPT Reports Table (RFC 8460)
 CREATE TABLE IF NOT EXISTS tls_reports (
   id SERIAL PRIMARY KEY,
@@ -29,9 +91,56 @@ CREATE TABLE IF NOT EXISTS tls_reports (
   policy_type TEXT NOT NULL,
   total_success INTEGER DEFAULT 0,
   total_failures INTEGER DEFAULT 0,
-  failure_details JSONB,
+  policy_string JSONB,
+  mx_host JSONB,
   begin_date TIMESTAMP NOT NULL,
   end_date TIMESTAMP NOT NULL,
+  quarantined BOOLEAN NOT NULL DEFAULT FALSE,
+  tenant_id TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- One row per failure-details entry of a TLS-RPT policy
+CREATE TABLE IF NOT EXISTS tls_failure_details (
+  id SERIAL PRIMARY KEY,
+  tls_report_id INTEGER NOT NULL REFERENCES tls_reports(id) ON DELETE CASCADE,
+  result_type TEXT NOT NULL,
+  sending_mta_ip TEXT,
+  receiving_mx_hostname TEXT,
+  receiving_mx_helo TEXT,
+  receiving_ip TEXT,
+  failed_session_count INTEGER NOT NULL DEFAULT 0,
+  additional_information TEXT,
+  failure_reason_code TEXT
+);
+
+-- RFC 6591 failure reports (DMARC ruf), one row per feedback report
+CREATE TABLE IF NOT EXISTS failure_reports (
+  id SERIAL PRIMARY KEY,
+  reporter TEXT NOT NULL,
+  feedback_type TEXT NOT NULL,
+  user_agent TEXT,
+  version TEXT,
+  auth_failure TEXT,
+  source_ip TEXT,
+  reported_domain TEXT,
+  original_mail_from TEXT,
+  original_rcpt_to JSONB,
+  arrival_date TIMESTAMP,
+  delivery_result TEXT,
+  identity_alignment TEXT,
+  dkim_domain TEXT,
+  dkim_identity TEXT,
+  dkim_selector TEXT,
+  spf_dns TEXT,
+  incidents INTEGER NOT NULL DEFAULT 1,
+  original_headers TEXT,
+  redacted BOOLEAN NOT NULL DEFAULT FALSE,
+  quarantined BOOLEAN NOT NULL DEFAULT FALSE,
+  tenant_id TEXT,
+  -- SHA-256 of the source IP, arrival date and original headers, so a resent report is
+  -- stored once
+  fingerprint TEXT,
   created_at TIMESTAMP DEFAULT NOW()
 );
 
@@ -39,8 +148,28 @@ CREATE TABLE IF NOT EXISTS tls_reports (
 CREATE INDEX IF NOT EXISTS idx_dmarc_domain ON dmarc_reports(domain);
 CREATE INDEX IF NOT EXISTS idx_dmarc_begin_date ON dmarc_reports(begin_date);
 CREATE INDEX IF NOT EXISTS idx_dmarc_org_name ON dmarc_reports(org_name);
+-- Report IDs are only unique per reporter, and a report covers one policy domain
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dmarc_natural_key ON dmarc_reports(org_name, report_id, domain);
+CREATE INDEX IF NOT EXISTS idx_dmarc_report_id ON dmarc_reports(report_id);
+CREATE INDEX IF NOT EXISTS idx_dmarc_domain_org ON dmarc_reports(domain, org_name, begin_date);
+CREATE INDEX IF NOT EXISTS idx_dmarc_records_report ON dmarc_records(dmarc_report_id);
+CREATE INDEX IF NOT EXISTS idx_dmarc_records_source_ip ON dmarc_records(source_ip);
+CREATE INDEX IF NOT EXISTS idx_dmarc_sources_first_seen ON dmarc_sources(domain, first_seen);
+CREATE INDEX IF NOT EXISTS idx_dmarc_tenant ON dmarc_reports(tenant_id, end_date);
 CREATE INDEX IF NOT EXISTS idx_tls_policy_domain ON tls_reports(policy_domain);
 CREATE INDEX IF NOT EXISTS idx_tls_begin_date ON tls_reports(begin_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tls_natural_key
+  ON tls_reports(org_name, report_id, policy_domain, policy_type);
+CREATE INDEX IF NOT EXISTS idx_tls_failure_details_report ON tls_failure_details(tls_report_id);
+CREATE INDEX IF NOT EXISTS idx_tls_failure_details_result_type ON tls_failure_details(result_type);
+CREATE INDEX IF NOT EXISTS idx_tls_failure_details_mx ON tls_failure_details(receiving_mx_hostname);
+CREATE INDEX IF NOT EXISTS idx_tls_tenant ON tls_reports(tenant_id, end_date);
+CREATE INDEX IF NOT EXISTS idx_failure_reports_domain ON failure_reports(reported_domain);
+CREATE INDEX IF NOT EXISTS idx_failure_reports_arrival_date ON failure_reports(arrival_date);
+CREATE INDEX IF NOT EXISTS idx_failure_reports_source_ip ON failure_reports(source_ip);
+CREATE INDEX IF NOT EXISTS idx_failure_reports_tenant ON failure_reports(tenant_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_failure_reports_fingerprint
+  ON failure_reports(reporter, fingerprint);
 
 -- Advanced PostgreSQL indexes for analytics
 CREATE INDEX IF NOT EXISTS idx_dmarc_composite ON dmarc_reports(domain, begin_date DESC);
@@ -4,22 +4,84 @@
 -- DMARC Reports Table
 CREATE TABLE IF NOT EXISTS dmarc_reports (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
-  report_id TEXT UNIQUE NOT NULL,
+  report_id TEXT NOT NULL,
   org_name TEXT NOT NULL,
   domain TEXT NOT NULL,
   begin_date INTEGER NOT NULL,
   end_date INTEGER NOT NULL,
+  message_count INTEGER DEFAULT 0,
+  dmarc_pass INTEGER DEFAULT 0,
+  dmarc_fail INTEGER DEFAULT 0,
   dkim_pass INTEGER DEFAULT 0,
   dkim_fail INTEGER DEFAULT 0,
   dkim_temperror INTEGER DEFAULT 0,
   spf_pass INTEGER DEFAULT 0,
   spf_fail INTEGER DEFAULT 0,
   spf_temperror INTEGER DEFAULT 0,
+  dkim_pass_results INTEGER DEFAULT 0,
+  dkim_fail_results INTEGER DEFAULT 0,
+  dkim_temperror_results INTEGER DEFAULT 0,
+  spf_pass_results INTEGER DEFAULT 0,
+  spf_fail_results INTEGER DEFAULT 0,
+  spf_temperror_results INTEGER DEFAULT 0,
+  -- Own alignment check, NULL for reports stored before it existed
+  dkim_aligned_pass INTEGER,
+  spf_aligned_pass INTEGER,
+  dmarc_aligned_pass INTEGER,
   policy_p TEXT NOT NULL,
+  policy_sp TEXT,
+  policy_adkim TEXT,
+  policy_aspf TEXT,
+  policy_pct INTEGER,
+  policy_fo TEXT,
+  policy_np TEXT,
+  policy_testing TEXT,
+  policy_discovery_method TEXT,
+  -- rfc7489 or dmarcbis
+  schema_version TEXT NOT NULL DEFAULT 'rfc7489',
+  generator TEXT,
   raw_xml TEXT,
+  quarantined INTEGER NOT NULL DEFAULT 0,
+  tenant_id TEXT,
   created_at INTEGER DEFAULT (strftime('%s', 'now'))
 );
 
+-- DMARC Records Table (one row per <record>: source IP and its evaluated outcome)
+CREATE TABLE IF NOT EXISTS dmarc_records (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dmarc_report_id INTEGER NOT NULL REFERENCES dmarc_reports(id) ON DELETE CASCADE,
+  source_ip TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  disposition TEXT NOT NULL,
+  dkim_evaluated TEXT,
+  spf_evaluated TEXT,
+  reasons TEXT,
+  header_from TEXT,
+  envelope_from TEXT,
+  envelope_to TEXT,
+  dkim_aligned INTEGER,
+  spf_aligned INTEGER,
+  dkim_domain TEXT,
+  source_hostname TEXT
+);
+
+-- Every source IP seen sending as a domain, maintained as reports are stored.
+-- suspected_spoofing is set when the report that introduced the source saw it fail DKIM and SPF.
+-- The table is global across tenants, so only API_TOKEN can read it.
+CREATE TABLE IF NOT EXISTS dmarc_sources (
+  domain TEXT NOT NULL,
+  source_ip TEXT NOT NULL,
+  first_seen INTEGER NOT NULL,
+  last_seen INTEGER NOT NULL,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  dmarc_pass INTEGER NOT NULL DEFAULT 0,
+  report_count INTEGER NOT NULL DEFAULT 0,
+  first_org_name TEXT,
+  first_report_id TEXT,
+  suspected_spoofing INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (domain, source_ip)
+);
+
 -- TLS-RPT Reports Table (RFC 8460)
 CREATE TABLE IF NOT EXISTS tls_reports (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -29,9 +91,165 @@ CREATE TABLE IF NOT EXISTS tls_reports (
   policy_type TEXT NOT NULL,
   total_success INTEGER DEFAULT 0,
   total_failures INTEGER DEFAULT 0,
-  failure_details TEXT,
+  policy_string TEXT,
+  mx_host TEXT,
   begin_date INTEGER NOT NULL,
   end_date INTEGER NOT NULL,
+  quarantined INTEGER NOT NULL DEFAULT 0,
+  tenant_id TEXT,
+  created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+
+-- One row per failure-details entry of a TLS-RPT policy
+CREATE TABLE IF NOT EXISTS tls_failure_details (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  tls_report_id INTEGER NOT NULL REFERENCES tls_reports(id) ON DELETE CASCADE,
+  result_type TEXT NOT NULL,
+  sending_mta_ip TEXT,
+  receiving_mx_hostname TEXT,
+  receiving_mx_helo TEXT,
+  receiving_ip TEXT,
+  failed_session_count INTEGER NOT NULL DEFAULT 0,
+  additional_information TEXT,
+  failure_reason_code TEXT
+);
+
+-- RFC 6591 failure reports (DMARC ruf), one row per feedback report
+CREATE TABLE IF NOT EXISTS failure_reports (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  reporter TEXT NOT NULL,
+  feedback_type TEXT NOT NULL,
+  user_agent TEXT,
+  version TEXT,
+  auth_failure TEXT,
+  source_ip TEXT,
+  reported_domain TEXT,
+  original_mail_from TEXT,
+  original_rcpt_to TEXT,
+  arrival_date INTEGER,
+  delivery_result TEXT,
+  identity_alignment TEXT,
+  dkim_domain TEXT,
+  dkim_identity TEXT,
+  dkim_selector TEXT,
+  spf_dns TEXT,
+  incidents INTEGER NOT NULL DEFAULT 1,
+  original_headers TEXT,
+  redacted INTEGER NOT NULL DEFAULT 0,
+  quarantined INTEGER NOT NULL DEFAULT 0,
+  tenant_id TEXT,
+  -- SHA-256 of the source IP, arrival date and original headers, so a resent report is
+  -- stored once
+  fingerprint TEXT,
+  created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+
+-- Trusted reporter allowlist, merged with the TRUSTED_REPORTERS variable.
+-- Each entry also trusts its subdomains.
+CREATE TABLE IF NOT EXISTS trusted_reporters (
+  domain TEXT PRIMARY KEY,
+  note TEXT,
+  created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+
+-- Domains this worker collects reports for. An entry of the form *.example.com covers
+-- every subdomain of example.com but not example.com itself. While the table is empty
+-- reports for any domain are stored.
+CREATE TABLE IF NOT EXISTS managed_domains (
+  domain TEXT PRIMARY KEY,
+  note TEXT,
+  created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+
+-- Sender inventory overrides, checked before the bundled catalogue in
+-- src/data/sending-services.json. kind is 'cidr', 'hostname' or 'dkim_domain'.
+CREATE TABLE IF NOT EXISTS sending_services (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  service TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  pattern TEXT NOT NULL,
+  created_at INTEGER DEFAULT (strftime('%s', 'now')),
+  UNIQUE (kind, pattern)
+);
+
+-- Tenants, resolved from the rua recipient address of each report email: either a
+-- +tag equal to the tenant ID or one of its addresses. addresses and trusted_reporters
+-- are JSON arrays. Only the SHA-256 digest of the tenant API key is kept.
+CREATE TABLE IF NOT EXISTS tenants (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  addresses TEXT NOT NULL DEFAULT '[]',
+  trusted_reporters TEXT NOT NULL DEFAULT '[]',
+  retention_days INTEGER,
+  api_key_hash TEXT UNIQUE,
+  created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+
+-- Background replays of archived raw emails, advanced by the cron trigger
+CREATE TABLE IF NOT EXISTS replay_jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  prefix TEXT NOT NULL,
+  from_ts INTEGER,
+  to_ts INTEGER,
+  cursor TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  processed INTEGER NOT NULL DEFAULT 0,
+  stored INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER DEFAULT (strftime('%s', 'now')),
+  updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+
+-- One row per received email: where it was archived and what became of it
+CREATE TABLE IF NOT EXISTS ingest_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  r2_key TEXT NOT NULL,
+  sender TEXT NOT NULL,
+  sender_domain TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  message_id TEXT,
+  outcome TEXT NOT NULL,
+  error TEXT,
+  attachment_count INTEGER NOT NULL DEFAULT 0,
+  report_ids TEXT NOT NULL DEFAULT '[]',
+  unsolicited_domains TEXT NOT NULL DEFAULT '[]',
+  quarantined INTEGER NOT NULL DEFAULT 0,
+  received_at INTEGER NOT NULL
+);
+
+-- Per-domain digest emails sent by the cron trigger
+CREATE TABLE IF NOT EXISTS digest_subscriptions (
+  domain TEXT PRIMARY KEY,
+  recipients TEXT NOT NULL,
+  cadence TEXT NOT NULL DEFAULT 'weekly',
+  last_period_end INTEGER,
+  created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+
+-- Per-domain alert thresholds and delivery channels
+CREATE TABLE IF NOT EXISTS alert_rules (
+  domain TEXT PRIMARY KEY,
+  failure_rate_threshold REAL,
+  min_messages INTEGER NOT NULL DEFAULT 100,
+  window_hours INTEGER NOT NULL DEFAULT 24,
+  new_source_min_messages INTEGER,
+  missing_report_grace_hours INTEGER,
+  email_recipients TEXT NOT NULL DEFAULT '[]',
+  webhook_url TEXT,
+  cooldown_minutes INTEGER NOT NULL DEFAULT 360,
+  created_at INTEGER DEFAULT (strftime('%s', 'now'))
+);
+
+-- Every alert raised, also consulted for cooldown/deduplication
+CREATE TABLE IF NOT EXISTS alert_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  domain TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  dedup_key TEXT NOT NULL,
+  message TEXT NOT NULL,
+  value REAL NOT NULL,
+  report_id TEXT NOT NULL,
+  channels TEXT NOT NULL DEFAULT '[]',
   created_at INTEGER DEFAULT (strftime('%s', 'now'))
 );
 
@@ -39,5 +257,28 @@ CREATE TABLE IF NOT EXISTS tls_reports (
 CREATE INDEX IF NOT EXISTS idx_dmarc_domain ON dmarc_reports(domain);
 CREATE INDEX IF NOT EXISTS idx_dmarc_begin_date ON dmarc_reports(begin_date);
 CREATE INDEX IF NOT EXISTS idx_dmarc_org_name ON dmarc_reports(org_name);
+-- Report IDs are only unique per reporter, and a report covers one policy domain
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dmarc_natural_key ON dmarc_reports(org_name, report_id, domain);
+CREATE INDEX IF NOT EXISTS idx_dmarc_report_id ON dmarc_reports(report_id);
+CREATE INDEX IF NOT EXISTS idx_dmarc_domain_org ON dmarc_reports(domain, org_name, begin_date);
+CREATE INDEX IF NOT EXISTS idx_dmarc_records_report ON dmarc_records(dmarc_report_id);
+CREATE INDEX IF NOT EXISTS idx_dmarc_records_source_ip ON dmarc_records(source_ip);
+CREATE INDEX IF NOT EXISTS idx_dmarc_sources_first_seen ON dmarc_sources(domain, first_seen);
+CREATE INDEX IF NOT EXISTS idx_dmarc_tenant ON dmarc_reports(tenant_id, end_date);
 CREATE INDEX IF NOT EXISTS idx_tls_policy_domain ON tls_reports(policy_domain);
 CREATE INDEX IF NOT EXISTS idx_tls_begin_date ON tls_reports(begin_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tls_natural_key
+  ON tls_reports(org_name, report_id, policy_domain, policy_type);
+CREATE INDEX IF NOT EXISTS idx_tls_failure_details_report ON tls_failure_details(tls_report_id);
+CREATE INDEX IF NOT EXISTS idx_tls_failure_details_result_type ON tls_failure_details(result_type);
+CREATE INDEX IF NOT EXISTS idx_tls_failure_details_mx ON tls_failure_details(receiving_mx_hostname);
+CREATE INDEX IF NOT EXISTS idx_tls_tenant ON tls_reports(tenant_id, end_date);
+CREATE INDEX IF NOT EXISTS idx_failure_reports_domain ON failure_reports(reported_domain);
+CREATE INDEX IF NOT EXISTS idx_failure_reports_arrival_date ON failure_reports(arrival_date);
+CREATE INDEX IF NOT EXISTS idx_failure_reports_source_ip ON failure_reports(source_ip);
+CREATE INDEX IF NOT EXISTS idx_failure_reports_tenant ON failure_reports(tenant_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_failure_reports_fingerprint
+  ON failure_reports(reporter, fingerprint);
+CREATE INDEX IF NOT EXISTS idx_ingest_log_received_at ON ingest_log(received_at);
+CREATE INDEX IF NOT EXISTS idx_ingest_log_sender_domain ON ingest_log(sender_domain);
+CREATE INDEX IF NOT EXISTS idx_alert_history_dedup ON alert_history(domain, dedup_key, created_at);
@@ -0,0 +1,216 @@
+import { env } from "cloudflare:test";
+import { describe, it, expect, beforeAll, vi } from "vitest";
+
+import { evaluateAlerts } from "../alerts";
+import { handleRequest } from "../api";
+import { parseDMARCReportFromString } from "../dmarc";
+import { storeReport } from "../storage";
+import type { Alert, DMARCReport, Env } from "../types";
+
+import { applySchema } from "./schema";
+
+const API_TOKEN = "test-token";
+const ADMIN_TOKEN = "admin-token";
+
+const send = vi.fn(async () => ({ messageId: crypto.randomUUID() }));
+const alertEnv: Env = {
+  ...env,
+  API_TOKEN,
+  ADMIN_TOKEN,
+  EMAIL: { send },
+  SENDER_EMAIL: "reports@dmarc.example",
+  SENDER_DOMAIN: "dmarc.example",
+};
+
+function dmarcXml(reportId: string, begin: number, failingIp: string, failing: number): string {
+  return `<?xml version="1.0"?>
+<feedback>
+  <report_metadata>
+    <org_name>google.com</org_name>
+    <report_id>${reportId}</report_id>
+    <date_range><begin>${begin}</begin><end>${begin + 86399}</end></date_range>
+  </report_metadata>
+  <policy_published><domain>example.com</domain><p>none</p></policy_published>
+  <record>
+    <row>
+      <source_ip>192.0.2.1</source_ip>
+      <count>100</count>
+      <policy_evaluated><disposition>none</disposition><dkim>pass</dkim><spf>pass</spf></policy_evaluated>
+    </row>
+    <identifiers><header_from>example.com</header_from></identifiers>
+    <auth_results><dkim><result>pass</result></dkim><spf><result>pass</result></spf></auth_results>
+  </record>
+  <record>
+    <row>
+      <source_ip>${failingIp}</source_ip>
+      <count>${failing}</count>
+      <policy_evaluated><disposition>none</disposition><dkim>fail</dkim><spf>fail</spf></policy_evaluated>
+    </row>
+    <identifiers><header_from>example.com</header_from></identifiers>
+    <auth_results><dkim><result>fail</result></dkim><spf><result>fail</result></spf></auth_results>
+  </record>
+</feedback>`;
+}
+
+async function store(xml: string): Promise<DMARCReport> {
+  const report = parseDMARCReportFromString(xml);
+  await storeReport(report, "dmarc", alertEnv);
+  return report;
+}
+
+async function request(
+  method: string,
+  path: string,
+  token: string,
+  body?: unknown,
+): Promise<Response> {
+  return handleRequest(
+    new Request(`https://dmarc.example${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }),
+    alertEnv,
+  );
+}
+
+let quietAlerts: Alert[] = [];
+let spikeAlerts: Alert[] = [];
+
+// Alerts are raised here because per-test storage is rolled back after each test
+beforeAll(async () => {
+  await applySchema(env.DB);
+  // Establishes 198.51.100.7 as a known (if failing) source
+  await store(dmarcXml("alert-baseline", 1703980800, "198.51.100.7", 5));
+  await request("PUT", "/admin/alert-rules/example.com", ADMIN_TOKEN, {
+    failureRateThreshold: 0.2,
+    minMessages: 10,
+    newSourceMinMessages: 50,
+    emailRecipients: ["oncall@example.com"],
+  });
+
+  const quiet = await store(dmarcXml("alert-quiet", 1704067200, "198.51.100.7", 5));
+  quietAlerts = await evaluateAlerts(quiet, alertEnv);
+  const spike = await store(dmarcXml("alert-spike", 1704153600, "203.0.113.9", 100));
+  spikeAlerts = await evaluateAlerts(spike, alertEnv);
+});
+
+describe("evaluateAlerts", () => {
+  it("does not alert on known sources below the threshold", () => {
+    expect(quietAlerts).toEqual([]);
+  });
+
+  it("alerts on a failure spike from a new source", () => {
+    expect(spikeAlerts.map((alert) => alert.dedupKey)).toEqual([
+      "failure_rate",
+      "new_source:203.0.113.9",
+    ]);
+    // 24h window ending with the spike report: alert-quiet plus alert-spike
+    expect(spikeAlerts[0]?.value).toBeCloseTo(105 / 305);
+    expect(spikeAlerts[0]?.message).toContain("34.4%");
+    expect(spikeAlerts[0]?.message).toContain("DKIM failed 105 and SPF 105 of 305 messages");
+    expect(spikeAlerts.every((alert) => alert.channels.includes("email"))).toBe(true);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("suppresses repeats during the cooldown", async () => {
+    const report = await store(dmarcXml("alert-repeat", 1704240000, "203.0.113.9", 100));
+
+    expect(await evaluateAlerts(report, alertEnv)).toEqual([]);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("counts DKIM failures even when SPF passes DMARC", async () => {
+    // The failing source still passes DMARC on SPF
+    const xml = dmarcXml("alert-dkim-only", 1704412800, "198.51.100.7", 50)
+      .replace("<dkim>fail</dkim><spf>fail</spf>", "<dkim>fail</dkim><spf>pass</spf>")
+      .replace("<spf><result>fail</result></spf>", "<spf><result>pass</result></spf>");
+    const report = await store(xml);
+    await env.DB.prepare("DELETE FROM alert_history").run();
+
+    const alerts = await evaluateAlerts(report, alertEnv);
+
+    expect(report.dmarcFail).toBe(0);
+    expect(alerts.map((alert) => alert.dedupKey)).toEqual(["failure_rate"]);
+    expect(alerts[0]?.value).toBeCloseTo(50 / 150);
+  });
+
+  it("retries within the cooldown when no channel accepted the alert", async () => {
+    await request("PUT", "/admin/alert-rules/example.com", ADMIN_TOKEN, {
+      failureRateThreshold: 0.2,
+      minMessages: 10,
+      emailRecipients: ["oncall@example.com"],
+      webhookUrl: "https://hooks.test/alerts",
+    });
+    const report = await store(dmarcXml("alert-undelivered", 1704240000, "203.0.113.9", 100));
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(new Response("unavailable", { status: 503 }));
+    const failingEnv: Env = {
+      ...alertEnv,
+      EMAIL: {
+        send: vi.fn(async () => {
+          throw new Error("mailbox unavailable");
+        }),
+      },
+    };
+
+    try {
+      // The spike alert from beforeAll is still cooling down, so clear it first
+      await env.DB.prepare("DELETE FROM alert_history").run();
+      const undelivered = await evaluateAlerts(report, failingEnv);
+      expect(undelivered.map((alert) => alert.channels)).toEqual([[]]);
+
+      fetchSpy.mockResolvedValue(new Response(null, { status: 204 }));
+      const delivered = await evaluateAlerts(report, alertEnv);
+      expect(delivered.map((alert) => alert.channels)).toEqual([["email", "webhook"]]);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+});
+
+describe("GET /alerts", () => {
+  it("lists the alert history", async () => {
+    const response = await request("GET", "/alerts?domain=example.com", API_TOKEN);
+    const body = await response.json<{ alerts: Alert[] }>();
+
+    expect(response.status).toBe(200);
+    expect(body.alerts.map((alert) => alert.kind).sort()).toEqual(["failure_rate", "new_source"]);
+    expect(body.alerts[0]?.reportId).toBe("alert-spike");
+  });
+});
+
+describe("/admin/alert-rules", () => {
+  it("validates rules", async () => {
+    const put = async (body: unknown): Promise<number> =>
+      (await request("PUT", "/admin/alert-rules/example.org", ADMIN_TOKEN, body)).status;
+
+    expect(await put({ emailRecipients: ["oncall@example.com"] })).toBe(400);
+    expect(await put({ failureRateThreshold: 1.5, emailRecipients: ["oncall@example.com"] })).toBe(
+      400,
+    );
+    expect(await put({ failureRateThreshold: 0.1 })).toBe(400);
+    expect(await put({ failureRateThreshold: 0.1, webhookUrl: "http://hooks.test/x" })).toBe(400);
+    expect(await put({ failureRateThreshold: 0.1, webhookUrl: "https://hooks.test/x" })).toBe(200);
+    expect((await request("DELETE", "/admin/alert-rules/example.org", ADMIN_TOKEN)).status).toBe(
+      204,
+    );
+  });
+
+  it("lists configured rules with defaults filled in", async () => {
+    const body = await (
+      await request("GET", "/admin/alert-rules", ADMIN_TOKEN)
+    ).json<{ rules: unknown[] }>();
+
+    expect(body.rules).toEqual([
+      expect.objectContaining({
+        domain: "example.com",
+        failureRateThreshold: 0.2,
+        windowHours: 24,
+        cooldownMinutes: 360,
+        webhookUrl: null,
+      }),
+    ]);
+  });
+});
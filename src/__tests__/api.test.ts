@@ -0,0 +1,611 @@
+import { env } from "cloudflare:test";
+import { gzip } from "pako";
+import { describe, it, expect, beforeAll } from "vitest";
+
+import { handleRequest } from "../api";
+import { parseDMARCReportFromString } from "../dmarc";
+import { isTrustedReporter } from "../reporters";
+import { storeReport, storeTLSReport } from "../storage";
+import type { Env, PolicyChange, PolicyReadiness, TLSFailure, TLSReportSummary } from "../types";
+
+import { applySchema } from "./schema";
+
+const API_TOKEN = "test-token";
+const ADMIN_TOKEN = "admin-token";
+const apiEnv: Env = { ...env, API_TOKEN, ADMIN_TOKEN, TRUSTED_REPORTERS: "google.com,yahoo.com" };
+
+function dmarcXml(reportId: string, orgName: string, domain: string, begin: number): string {
+  return `<?xml version="1.0"?>
+<feedback>
+  <report_metadata>
+    <org_name>${orgName}</org_name>
+    <report_id>${reportId}</report_id>
+    <date_range><begin>${begin}</begin><end>${begin + 86399}</end></date_range>
+  </report_metadata>
+  <policy_published><domain>${domain}</domain><p>reject</p></policy_published>
+  <record>
+    <row>
+      <source_ip>192.0.2.1</source_ip>
+      <count>8</count>
+      <policy_evaluated><disposition>none</disposition><dkim>pass</dkim><spf>pass</spf></policy_evaluated>
+    </row>
+    <identifiers><header_from>${domain}</header_from></identifiers>
+    <auth_results><dkim><result>pass</result></dkim><spf><result>pass</result></spf></auth_results>
+  </record>
+  <record>
+    <row>
+      <source_ip>203.0.113.5</source_ip>
+      <count>2</count>
+      <policy_evaluated><disposition>reject</disposition><dkim>fail</dkim><spf>fail</spf></policy_evaluated>
+    </row>
+    <identifiers><header_from>${domain}</header_from></identifiers>
+    <auth_results><dkim><result>fail</result></dkim><spf><result>fail</result></spf></auth_results>
+  </record>
+</feedback>`;
+}
+
+async function get(path: string, token: string | null = API_TOKEN): Promise<Response> {
+  const headers: Record<string, string> = {};
+  if (token !== null) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+  return handleRequest(new Request(`https://dmarc.example${path}`, { headers }), apiEnv);
+}
+
+async function admin(method: string, path: string, body?: unknown): Promise<Response> {
+  return handleRequest(
+    new Request(`https://dmarc.example${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }),
+    apiEnv,
+  );
+}
+
+beforeAll(async () => {
+  await applySchema(env.DB);
+  await storeReport(
+    parseDMARCReportFromString(dmarcXml("api-1", "google.com", "example.com", 1704067200)),
+    "dmarc",
+    env,
+  );
+  await storeReport(
+    parseDMARCReportFromString(dmarcXml("api-2", "yahoo.com", "example.com", 1704153600)),
+    "dmarc",
+    env,
+  );
+  await storeReport(
+    parseDMARCReportFromString(dmarcXml("api-3", "google.com", "other.org", 1704153600)),
+    "dmarc",
+    env,
+  );
+  await storeReport(
+    parseDMARCReportFromString(
+      dmarcXml("api-quarantined", "unknown.test", "example.com", 1704067200),
+    ),
+    "dmarc",
+    env,
+    { quarantined: true },
+  );
+  await storeTLSReport(
+    {
+      "organization-name": "google.com",
+      "date-range": {
+        "start-datetime": "2024-01-01T00:00:00Z",
+        "end-datetime": "2024-01-01T23:59:59Z",
+      },
+      "contact-info": "mailto:tls@google.com",
+      "report-id": "api-tls-1",
+      "policies": [
+        {
+          policy: { "policy-type": "sts", "policy-domain": "example.com" },
+          summary: {
+            "total-successful-session-count": 90,
+            "total-failure-session-count": 10,
+          },
+        },
+      ],
+    },
+    env,
+  );
+  await storeTLSReport(
+    {
+      "organization-name": "microsoft.com",
+      "date-range": {
+        "start-datetime": "2024-01-01T00:00:00Z",
+        "end-datetime": "2024-01-01T23:59:59Z",
+      },
+      "contact-info": "mailto:tlsrpt@microsoft.com",
+      "report-id": "api-tls-2",
+      "policies": [
+        {
+          "policy": {
+            "policy-type": "sts",
+            "policy-domain": "example.net",
+            "policy-string": ["version: STSv1", "mode: enforce", "mx: *.example.net"],
+            "mx-host": ["*.example.net"],
+          },
+          "summary": {
+            "total-successful-session-count": 40,
+            "total-failure-session-count": 7,
+          },
+          "failure-details": [
+            {
+              "result-type": "certificate-expired",
+              "sending-mta-ip": "198.51.100.10",
+              "receiving-mx-hostname": "mx1.example.net",
+              "receiving-ip": "192.0.2.10",
+              "failed-session-count": 5,
+            },
+            {
+              "result-type": "starttls-not-supported",
+              "sending-mta-ip": "198.51.100.10",
+              "receiving-mx-hostname": "mx2.example.net",
+              "failed-session-count": 2,
+              "additional-information": "https://tlsrpt.example/detail/2",
+            },
+          ],
+        },
+      ],
+    },
+    env,
+  );
+});
+
+describe("API authentication", () => {
+  it("rejects requests without a bearer token", async () => {
+    const response = await get("/reports", null);
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("WWW-Authenticate")).toBe("Bearer");
+  });
+
+  it("rejects requests with the wrong token", async () => {
+    expect((await get("/reports", "nope")).status).toBe(401);
+  });
+
+  it("stays locked when no API token is configured", async () => {
+    const request = new Request("https://dmarc.example/reports", {
+      headers: { Authorization: "Bearer " },
+    });
+
+    expect((await handleRequest(request, env)).status).toBe(401);
+  });
+
+  it("returns 404 for unknown routes", async () => {
+    expect((await get("/nope")).status).toBe(404);
+  });
+});
+
+describe("GET /reports", () => {
+  it("lists reports newest first", async () => {
+    const response = await get("/reports");
+    const body = await response.json<{ reports: Array<{ reportId: string }> }>();
+
+    expect(response.status).toBe(200);
+    expect(body.reports.map((r) => r.reportId)).toEqual(["api-3", "api-2", "api-1"]);
+  });
+
+  it("filters by domain, org and date range", async () => {
+    const byDomain = await (
+      await get("/reports?domain=Example.com")
+    ).json<{ reports: Array<{ reportId: string }> }>();
+    const byOrg = await (
+      await get("/reports?org=google.com&domain=example.com")
+    ).json<{ reports: Array<{ reportId: string }> }>();
+    const byDate = await (
+      await get("/reports?domain=example.com&from=2024-01-02")
+    ).json<{ reports: Array<{ reportId: string }> }>();
+
+    expect(byDomain.reports.map((r) => r.reportId)).toEqual(["api-2", "api-1"]);
+    expect(byOrg.reports.map((r) => r.reportId)).toEqual(["api-1"]);
+    expect(byDate.reports.map((r) => r.reportId)).toEqual(["api-2"]);
+  });
+
+  it("paginates with limit and offset", async () => {
+    const body = await (
+      await get("/reports?limit=1&offset=1")
+    ).json<{ reports: Array<{ reportId: string }>; limit: number }>();
+
+    expect(body.limit).toBe(1);
+    expect(body.reports.map((r) => r.reportId)).toEqual(["api-2"]);
+  });
+
+  it("only lists quarantined reports when asked", async () => {
+    const body = await (
+      await get("/reports?quarantined=1")
+    ).json<{ reports: Array<{ reportId: string }> }>();
+
+    expect(body.reports.map((r) => r.reportId)).toEqual(["api-quarantined"]);
+  });
+
+  it("rejects malformed filters", async () => {
+    expect((await get("/reports?from=yesterday")).status).toBe(400);
+    expect((await get("/reports?limit=-1")).status).toBe(400);
+  });
+});
+
+describe("GET /reports/:id", () => {
+  it("returns the summary with its records", async () => {
+    const response = await get("/reports/api-1");
+    const body = await response.json<{
+      report: { orgName: string; messageCount: number; dmarcFail: number };
+      records: Array<{ sourceIp: string; count: number; reasons: unknown[] }>;
+    }>();
+
+    expect(response.status).toBe(200);
+    expect(body.report.orgName).toBe("google.com");
+    expect(body.report.messageCount).toBe(10);
+    expect(body.report.dmarcFail).toBe(2);
+    expect(body.records.map((r) => r.sourceIp)).toEqual(["192.0.2.1", "203.0.113.5"]);
+    expect(body.records[0]?.reasons).toEqual([]);
+  });
+
+  it("returns 404 for an unknown report", async () => {
+    expect((await get("/reports/missing")).status).toBe(404);
+    expect((await get("/reports/yahoo.com/example.com/api-1")).status).toBe(404);
+  });
+
+  it("returns 400 for a malformed percent-escape", async () => {
+    expect((await get("/reports/%E0%A4%A")).status).toBe(400);
+  });
+
+  it("keeps reports from different reporters that share an ID apart", async () => {
+    for (const orgName of ["Small Reporter", "tiny.example"]) {
+      await storeReport(
+        parseDMARCReportFromString(dmarcXml("1", orgName, "example.net", 1704067200)),
+        "dmarc",
+        env,
+      );
+    }
+
+    const ambiguous = await get("/reports/1");
+    expect(ambiguous.status).toBe(409);
+    expect((await ambiguous.json<{ reports: unknown[] }>()).reports).toEqual([
+      { orgName: "Small Reporter", domain: "example.net", reportId: "1" },
+      { orgName: "tiny.example", domain: "example.net", reportId: "1" },
+    ]);
+
+    const response = await get("/reports/Small%20Reporter/example.net/1");
+    expect(response.status).toBe(200);
+    expect((await response.json<{ report: { orgName: string } }>()).report.orgName).toBe(
+      "Small Reporter",
+    );
+  });
+});
+
+describe("GET /tls-reports", () => {
+  it("lists TLS-RPT policies filtered by domain", async () => {
+    const body = await (
+      await get("/tls-reports?domain=example.com")
+    ).json<{
+      reports: Array<{ reportId: string; totalFailures: number; failureDetails: unknown }>;
+    }>();
+
+    expect(body.reports).toHaveLength(1);
+    expect(body.reports[0]?.reportId).toBe("api-tls-1");
+    expect(body.reports[0]?.totalFailures).toBe(10);
+    expect(body.reports[0]?.failureDetails).toEqual([]);
+  });
+});
+
+describe("GET /tls-failures", () => {
+  it("returns stored failure details with their policies", async () => {
+    const { reports } = await (
+      await get("/tls-reports?domain=example.net")
+    ).json<{ reports: TLSReportSummary[] }>();
+
+    expect(reports[0]?.mxHosts).toEqual(["*.example.net"]);
+    expect(reports[0]?.policyStrings).toHaveLength(3);
+    expect(reports[0]?.failureDetails.map((detail) => detail.resultType)).toEqual([
+      "certificate-expired",
+      "starttls-not-supported",
+    ]);
+  });
+
+  it("filters failures by result type and MX host across reporters", async () => {
+    const response = await get(
+      "/tls-failures?result_type=certificate-expired&mx_host=MX1.example.net",
+    );
+    const { failures } = await response.json<{ failures: TLSFailure[] }>();
+
+    expect(response.status).toBe(200);
+    expect(failures).toEqual([
+      {
+        reportId: "api-tls-2",
+        orgName: "microsoft.com",
+        policyDomain: "example.net",
+        policyType: "sts",
+        resultType: "certificate-expired",
+        sendingMtaIp: "198.51.100.10",
+        receivingMxHostname: "mx1.example.net",
+        receivingMxHelo: null,
+        receivingIp: "192.0.2.10",
+        failedSessionCount: 5,
+        additionalInformation: null,
+        failureReasonCode: null,
+        beginDate: 1704067200,
+        endDate: 1704153599,
+      },
+    ]);
+    expect(
+      (await (await get("/tls-failures?domain=example.com")).json<{ failures: TLSFailure[] }>())
+        .failures,
+    ).toEqual([]);
+  });
+});
+
+describe("GET /domains/:domain/summary", () => {
+  it("aggregates DMARC and TLS-RPT totals over the window", async () => {
+    const body = await (
+      await get("/domains/example.com/summary?from=1704067200&to=1704239999")
+    ).json<Record<string, number | string>>();
+
+    expect(body).toMatchObject({
+      domain: "example.com",
+      reports: 2,
+      reporters: 2,
+      messageCount: 20,
+      dmarcPass: 16,
+      dmarcFail: 4,
+      // The fixture's DKIM and SPF results name no domain, so nothing aligns
+      alignedMessageCount: 20,
+      dmarcAlignedPass: 0,
+      alignedPassRate: 0,
+      tlsSuccessfulSessions: 90,
+      tlsFailedSessions: 10,
+    });
+  });
+});
+
+describe("GET /domains/:domain/policy-history", () => {
+  it("lists the first report in which each reporter saw a new policy", async () => {
+    const store = async (
+      reportId: string,
+      orgName: string,
+      begin: number,
+      policy: string,
+    ): Promise<void> =>
+      storeReport(
+        parseDMARCReportFromString(
+          dmarcXml(reportId, orgName, "rollout.test", begin).replace("<p>reject</p>", policy),
+        ),
+        "dmarc",
+        env,
+      );
+    await store("policy-1", "google.com", 1704067200, "<p>none</p>");
+    await store("policy-2", "google.com", 1704153600, "<p>quarantine</p><pct>25</pct>");
+    await store("policy-3", "google.com", 1704240000, "<p>quarantine</p><pct>25</pct>");
+    await store("policy-4", "yahoo.com", 1704240000, "<p>quarantine</p><pct>25</pct>");
+
+    const body = await (
+      await get("/domains/Rollout.test/policy-history")
+    ).json<{ domain: string; changes: PolicyChange[] }>();
+
+    expect(body.domain).toBe("rollout.test");
+    expect(body.changes.map((change) => [change.orgName, change.reportId, change.policyP])).toEqual(
+      [
+        ["google.com", "policy-1", "none"],
+        ["google.com", "policy-2", "quarantine"],
+        ["yahoo.com", "policy-4", "quarantine"],
+      ],
+    );
+    expect(body.changes[1]).toMatchObject({
+      firstSeen: 1704153600,
+      policyPct: 25,
+      previous: { policyP: "none", policyPct: null },
+    });
+    expect(body.changes[2]?.previous).toBeNull();
+  });
+});
+
+describe("GET /domains/:domain/readiness", () => {
+  it("weighs the aligned pass rate and partly aligned senders against the next step", async () => {
+    const record = (sourceIp: string, count: number, dkimDomain: string): string => `
+  <record>
+    <row>
+      <source_ip>${sourceIp}</source_ip>
+      <count>${count}</count>
+      <policy_evaluated><disposition>none</disposition><dkim>pass</dkim><spf>fail</spf></policy_evaluated>
+    </row>
+    <identifiers><header_from>ready.test</header_from></identifiers>
+    <auth_results><dkim><domain>${dkimDomain}</domain><result>pass</result></dkim></auth_results>
+  </record>`;
+    for (const [reportId, orgName, begin] of [
+      ["ready-1", "google.com", 1704067200],
+      ["ready-2", "yahoo.com", 1704153600],
+    ] as const) {
+      await storeReport(
+        parseDMARCReportFromString(`<?xml version="1.0"?>
+<feedback>
+  <report_metadata>
+    <org_name>${orgName}</org_name>
+    <report_id>${reportId}</report_id>
+    <date_range><begin>${begin}</begin><end>${begin + 86399}</end></date_range>
+  </report_metadata>
+  <policy_published><domain>ready.test</domain><p>quarantine</p></policy_published>
+  ${record("192.0.2.1", 200, "ready.test")}
+  ${record("198.51.100.7", 5, "mail.ready.test")}
+  ${record("198.51.100.7", 12, "esp.example")}
+</feedback>`),
+        "dmarc",
+        env,
+      );
+    }
+
+    const response = await get("/domains/Ready.test/readiness?to=2024-01-05&days=7");
+    const readiness = await response.json<PolicyReadiness>();
+
+    expect(response.status).toBe(200);
+    expect(readiness).toMatchObject({
+      domain: "ready.test",
+      currentPolicy: { policyP: "quarantine" },
+      nextStep: "p=reject",
+      ready: false,
+      messageCount: 434,
+      reporters: 2,
+      blockingSenders: [
+        {
+          sourceIp: "198.51.100.7",
+          messageCount: 34,
+          alignedMessages: 10,
+          unalignedMessages: 24,
+          reporters: 2,
+        },
+      ],
+    });
+    expect(readiness.reasons).toEqual([
+      "Aligned pass rate 94.5% is below the 98.0% needed for p=reject",
+      "1 sending sources that align some of their mail would have unaligned messages rejected",
+    ]);
+  });
+});
+
+describe("GET /dashboard", () => {
+  it("asks browsers for Basic credentials", async () => {
+    const response = await handleRequest(new Request("https://dmarc.example/dashboard"), apiEnv);
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("WWW-Authenticate")).toContain("Basic");
+  });
+
+  it("renders the dashboard with the API token as Basic password", async () => {
+    const request = new Request(
+      "https://dmarc.example/dashboard?domain=example.com&days=7&to=2024-01-03",
+      {
+        headers: { Authorization: `Basic ${btoa(`admin:${API_TOKEN}`)}` },
+      },
+    );
+
+    const response = await handleRequest(request, apiEnv);
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("text/html");
+    expect(html).toContain("80.0% pass · 20 messages");
+    expect(html).toContain("<code>203.0.113.5</code>");
+    expect(html).toContain("<td>yahoo.com</td>");
+  });
+});
+
+describe("/admin/trusted-reporters", () => {
+  it("requires the admin token", async () => {
+    expect((await get("/admin/trusted-reporters")).status).toBe(401);
+    expect(
+      (
+        await handleRequest(
+          new Request("https://dmarc.example/admin/trusted-reporters", {
+            headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+          }),
+          { ...apiEnv, ADMIN_TOKEN: undefined },
+        )
+      ).status,
+    ).toBe(401);
+  });
+
+  it("adds, lists and removes database entries", async () => {
+    expect(await isTrustedReporter("dmarc.fastmail.com", apiEnv)).toBe(false);
+
+    const added = await admin("POST", "/admin/trusted-reporters", {
+      domain: "Fastmail.com",
+      note: "ticket 42",
+    });
+    expect(added.status).toBe(201);
+    expect(await isTrustedReporter("dmarc.fastmail.com", apiEnv)).toBe(true);
+
+    const listed = await (
+      await admin("GET", "/admin/trusted-reporters")
+    ).json<{
+      reporters: Array<{ domain: string; source: string; note: string | null }>;
+    }>();
+    expect(listed.reporters).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ domain: "google.com", source: "env" }),
+        expect.objectContaining({ domain: "fastmail.com", source: "database", note: "ticket 42" }),
+      ]),
+    );
+
+    expect((await admin("DELETE", "/admin/trusted-reporters/fastmail.com")).status).toBe(204);
+    expect(await isTrustedReporter("fastmail.com", apiEnv)).toBe(false);
+  });
+
+  it("trusts subdomains of environment entries", async () => {
+    expect(await isTrustedReporter("mail.google.com", apiEnv)).toBe(true);
+    expect(await isTrustedReporter("microsoft.com", apiEnv)).toBe(false);
+  });
+
+  it("refuses to remove environment entries", async () => {
+    expect((await admin("DELETE", "/admin/trusted-reporters/google.com")).status).toBe(409);
+    expect((await admin("DELETE", "/admin/trusted-reporters/nobody.test")).status).toBe(404);
+  });
+
+  it("validates the submitted domain", async () => {
+    expect(
+      (await admin("POST", "/admin/trusted-reporters", { domain: "not a domain" })).status,
+    ).toBe(400);
+    expect((await admin("POST", "/admin/trusted-reporters", ["x"])).status).toBe(400);
+  });
+});
+
+describe("POST /tlsrpt", () => {
+  const report = {
+    "organization-name": "Example Mail",
+    "date-range": {
+      "start-datetime": "2024-01-02T00:00:00Z",
+      "end-datetime": "2024-01-02T23:59:59Z",
+    },
+    "contact-info": "mailto:tls@mail.example",
+    "report-id": "https-tls-1",
+    "policies": [
+      {
+        policy: { "policy-type": "sts", "policy-domain": "example.com" },
+        summary: { "total-successful-session-count": 5, "total-failure-session-count": 1 },
+      },
+    ],
+  };
+
+  async function submit(body: BodyInit, contentType: string, target = apiEnv): Promise<Response> {
+    return handleRequest(
+      new Request("https://dmarc.example/tlsrpt", {
+        method: "POST",
+        headers: { "Content-Type": contentType },
+        body,
+      }),
+      target,
+    );
+  }
+
+  it("accepts gzip submissions without credentials", async () => {
+    const response = await submit(gzip(JSON.stringify(report)), "application/tlsrpt+gzip");
+    const { reports } = await (
+      await get("/tls-reports?domain=example.com&from=2024-01-02")
+    ).json<{ reports: Array<{ reportId: string }> }>();
+
+    expect(response.status).toBe(201);
+    expect(reports.map((r) => r.reportId)).toContain("https-tls-1");
+  });
+
+  it("accepts plain JSON submissions", async () => {
+    const response = await submit(
+      JSON.stringify({ ...report, "report-id": "https-tls-2" }),
+      "application/tlsrpt+json; charset=utf-8",
+    );
+
+    expect(response.status).toBe(201);
+  });
+
+  it("rejects other media types and malformed bodies", async () => {
+    expect((await submit(JSON.stringify(report), "application/json")).status).toBe(415);
+    expect((await submit("{}", "application/tlsrpt+json")).status).toBe(400);
+    expect((await submit("not gzip", "application/tlsrpt+gzip")).status).toBe(400);
+  });
+
+  it("applies rate limiting", async () => {
+    const limited: Env = { ...apiEnv, RATE_LIMIT: { limit: async () => ({ success: false }) } };
+
+    expect((await submit(JSON.stringify(report), "application/tlsrpt+json", limited)).status).toBe(
+      429,
+    );
+  });
+});
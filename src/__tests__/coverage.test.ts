@@ -0,0 +1,142 @@
+import { env } from "cloudflare:test";
+import { describe, it, expect, beforeAll, vi } from "vitest";
+
+import { runMissingReportChecks } from "../alerts";
+import { handleRequest } from "../api";
+import { parseDMARCReportFromString } from "../dmarc";
+import { storeReport } from "../storage";
+import type { DomainCoverage, Env } from "../types";
+
+import { applySchema } from "./schema";
+
+const API_TOKEN = "test-token";
+const ADMIN_TOKEN = "admin-token";
+const DAY = 86400;
+const START = 1704067200;
+
+const send = vi.fn(async () => ({ messageId: crypto.randomUUID() }));
+const coverageEnv: Env = {
+  ...env,
+  API_TOKEN,
+  ADMIN_TOKEN,
+  EMAIL: { send },
+  SENDER_EMAIL: "reports@dmarc.example",
+  SENDER_DOMAIN: "dmarc.example",
+};
+
+function dailyXml(orgName: string, reportId: string, day: number): string {
+  const begin = START + day * DAY;
+  return `<?xml version="1.0"?>
+<feedback>
+  <report_metadata>
+    <org_name>${orgName}</org_name>
+    <report_id>${reportId}</report_id>
+    <date_range><begin>${begin}</begin><end>${begin + DAY - 1}</end></date_range>
+  </report_metadata>
+  <policy_published><domain>example.com</domain><p>none</p></policy_published>
+  <record>
+    <row>
+      <source_ip>192.0.2.1</source_ip>
+      <count>10</count>
+      <policy_evaluated><disposition>none</disposition><dkim>pass</dkim><spf>pass</spf></policy_evaluated>
+    </row>
+    <identifiers><header_from>example.com</header_from></identifiers>
+    <auth_results><dkim><result>pass</result></dkim><spf><result>pass</result></spf></auth_results>
+  </record>
+</feedback>`;
+}
+
+async function request(
+  method: string,
+  path: string,
+  token: string,
+  body?: unknown,
+): Promise<Response> {
+  return handleRequest(
+    new Request(`https://dmarc.example${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }),
+    coverageEnv,
+  );
+}
+
+beforeAll(async () => {
+  await applySchema(env.DB);
+  const reports: Array<[string, string, number]> = [
+    ["google.com", "g0", 0],
+    ["google.com", "g1", 1],
+    // Day 2 never arrived
+    ["google.com", "g3", 3],
+    ["yahoo.com", "y0", 0],
+    ["yahoo.com", "y0-again", 0],
+  ];
+  for (const [orgName, reportId, day] of reports) {
+    await storeReport(
+      parseDMARCReportFromString(dailyXml(orgName, reportId, day)),
+      "dmarc",
+      coverageEnv,
+    );
+  }
+});
+
+describe("GET /domains/:domain/coverage", () => {
+  it("lists each reporter's cadence, gaps, duplicates and silence", async () => {
+    const response = await request(
+      "GET",
+      `/domains/example.com/coverage?to=${START + 4 * DAY}`,
+      API_TOKEN,
+    );
+    expect(response.status).toBe(200);
+    const { reporters } = await response.json<DomainCoverage>();
+
+    expect(reporters.map((reporter) => [reporter.orgName, reporter.overdue])).toEqual([
+      ["google.com", false],
+      ["yahoo.com", true],
+    ]);
+    expect(reporters[0]?.issues).toEqual([
+      { kind: "gap", from: START + 2 * DAY - 1, to: START + 3 * DAY, reportIds: ["g1", "g3"] },
+    ]);
+    expect(reporters[1]).toMatchObject({
+      cadenceSeconds: DAY,
+      silentSeconds: 3 * DAY + 1,
+      issues: [{ kind: "duplicate", reportIds: ["y0", "y0-again"] }],
+    });
+  });
+
+  it("rejects an invalid grace", async () => {
+    const response = await request(
+      "GET",
+      "/domains/example.com/coverage?grace_hours=soon",
+      API_TOKEN,
+    );
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("runMissingReportChecks", () => {
+  it("alerts once per silent reporter until the cooldown passes", async () => {
+    const put = await request("PUT", "/admin/alert-rules/example.com", ADMIN_TOKEN, {
+      missingReportGraceHours: 24,
+      emailRecipients: ["oncall@example.com"],
+    });
+    expect(put.status).toBe(200);
+
+    const now = new Date((START + 4 * DAY) * 1000);
+    const alerts = await runMissingReportChecks(coverageEnv, now);
+
+    expect(alerts).toEqual([
+      expect.objectContaining({
+        kind: "missing_report",
+        dedupKey: "missing_report:yahoo.com",
+        message:
+          "yahoo.com has not reported for example.com in 3 days (it usually covers 24 hours per report)",
+        reportId: "y0",
+        channels: ["email"],
+      }),
+    ]);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(await runMissingReportChecks(coverageEnv, now)).toEqual([]);
+  });
+});
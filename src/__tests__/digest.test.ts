@@ -0,0 +1,179 @@
+import { env } from "cloudflare:test";
+import { describe, it, expect, beforeAll, vi } from "vitest";
+
+import { handleRequest } from "../api";
+import { buildDigest, runDigests } from "../digest";
+import { parseDMARCReportFromString } from "../dmarc";
+import { storeReport } from "../storage";
+import type { DigestSubscription, Env } from "../types";
+
+import { applySchema } from "./schema";
+
+const ADMIN_TOKEN = "admin-token";
+const WEEK = 7 * 86400;
+// Monday 2024-01-08: the digest covers 2024-01-01 to 2024-01-07
+const NOW = new Date("2024-01-08T07:00:00Z");
+const PERIOD = { from: 1704067200, to: 1704672000 };
+
+function dmarcXml(reportId: string, orgName: string, begin: number, failing: number): string {
+  return `<?xml version="1.0"?>
+<feedback>
+  <report_metadata>
+    <org_name>${orgName}</org_name>
+    <report_id>${reportId}</report_id>
+    <date_range><begin>${begin}</begin><end>${begin + 86399}</end></date_range>
+  </report_metadata>
+  <policy_published><domain>example.com</domain><p>none</p></policy_published>
+  <record>
+    <row>
+      <source_ip>192.0.2.1</source_ip>
+      <count>90</count>
+      <policy_evaluated><disposition>none</disposition><dkim>pass</dkim><spf>pass</spf></policy_evaluated>
+    </row>
+    <identifiers><header_from>example.com</header_from></identifiers>
+    <auth_results><dkim><result>pass</result></dkim><spf><result>pass</result></spf></auth_results>
+  </record>
+  <record>
+    <row>
+      <source_ip>203.0.113.5</source_ip>
+      <count>${failing}</count>
+      <policy_evaluated><disposition>none</disposition><dkim>fail</dkim><spf>fail</spf></policy_evaluated>
+    </row>
+    <identifiers><header_from>example.com</header_from></identifiers>
+    <auth_results><dkim><result>fail</result></dkim><spf><result>fail</result></spf></auth_results>
+  </record>
+</feedback>`;
+}
+
+async function admin(method: string, path: string, body?: unknown): Promise<Response> {
+  return handleRequest(
+    new Request(`https://dmarc.example${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }),
+    { ...env, ADMIN_TOKEN },
+  );
+}
+
+beforeAll(async () => {
+  await applySchema(env.DB);
+  const reports = [
+    dmarcXml("digest-prev", "google.com", PERIOD.from - WEEK, 10),
+    dmarcXml("digest-1", "google.com", PERIOD.from, 10),
+    dmarcXml("digest-2", "yahoo.com", PERIOD.from + 86400, 30),
+  ];
+  for (const xml of reports) {
+    await storeReport(parseDMARCReportFromString(xml), "dmarc", env);
+  }
+});
+
+describe("buildDigest", () => {
+  it("aggregates the period and the one before it", async () => {
+    const data = await buildDigest("example.com", "weekly", PERIOD, env);
+
+    expect(data.current).toMatchObject({ reports: 2, messageCount: 220, dmarcPass: 180 });
+    expect(data.previous).toMatchObject({ reports: 1, messageCount: 100, dmarcPass: 90 });
+    expect(data.topFailingSources).toEqual([
+      { sourceIp: "203.0.113.5", domain: "example.com", messageCount: 40, reporters: 2 },
+    ]);
+    expect(data.newReporters).toEqual(["yahoo.com"]);
+    // The fixture's auth results name no domains, so nothing aligns
+    expect(data.readiness).toMatchObject({ nextStep: "p=quarantine", ready: false, reporters: 2 });
+  });
+});
+
+describe("/admin/digests", () => {
+  it("validates subscriptions", async () => {
+    expect((await admin("PUT", "/admin/digests/example.com", { recipients: [] })).status).toBe(400);
+    expect(
+      (await admin("PUT", "/admin/digests/example.com", { recipients: ["not an address"] })).status,
+    ).toBe(400);
+    expect(
+      (
+        await admin("PUT", "/admin/digests/example.com", {
+          recipients: ["ops@example.com"],
+          cadence: "hourly",
+        })
+      ).status,
+    ).toBe(400);
+    expect((await admin("DELETE", "/admin/digests/nobody.test")).status).toBe(404);
+  });
+});
+
+describe("runDigests", () => {
+  it("sends each due digest once per period", async () => {
+    const put = await admin("PUT", "/admin/digests/Example.com", {
+      recipients: ["Ops@example.com", "security@example.com"],
+      cadence: "weekly",
+    });
+    expect(put.status).toBe(200);
+
+    const send = vi.fn(async () => ({ messageId: crypto.randomUUID() }));
+    const digestEnv: Env = {
+      ...env,
+      EMAIL: { send },
+      SENDER_EMAIL: "reports@dmarc.example",
+      SENDER_DOMAIN: "dmarc.example",
+    };
+
+    await runDigests(digestEnv, NOW);
+    await runDigests(digestEnv, new Date(NOW.getTime() + 3600 * 1000));
+
+    expect(send).toHaveBeenCalledTimes(2);
+    const { digests } = await (
+      await admin("GET", "/admin/digests")
+    ).json<{ digests: DigestSubscription[] }>();
+    expect(digests).toEqual([
+      expect.objectContaining({
+        domain: "example.com",
+        recipients: ["ops@example.com", "security@example.com"],
+        lastPeriodEnd: PERIOD.to,
+      }),
+    ]);
+  });
+
+  it("marks a period sent once any recipient got it, and retries when nobody did", async () => {
+    await admin("PUT", "/admin/digests/example.com", {
+      recipients: ["ops@example.com", "security@example.com"],
+      cadence: "weekly",
+    });
+    const digestEnv = (send: SendEmail["send"]): Env => ({
+      ...env,
+      EMAIL: { send },
+      SENDER_EMAIL: "reports@dmarc.example",
+      SENDER_DOMAIN: "dmarc.example",
+    });
+    const lastPeriodEnd = async (): Promise<number | null | undefined> => {
+      const { digests } = await (
+        await admin("GET", "/admin/digests")
+      ).json<{ digests: DigestSubscription[] }>();
+      return digests[0]?.lastPeriodEnd;
+    };
+
+    const down = vi.fn(async () => {
+      throw new Error("send_email unavailable");
+    });
+    await runDigests(digestEnv(down), NOW);
+    expect(down).toHaveBeenCalledTimes(2);
+    expect(await lastPeriodEnd()).toBeNull();
+
+    // The second recipient, security@example.com, fails
+    let sent = 0;
+    const partial = vi.fn(async () => {
+      sent++;
+      if (sent === 2) {
+        throw new Error("Mailbox unavailable");
+      }
+      return { messageId: crypto.randomUUID() };
+    });
+    await runDigests(digestEnv(partial), NOW);
+    await runDigests(digestEnv(partial), new Date(NOW.getTime() + 3600 * 1000));
+    expect(partial).toHaveBeenCalledTimes(2);
+    expect(await lastPeriodEnd()).toBe(PERIOD.to);
+  });
+
+  it("does nothing without the EMAIL binding", async () => {
+    await expect(runDigests({ ...env, EMAIL: undefined }, NOW)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,183 @@
+import { env } from "cloudflare:test";
+import { describe, it, expect, beforeAll } from "vitest";
+
+import { handleRequest } from "../api";
+import { listIngestLog, recordIngest } from "../ledger";
+import { processEmail } from "../pipeline";
+import type { Env, IngestResult, ManagedDomain } from "../types";
+
+import { applySchema } from "./schema";
+
+const ADMIN_TOKEN = "admin-token";
+const domainsEnv: Env = { ...env, API_TOKEN: "test-token", ADMIN_TOKEN };
+const FROM = "noreply-dmarc-support@google.com";
+
+function rawEmail(domain: string, reportId: string): string {
+  const xml = `<?xml version="1.0"?>
+<feedback>
+  <report_metadata>
+    <org_name>google.com</org_name>
+    <report_id>${reportId}</report_id>
+    <date_range><begin>1704067200</begin><end>1704153599</end></date_range>
+  </report_metadata>
+  <policy_published><domain>${domain}</domain><p>none</p></policy_published>
+  <record>
+    <row>
+      <source_ip>192.0.2.1</source_ip>
+      <count>3</count>
+      <policy_evaluated><disposition>none</disposition><dkim>pass</dkim><spf>pass</spf></policy_evaluated>
+    </row>
+    <identifiers><header_from>${domain}</header_from></identifiers>
+    <auth_results><dkim><result>pass</result></dkim><spf><result>pass</result></spf></auth_results>
+  </record>
+</feedback>`;
+
+  return [
+    `From: ${FROM}`,
+    "To: dmarc@reports.example",
+    `Subject: Report domain: ${domain} Report-ID: ${reportId}`,
+    "MIME-Version: 1.0",
+    'Content-Type: multipart/mixed; boundary="b"',
+    "",
+    "--b",
+    "Content-Type: text/xml",
+    `Content-Disposition: attachment; filename="${reportId}.xml"`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    btoa(xml),
+    "--b--",
+    "",
+  ].join("\r\n");
+}
+
+async function ingest(domain: string, reportId: string): Promise<IngestResult> {
+  return processEmail(
+    {
+      raw: await new Blob([rawEmail(domain, reportId)]).arrayBuffer(),
+      from: FROM,
+      to: "dmarc@reports.example",
+      headers: new Headers(),
+    },
+    domainsEnv,
+    { replay: true },
+  );
+}
+
+async function admin(method: string, path: string, body?: unknown): Promise<Response> {
+  return handleRequest(
+    new Request(`https://dmarc.example${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }),
+    domainsEnv,
+  );
+}
+
+async function storedReportIds(): Promise<string[]> {
+  const { results } = await env.DB.prepare(
+    "SELECT report_id FROM dmarc_reports ORDER BY report_id",
+  ).all<{ report_id: string }>();
+  return results.map((row) => row.report_id);
+}
+
+beforeAll(async () => {
+  await applySchema(env.DB);
+});
+
+describe("with an empty registry", () => {
+  it("stores reports for any domain", async () => {
+    expect((await ingest("anything.test", "open-1")).outcome).toBe("stored");
+  });
+});
+
+describe("with managed domains", () => {
+  beforeAll(async () => {
+    await admin("POST", "/admin/managed-domains", { domain: "Example.com" });
+    await admin("POST", "/admin/managed-domains", { domain: "*.corp.example", note: "units" });
+  });
+
+  it("lists and validates entries through the admin API", async () => {
+    const { domains } = await (
+      await admin("GET", "/admin/managed-domains")
+    ).json<{
+      domains: ManagedDomain[];
+    }>();
+
+    expect(domains.map((entry) => [entry.domain, entry.note])).toEqual([
+      ["*.corp.example", "units"],
+      ["example.com", null],
+    ]);
+    expect((await admin("POST", "/admin/managed-domains", { domain: "*" })).status).toBe(400);
+    expect((await admin("POST", "/admin/managed-domains", { domain: "a.*.test" })).status).toBe(
+      400,
+    );
+  });
+
+  it("stores reports for managed domains and their wildcard subdomains", async () => {
+    expect((await ingest("example.com", "managed-1")).outcome).toBe("stored");
+    expect((await ingest("eu.corp.example", "managed-2")).outcome).toBe("stored");
+  });
+
+  it("logs reports for other domains as unsolicited without storing them", async () => {
+    const result = await ingest("corp.example", "unsolicited-1");
+
+    expect(result).toMatchObject({
+      outcome: "unsolicited",
+      reportIds: [],
+      unsolicitedDomains: ["corp.example"],
+    });
+    expect(await storedReportIds()).toEqual([]);
+
+    await recordIngest(
+      {
+        r2Key: "raw-emails/google.com/2024-01-02T10-00-00-000Z.eml",
+        from: FROM,
+        to: "dmarc@reports.example",
+        messageId: null,
+        receivedAt: new Date("2024-01-02T10:00:00Z"),
+      },
+      result,
+      domainsEnv,
+    );
+    const [entry] = await listIngestLog({ outcome: "unsolicited", limit: 10, offset: 0 }, env);
+    expect(entry?.unsolicitedDomains).toEqual(["corp.example"]);
+  });
+
+  it("rejects HTTPS TLS-RPT submissions for unmanaged domains", async () => {
+    const submit = async (domain: string, reportId: string): Promise<number> => {
+      const report = {
+        "organization-name": "Example Mail",
+        "date-range": {
+          "start-datetime": "2024-01-02T00:00:00Z",
+          "end-datetime": "2024-01-02T23:59:59Z",
+        },
+        "report-id": reportId,
+        "policies": [
+          {
+            policy: { "policy-type": "sts", "policy-domain": domain },
+            summary: { "total-successful-session-count": 5, "total-failure-session-count": 0 },
+          },
+        ],
+      };
+      const response = await handleRequest(
+        new Request("https://dmarc.example/tlsrpt", {
+          method: "POST",
+          headers: { "Content-Type": "application/tlsrpt+json" },
+          body: JSON.stringify(report),
+        }),
+        domainsEnv,
+      );
+      return response.status;
+    };
+
+    expect(await submit("example.com", "https-managed")).toBe(201);
+    expect(await submit("other.test", "https-unsolicited")).toBe(403);
+  });
+
+  it("stops accepting a domain once its entry is removed", async () => {
+    expect((await admin("DELETE", "/admin/managed-domains/*.corp.example")).status).toBe(204);
+    expect((await admin("DELETE", "/admin/managed-domains/*.corp.example")).status).toBe(404);
+    expect((await ingest("eu.corp.example", "managed-3")).outcome).toBe("unsolicited");
+  });
+});
@@ -0,0 +1,137 @@
+import { env } from "cloudflare:test";
+import { describe, it, expect, beforeAll } from "vitest";
+
+import { handleRequest } from "../api";
+import { processEmail } from "../pipeline";
+import type { Env, FailureReportSummary, IngestResult } from "../types";
+
+import { applySchema } from "./schema";
+
+const API_TOKEN = "test-token";
+const apiEnv: Env = { ...env, API_TOKEN };
+
+// A DMARC ruf email: human-readable part, RFC 6591 feedback report, original headers
+function rawEmail(sourceIp: string, arrival: string): string {
+  return [
+    "From: dmarc-failures@google.com",
+    "To: ruf@example.com",
+    "Subject: Authentication failure report",
+    "MIME-Version: 1.0",
+    'Content-Type: multipart/report; report-type=feedback-report; boundary="b"',
+    "",
+    "--b",
+    "Content-Type: text/plain",
+    "",
+    "This is an authentication failure report for an email message received from IP",
+    `${sourceIp}.`,
+    "--b",
+    "Content-Type: message/feedback-report",
+    "",
+    "Feedback-Type: auth-failure",
+    "User-Agent: google.com/1.0",
+    "Version: 1",
+    "Auth-Failure: dmarc",
+    `Source-IP: ${sourceIp}`,
+    "Reported-Domain: example.com",
+    "Original-Mail-From: <billing@spoof.test>",
+    "Original-Rcpt-To: <alice@example.org>",
+    `Arrival-Date: ${arrival}`,
+    "Delivery-Result: reject",
+    "DKIM-Domain: spoof.test",
+    "",
+    "--b",
+    "Content-Type: text/rfc822-headers",
+    "",
+    "From: Billing <billing@example.com>",
+    "To: alice@example.org",
+    "Subject: Your invoice",
+    "",
+    "--b--",
+    "",
+  ].join("\r\n");
+}
+
+async function ingest(raw: string, ingestEnv: Env): Promise<IngestResult> {
+  return processEmail(
+    {
+      raw: await new Blob([raw]).arrayBuffer(),
+      from: "dmarc-failures@google.com",
+      to: "ruf@example.com",
+      headers: new Headers(),
+    },
+    ingestEnv,
+    { replay: true },
+  );
+}
+
+async function list(query: string): Promise<FailureReportSummary[]> {
+  const response = await handleRequest(
+    new Request(`https://dmarc.example/failure-reports${query}`, {
+      headers: { Authorization: `Bearer ${API_TOKEN}` },
+    }),
+    apiEnv,
+  );
+  expect(response.status).toBe(200);
+  return (await response.json<{ reports: FailureReportSummary[] }>()).reports;
+}
+
+let results: IngestResult[] = [];
+
+beforeAll(async () => {
+  await applySchema(env.DB);
+  results = [
+    await ingest(rawEmail("198.51.100.7", "Mon, 01 Jan 2024 10:00:00 +0000"), env),
+    await ingest(rawEmail("203.0.113.9", "Tue, 02 Jan 2024 10:00:00 +0000"), {
+      ...env,
+      REDACT_FAILURE_REPORTS: "true",
+    }),
+  ];
+});
+
+describe("failure report ingestion", () => {
+  it("stores emails that only carry a failure report", () => {
+    expect(results.map((result) => result.outcome)).toEqual(["stored", "stored"]);
+  });
+
+  it("keeps the feedback report fields and original headers", async () => {
+    const [report] = await list("?source_ip=198.51.100.7");
+
+    expect(report).toMatchObject({
+      reporter: "google.com",
+      feedbackType: "auth-failure",
+      authFailure: "dmarc",
+      reportedDomain: "example.com",
+      originalMailFrom: "billing@spoof.test",
+      originalRcptTo: ["alice@example.org"],
+      arrivalDate: 1704103200,
+      dkimDomain: "spoof.test",
+      redacted: false,
+    });
+    expect(report?.originalHeaders).toContain("Subject: Your invoice");
+  });
+
+  it("redacts recipients and subjects when configured", async () => {
+    const [report] = await list("?source_ip=203.0.113.9");
+
+    expect(report?.redacted).toBe(true);
+    expect(report?.originalRcptTo).toEqual(["redacted@example.org"]);
+    expect(report?.originalHeaders).toContain("To: redacted@example.org");
+    expect(report?.originalHeaders).toContain("Subject: [redacted]");
+  });
+
+  it("stores a resent report once", async () => {
+    await ingest(rawEmail("198.51.100.7", "Mon, 01 Jan 2024 10:00:00 +0000"), env);
+
+    expect(await list("?source_ip=198.51.100.7")).toHaveLength(1);
+  });
+});
+
+describe("GET /failure-reports", () => {
+  it("filters by domain, auth failure and arrival date", async () => {
+    expect(await list("?domain=Example.com")).toHaveLength(2);
+    expect(await list("?auth_failure=spf")).toEqual([]);
+
+    const reports = await list("?from=1704153600");
+    expect(reports.map((report) => report.sourceIp)).toEqual(["203.0.113.9"]);
+  });
+});
@@ -0,0 +1,158 @@
+import { env } from "cloudflare:test";
+import { describe, it, expect, beforeAll } from "vitest";
+
+import { handleRequest } from "../api";
+import worker from "../index";
+import { listIngestLog, recordIngest } from "../ledger";
+import type { Env, IngestLogEntry } from "../types";
+
+import { applySchema } from "./schema";
+
+const API_TOKEN = "test-token";
+const apiEnv: Env = { ...env, API_TOKEN };
+
+async function get(path: string): Promise<Response> {
+  return handleRequest(
+    new Request(`https://dmarc.example${path}`, {
+      headers: { Authorization: `Bearer ${API_TOKEN}` },
+    }),
+    apiEnv,
+  );
+}
+
+async function entries(path: string): Promise<IngestLogEntry[]> {
+  return (await (await get(path)).json<{ entries: IngestLogEntry[] }>()).entries;
+}
+
+beforeAll(async () => {
+  await applySchema(env.DB);
+  await recordIngest(
+    {
+      r2Key: "raw-emails/google.com/2024-01-01T10-00-00-000Z.eml",
+      from: "noreply-dmarc-support@google.com",
+      to: "dmarc@example.com",
+      messageId: "<1@google.com>",
+      receivedAt: new Date("2024-01-01T10:00:00Z"),
+    },
+    {
+      outcome: "stored",
+      quarantined: false,
+      attachmentCount: 1,
+      reportIds: ["g-1"],
+      unsolicitedDomains: [],
+    },
+    env,
+  );
+  await recordIngest(
+    {
+      r2Key: "raw-emails/mail.google.com/2024-01-02T10-00-00-000Z.eml",
+      from: "dmarc@mail.google.com",
+      to: "dmarc@example.com",
+      messageId: null,
+      receivedAt: new Date("2024-01-02T10:00:00Z"),
+    },
+    {
+      outcome: "parse_error",
+      quarantined: false,
+      attachmentCount: 1,
+      reportIds: [],
+      unsolicitedDomains: [],
+      error: "Invalid DMARC XML",
+    },
+    env,
+  );
+  await recordIngest(
+    {
+      r2Key: "raw-emails/spam.test/2024-01-02T11-00-00-000Z.eml",
+      from: "x@spam.test",
+      to: "dmarc@example.com",
+      messageId: "<2@spam.test>",
+      receivedAt: new Date("2024-01-02T11:00:00Z"),
+    },
+    {
+      outcome: "untrusted_reporter",
+      quarantined: false,
+      attachmentCount: 0,
+      reportIds: [],
+      unsolicitedDomains: [],
+    },
+    env,
+  );
+});
+
+describe("GET /ingest-log", () => {
+  it("lists ledger entries newest first", async () => {
+    const all = await entries("/ingest-log");
+
+    expect(all.map((entry) => entry.outcome)).toEqual([
+      "untrusted_reporter",
+      "parse_error",
+      "stored",
+    ]);
+    expect(all[2]).toMatchObject({
+      sender: "noreply-dmarc-support@google.com",
+      senderDomain: "google.com",
+      messageId: "<1@google.com>",
+      attachmentCount: 1,
+      reportIds: ["g-1"],
+      quarantined: false,
+      receivedAt: 1704103200,
+    });
+  });
+
+  it("answers whether a reporter's email arrived in a window and why it failed", async () => {
+    const google = await entries("/ingest-log?sender=google.com&from=2024-01-02&to=2024-01-03");
+
+    expect(google).toHaveLength(1);
+    expect(google[0]).toMatchObject({ outcome: "parse_error", error: "Invalid DMARC XML" });
+  });
+
+  it("filters by outcome and report ID", async () => {
+    expect((await entries("/ingest-log?outcome=untrusted_reporter"))[0]?.senderDomain).toBe(
+      "spam.test",
+    );
+    expect((await entries("/ingest-log?report_id=g-1")).map((entry) => entry.id)).toHaveLength(1);
+  });
+
+  it("rejects unknown outcomes", async () => {
+    expect((await get("/ingest-log?outcome=lost")).status).toBe(400);
+  });
+});
+
+describe("email handler", () => {
+  it("records an email whose processing threw", async () => {
+    const failingEnv: Env = {
+      ...env,
+      RATE_LIMIT: {
+        limit: async () => {
+          throw new Error("Rate limiter unavailable");
+        },
+      },
+    };
+    const raw = new TextEncoder().encode("Subject: report\r\n\r\n");
+    const message: ForwardableEmailMessage = {
+      from: "noreply-dmarc-support@google.com",
+      to: "dmarc@example.com",
+      headers: new Headers({ "Message-ID": "<3@google.com>" }),
+      raw: new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(raw);
+          controller.close();
+        },
+      }),
+      rawSize: raw.byteLength,
+      setReject: () => {},
+      forward: async () => ({ messageId: "" }),
+      reply: async () => ({ messageId: "" }),
+    };
+
+    await expect(worker.email(message, failingEnv)).rejects.toThrow("Rate limiter unavailable");
+
+    const [entry] = await listIngestLog({ limit: 1, offset: 0 }, env);
+    expect(entry).toMatchObject({
+      messageId: "<3@google.com>",
+      outcome: "parse_error",
+      error: "Rate limiter unavailable",
+    });
+  });
+});
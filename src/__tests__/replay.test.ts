@@ -0,0 +1,202 @@
+import { env } from "cloudflare:test";
+import { describe, it, expect, beforeAll, vi } from "vitest";
+
+import { handleRequest } from "../api";
+import { archiveKey, replayBatch, replayKey, runReplayJobs } from "../replay";
+import type { DMARCReportSummary, Env, ReplayItem, ReplayJob } from "../types";
+
+import { applySchema } from "./schema";
+
+const ADMIN_TOKEN = "admin-token";
+const API_TOKEN = "test-token";
+const replayEnv: Env = { ...env, ADMIN_TOKEN, API_TOKEN };
+
+function rawEmail(reportId: string): string {
+  const xml = `<?xml version="1.0"?>
+<feedback>
+  <report_metadata>
+    <org_name>google.com</org_name>
+    <report_id>${reportId}</report_id>
+    <date_range><begin>1704067200</begin><end>1704153599</end></date_range>
+  </report_metadata>
+  <policy_published><domain>example.com</domain><p>none</p></policy_published>
+  <record>
+    <row>
+      <source_ip>192.0.2.1</source_ip>
+      <count>3</count>
+      <policy_evaluated><disposition>none</disposition><dkim>pass</dkim><spf>pass</spf></policy_evaluated>
+    </row>
+    <identifiers><header_from>example.com</header_from></identifiers>
+    <auth_results><dkim><result>pass</result></dkim><spf><result>pass</result></spf></auth_results>
+  </record>
+</feedback>`;
+
+  return [
+    "From: noreply-dmarc-support@google.com",
+    "To: dmarc@example.com",
+    `Subject: Report domain: example.com Report-ID: ${reportId}`,
+    "MIME-Version: 1.0",
+    'Content-Type: multipart/mixed; boundary="b"',
+    "",
+    "--b",
+    "Content-Type: text/plain",
+    "",
+    "DMARC aggregate report",
+    "--b",
+    "Content-Type: text/xml",
+    `Content-Disposition: attachment; filename="${reportId}.xml"`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    btoa(xml),
+    "--b--",
+    "",
+  ].join("\r\n");
+}
+
+async function archive(reportId: string, receivedAt: Date): Promise<string> {
+  const key = archiveKey("noreply-dmarc-support@google.com", receivedAt);
+  await env.R2_BUCKET.put(key, rawEmail(reportId), {
+    customMetadata: { from: "noreply-dmarc-support@google.com", to: "dmarc@example.com" },
+  });
+  return key;
+}
+
+async function admin(method: string, path: string, body?: unknown): Promise<Response> {
+  return handleRequest(
+    new Request(`https://dmarc.example${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }),
+    replayEnv,
+  );
+}
+
+async function storedReportIds(): Promise<string[]> {
+  const { results } = await env.DB.prepare(
+    "SELECT report_id FROM dmarc_reports ORDER BY report_id",
+  ).all<{ report_id: string }>();
+  return results.map((row) => row.report_id);
+}
+
+let keys: string[] = [];
+
+beforeAll(async () => {
+  await applySchema(env.DB);
+  keys = [
+    await archive("replay-1", new Date("2024-01-01T10:00:00Z")),
+    await archive("replay-2", new Date("2024-01-02T10:00:00Z")),
+    await archive("replay-3", new Date("2024-01-03T10:00:00Z")),
+  ];
+});
+
+describe("archiveKey", () => {
+  it("groups raw emails by sender domain", () => {
+    expect(archiveKey("a@Google.com", new Date("2024-01-01T10:00:00.123Z"))).toBe(
+      "raw-emails/google.com/2024-01-01T10-00-00-123Z.eml",
+    );
+  });
+});
+
+describe("replayKey", () => {
+  it("runs an archived email through the pipeline", async () => {
+    const item = await replayKey(keys[0] ?? "", env);
+
+    expect(item).toEqual({ key: keys[0], outcome: "stored", reportIds: ["replay-1"] });
+    expect(await storedReportIds()).toEqual(["replay-1"]);
+  });
+
+  it("returns null for keys that are not archived", async () => {
+    expect(await replayKey("raw-emails/google.com/missing.eml", env)).toBeNull();
+  });
+});
+
+describe("POST /admin/replay", () => {
+  it("replays a prefix in batches with a cursor", async () => {
+    const first = await (
+      await admin("POST", "/admin/replay", { prefix: "raw-emails/google.com/", limit: 2 })
+    ).json<{ items: ReplayItem[]; cursor?: string }>();
+    expect(first.items.map((item) => item.reportIds)).toEqual([["replay-1"], ["replay-2"]]);
+    expect(first.cursor).toBe(keys[1]);
+
+    const second = await (
+      await admin("POST", "/admin/replay", { limit: 2, cursor: first.cursor })
+    ).json<{ items: ReplayItem[]; cursor?: string }>();
+    expect(second.items.map((item) => item.reportIds)).toEqual([["replay-3"]]);
+    expect(second.cursor).toBeUndefined();
+  });
+
+  it("rejects keys outside the raw email archive", async () => {
+    expect((await admin("POST", "/admin/replay", { key: "other/file.eml" })).status).toBe(400);
+    expect((await admin("POST", "/admin/replay", { key: "raw-emails/x.eml" })).status).toBe(404);
+  });
+
+  it("schedules a background job for a date range", async () => {
+    const created = await admin("POST", "/admin/replay", {
+      from: "2024-01-02",
+      to: "2024-01-02T23:59:59Z",
+      background: true,
+    });
+    const { job } = await created.json<{ job: ReplayJob }>();
+    expect(created.status).toBe(202);
+    expect(job.status).toBe("pending");
+
+    await runReplayJobs(env);
+
+    const status = await (await admin("GET", `/admin/replay/${job.id}`)).json<{ job: ReplayJob }>();
+    expect(status.job).toMatchObject({ status: "done", processed: 1, stored: 1, failed: 0 });
+    expect(await storedReportIds()).toEqual(["replay-2"]);
+  });
+});
+
+describe("replayBatch", () => {
+  it("jumps over archived keys outside the date range", async () => {
+    const list = vi.spyOn(env.R2_BUCKET, "list");
+    const { items } = await replayBatch(
+      {
+        from: Date.parse("2024-01-02T00:00:00Z") / 1000,
+        to: Date.parse("2024-01-02T23:59:59Z") / 1000,
+      },
+      10,
+      undefined,
+      env,
+    );
+    const listedAfter = list.mock.calls.map(([options]) => options?.startAfter);
+    list.mockRestore();
+
+    expect(items.map((item) => item.reportIds)).toEqual([["replay-2"]]);
+    expect(listedAfter).toEqual([
+      undefined,
+      "raw-emails/google.com/2024-01-01T23-59-59-999Z.eml",
+      "raw-emails/google.com/~",
+    ]);
+  });
+});
+
+describe("replaying quarantined reports", () => {
+  it("releases them once their reporter is trusted", async () => {
+    const quarantineEnv: Env = {
+      ...replayEnv,
+      TRUSTED_REPORTERS: "yahoo.com",
+      QUARANTINE_UNKNOWN_REPORTERS: "true",
+    };
+    const visible = async (): Promise<string[]> => {
+      const response = await handleRequest(
+        new Request("https://dmarc.example/reports", {
+          headers: { Authorization: `Bearer ${API_TOKEN}` },
+        }),
+        quarantineEnv,
+      );
+      const { reports } = await response.json<{ reports: DMARCReportSummary[] }>();
+      return reports.map((report) => report.reportId);
+    };
+
+    expect((await replayKey(keys[0] ?? "", quarantineEnv))?.outcome).toBe("stored");
+    expect(await visible()).toEqual([]);
+
+    await admin("POST", "/admin/trusted-reporters", { domain: "google.com" });
+    await replayKey(keys[0] ?? "", quarantineEnv);
+
+    expect(await visible()).toEqual(["replay-1"]);
+  });
+});
@@ -0,0 +1,11 @@
+import schema from "../../schema.sql?raw";
+
+// Applies schema.sql so tests run against the same tables as production
+export async function applySchema(db: D1Database): Promise<void> {
+  const statements = schema
+    .split(";")
+    .map((statement) => statement.trim())
+    .filter((statement) => statement.replace(/--.*$/gm, "").trim() !== "");
+
+  await db.batch(statements.map((statement) => db.prepare(statement)));
+}
@@ -0,0 +1,243 @@
+import { env } from "cloudflare:test";
+import { describe, it, expect, beforeAll, vi } from "vitest";
+
+import { handleRequest } from "../api";
+import { parseDMARCReportFromString } from "../dmarc";
+import { resolveSourceHostnames } from "../senders";
+import { storeReport } from "../storage";
+import type { Env, NewSender, SenderInventory, SendingServiceOverride } from "../types";
+
+import { applySchema } from "./schema";
+
+const API_TOKEN = "test-token";
+const ADMIN_TOKEN = "admin-token";
+const apiEnv: Env = { ...env, API_TOKEN, ADMIN_TOKEN };
+
+function record(sourceIp: string, count: number, dkimDomain: string, result: string): string {
+  return `
+  <record>
+    <row>
+      <source_ip>${sourceIp}</source_ip>
+      <count>${count}</count>
+      <policy_evaluated><disposition>none</disposition><dkim>${result}</dkim><spf>fail</spf></policy_evaluated>
+    </row>
+    <identifiers><header_from>example.com</header_from></identifiers>
+    <auth_results><dkim><domain>${dkimDomain}</domain><result>${result}</result></dkim></auth_results>
+  </record>`;
+}
+
+function reportXml(reportId: string, begin: number, records: string[]): string {
+  return `<?xml version="1.0"?>
+<feedback>
+  <report_metadata>
+    <org_name>google.com</org_name>
+    <report_id>${reportId}</report_id>
+    <date_range><begin>${begin}</begin><end>${begin + 86399}</end></date_range>
+  </report_metadata>
+  <policy_published><domain>example.com</domain><p>none</p></policy_published>
+  ${records.join("")}
+</feedback>`;
+}
+
+const XML = reportXml("senders-1", 1704067200, [
+  record("209.85.220.41", 500, "example.com", "pass"),
+  record("192.0.2.10", 200, "example.com", "pass"),
+  record("198.51.100.7", 40, "em1234.example.com", "pass"),
+  record("203.0.113.5", 30, "shadow-crm.test", "fail"),
+]);
+
+async function request(
+  method: string,
+  path: string,
+  token: string,
+  body?: unknown,
+): Promise<Response> {
+  return handleRequest(
+    new Request(`https://dmarc.example${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }),
+    apiEnv,
+  );
+}
+
+async function inventory(): Promise<SenderInventory> {
+  const response = await request(
+    "GET",
+    "/domains/example.com/senders?from=2024-01-01&to=2024-01-02",
+    API_TOKEN,
+  );
+  expect(response.status).toBe(200);
+  return response.json<SenderInventory>();
+}
+
+beforeAll(async () => {
+  await applySchema(env.DB);
+  await storeReport(parseDMARCReportFromString(XML), "dmarc", env);
+});
+
+describe("GET /domains/:domain/senders", () => {
+  it("rolls sources up into catalogue services and lists the rest as unclassified", async () => {
+    const { services, unclassified } = await inventory();
+
+    expect(services).toEqual([
+      { service: "Google Workspace", sources: 1, messageCount: 500, dmarcPass: 500, passRate: 1 },
+    ]);
+    expect(unclassified.map((source) => [source.sourceIp, source.dkimDomain])).toEqual([
+      ["192.0.2.10", "example.com"],
+      ["198.51.100.7", "em1234.example.com"],
+      ["203.0.113.5", "shadow-crm.test"],
+    ]);
+  });
+
+  it("applies overrides before the catalogue", async () => {
+    const added = await request("POST", "/admin/sending-services", ADMIN_TOKEN, {
+      service: "Our MTAs",
+      kind: "cidr",
+      pattern: "192.0.2.0/24",
+    });
+    expect(added.status).toBe(201);
+    await request("POST", "/admin/sending-services", ADMIN_TOKEN, {
+      service: "Newsletter ESP",
+      kind: "dkim_domain",
+      pattern: "EM1234.example.com",
+    });
+
+    const { services, unclassified } = await inventory();
+    expect(services.map((service) => [service.service, service.messageCount])).toEqual([
+      ["Google Workspace", 500],
+      ["Our MTAs", 200],
+      ["Newsletter ESP", 40],
+    ]);
+    expect(unclassified.map((source) => source.sourceIp)).toEqual(["203.0.113.5"]);
+
+    const listed = await request("GET", "/admin/sending-services", ADMIN_TOKEN);
+    const { overrides } = await listed.json<{ overrides: SendingServiceOverride[] }>();
+    expect(overrides.map((override) => override.pattern)).toEqual([
+      "em1234.example.com",
+      "192.0.2.0/24",
+    ]);
+
+    const removed = await request(
+      "DELETE",
+      `/admin/sending-services/${overrides[0]?.id}`,
+      ADMIN_TOKEN,
+    );
+    expect(removed.status).toBe(204);
+  });
+
+  it("validates overrides", async () => {
+    const invalid = [
+      { service: "", kind: "cidr", pattern: "192.0.2.0/24" },
+      { service: "MTA", kind: "ip", pattern: "192.0.2.0/24" },
+      { service: "MTA", kind: "cidr", pattern: "192.0.2.0/40" },
+      { service: "MTA", kind: "hostname", pattern: "not a host" },
+    ];
+    for (const body of invalid) {
+      expect((await request("POST", "/admin/sending-services", ADMIN_TOKEN, body)).status).toBe(
+        400,
+      );
+    }
+    expect((await request("DELETE", "/admin/sending-services/999", ADMIN_TOKEN)).status).toBe(404);
+  });
+});
+
+describe("GET /domains/:domain/senders/new", () => {
+  async function newSenders(query: string): Promise<NewSender[]> {
+    const response = await request("GET", `/domains/example.com/senders/new${query}`, API_TOKEN);
+    expect(response.status).toBe(200);
+    return (await response.json<{ senders: NewSender[] }>()).senders;
+  }
+
+  it("tracks first and last sighting and flags new sources failing DKIM and SPF", async () => {
+    const next = parseDMARCReportFromString(
+      reportXml("senders-2", 1704153600, [
+        record("209.85.220.41", 100, "example.com", "pass"),
+        record("198.18.0.9", 25, "lookalike.test", "fail"),
+      ]),
+    );
+    // Resent reports must not count twice
+    await storeReport(next, "dmarc", env);
+    await storeReport(next, "dmarc", env);
+
+    const week = await newSenders("?to=2024-01-03");
+    expect(week.map((sender) => sender.sourceIp)).toEqual([
+      "198.18.0.9",
+      "209.85.220.41",
+      "192.0.2.10",
+      "198.51.100.7",
+      "203.0.113.5",
+    ]);
+    expect(week[1]).toMatchObject({
+      service: "Google Workspace",
+      firstSeen: 1704067200,
+      lastSeen: 1704239999,
+      messageCount: 600,
+      reportCount: 2,
+      firstReportId: "senders-1",
+      suspectedSpoofing: false,
+    });
+    expect(week[0]).toMatchObject({
+      service: null,
+      dkimDomain: "lookalike.test",
+      passRate: 0,
+      firstOrgName: "google.com",
+      firstReportId: "senders-2",
+      suspectedSpoofing: true,
+    });
+
+    expect((await newSenders("?to=2024-01-03&days=1")).map((sender) => sender.sourceIp)).toEqual([
+      "198.18.0.9",
+    ]);
+    expect(
+      (await newSenders("?to=2024-01-03&suspected=1")).map((sender) => sender.sourceIp),
+    ).toEqual(["198.18.0.9", "203.0.113.5"]);
+  });
+});
+
+describe("resolveSourceHostnames", () => {
+  it("fills in PTR names and leaves failed lookups empty", async () => {
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = new URL(input instanceof Request ? input.url : String(input));
+      if (url.searchParams.get("name") === "41.220.85.209.in-addr.arpa") {
+        return Response.json({ Answer: [{ type: 12, data: "mail-sor-f41.google.com." }] });
+      }
+      return new Response("", { status: 503 });
+    });
+
+    const report = await resolveSourceHostnames(parseDMARCReportFromString(XML));
+    fetchMock.mockRestore();
+
+    expect(report.records.map((entry) => entry.sourceHostname)).toEqual([
+      "mail-sor-f41.google.com",
+      null,
+      null,
+      null,
+    ]);
+  });
+
+  it("shares answers and one lookup budget across an email's reports", async () => {
+    const fetchMock = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async () => Response.json({ Answer: [{ type: 12, data: "mx.test." }] }));
+    const hostnames = new Map<string, string | null>();
+
+    await resolveSourceHostnames(parseDMARCReportFromString(XML), hostnames);
+    const again = await resolveSourceHostnames(parseDMARCReportFromString(XML), hostnames);
+    const lookupsBefore = fetchMock.mock.calls.length;
+    const wide = reportXml(
+      "senders-wide",
+      1704067200,
+      Array.from({ length: 30 }, (_, i) => record(`198.18.0.${i + 1}`, 1, "example.com", "pass")),
+    );
+    const capped = await resolveSourceHostnames(parseDMARCReportFromString(wide), hostnames);
+    const lookups = fetchMock.mock.calls.length;
+    fetchMock.mockRestore();
+
+    expect(lookupsBefore).toBe(4);
+    expect(again.records.every((entry) => entry.sourceHostname === "mx.test")).toBe(true);
+    expect(lookups).toBe(25);
+    expect(capped.records.filter((entry) => entry.sourceHostname !== null)).toHaveLength(21);
+  });
+});
@@ -0,0 +1,4 @@
+declare module "*.sql?raw" {
+  const content: string;
+  export default content;
+}
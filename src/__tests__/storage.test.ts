@@ -1,46 +1,205 @@
 import { env } from "cloudflare:test";
-import { describe, it, expect, beforeAll } from "vitest";
+import { describe, it, expect, beforeAll, vi } from "vitest";
 
-import { storeTLSReport } from "../storage";
-import type { TLSReport } from "../types";
+import { storeReport, storeTLSReport } from "../storage";
+import type { DMARCReport, TLSPolicy, TLSReport } from "../types";
+
+import { applySchema } from "./schema";
 
 beforeAll(async () => {
-  await env.DB.batch([
-    env.DB.prepare(`
-      CREATE TABLE IF NOT EXISTS dmarc_reports (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        report_id TEXT UNIQUE NOT NULL,
-        org_name TEXT NOT NULL,
-        domain TEXT NOT NULL,
-        begin_date INTEGER NOT NULL,
-        end_date INTEGER NOT NULL,
-        dkim_pass INTEGER DEFAULT 0,
-        dkim_fail INTEGER DEFAULT 0,
-        dkim_temperror INTEGER DEFAULT 0,
-        spf_pass INTEGER DEFAULT 0,
-        spf_fail INTEGER DEFAULT 0,
-        spf_temperror INTEGER DEFAULT 0,
-        policy_p TEXT NOT NULL,
-        raw_xml TEXT,
-        created_at INTEGER DEFAULT (strftime('%s', 'now'))
-      )
-    `),
-    env.DB.prepare(`
-      CREATE TABLE IF NOT EXISTS tls_reports (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        report_id TEXT NOT NULL,
-        org_name TEXT NOT NULL,
-        policy_domain TEXT NOT NULL,
-        policy_type TEXT NOT NULL,
-        total_success INTEGER DEFAULT 0,
-        total_failures INTEGER DEFAULT 0,
-        failure_details TEXT,
-        begin_date INTEGER NOT NULL,
-        end_date INTEGER NOT NULL,
-        created_at INTEGER DEFAULT (strftime('%s', 'now'))
+  await applySchema(env.DB);
+});
+
+describe("storeReport", () => {
+  const report: DMARCReport = {
+    reportId: "dmarc-records-test",
+    orgName: "google.com",
+    domain: "example.com",
+    beginDate: 1704067200,
+    endDate: 1704153599,
+    messageCount: 14,
+    dmarcPass: 10,
+    dmarcFail: 4,
+    dkimPass: 10,
+    dkimFail: 4,
+    dkimTemperror: 0,
+    spfPass: 10,
+    spfFail: 4,
+    spfTemperror: 0,
+    dkimPassResults: 1,
+    dkimFailResults: 1,
+    dkimTemperrorResults: 0,
+    spfPassResults: 1,
+    spfFailResults: 1,
+    spfTemperrorResults: 0,
+    dkimAlignedPass: 10,
+    spfAlignedPass: 10,
+    dmarcAlignedPass: 10,
+    policyP: "reject",
+    policySp: null,
+    policyAdkim: null,
+    policyAspf: null,
+    policyPct: null,
+    policyFo: null,
+    policyNp: null,
+    policyTesting: null,
+    policyDiscoveryMethod: null,
+    schemaVersion: "rfc7489",
+    generator: null,
+    rawXml: "<feedback/>",
+    records: [
+      {
+        sourceIp: "192.0.2.1",
+        count: 10,
+        disposition: "none",
+        dkimEvaluated: "pass",
+        spfEvaluated: "pass",
+        reasons: [],
+        headerFrom: "example.com",
+        envelopeFrom: "example.com",
+        envelopeTo: "",
+        dkimAligned: true,
+        spfAligned: true,
+        dkimDomain: "example.com",
+        sourceHostname: "mail.example.com",
+      },
+      {
+        sourceIp: "198.51.100.9",
+        count: 4,
+        disposition: "reject",
+        dkimEvaluated: "fail",
+        spfEvaluated: "fail",
+        reasons: [{ type: "local_policy", comment: "" }],
+        headerFrom: "example.com",
+        envelopeFrom: "spoof.test",
+        envelopeTo: "example.net",
+        dkimAligned: false,
+        spfAligned: false,
+        dkimDomain: null,
+        sourceHostname: null,
+      },
+    ],
+  };
+
+  it("stores per-record rows keyed to the parent report", async () => {
+    await storeReport(report, "dmarc", env);
+
+    const parent = await env.DB.prepare("SELECT id FROM dmarc_reports WHERE report_id = ?")
+      .bind(report.reportId)
+      .first<{ id: number }>();
+
+    expect(parent).not.toBeNull();
+
+    if (parent === null) {
+      return;
+    }
+    const totals = await env.DB.prepare(
+      "SELECT message_count, dmarc_fail, dkim_fail_results FROM dmarc_reports WHERE id = ?",
+    )
+      .bind(parent.id)
+      .first();
+
+    expect(totals).toEqual({ message_count: 14, dmarc_fail: 4, dkim_fail_results: 1 });
+
+    const records = await env.DB.prepare(
+      "SELECT * FROM dmarc_records WHERE dmarc_report_id = ? ORDER BY source_ip",
+    )
+      .bind(parent.id)
+      .all();
+
+    expect(records.results).toHaveLength(2);
+    expect(records.results[0]["source_ip"]).toBe("192.0.2.1");
+    expect(records.results[0]["count"]).toBe(10);
+    expect(records.results[1]["disposition"]).toBe("reject");
+    expect(records.results[1]["envelope_from"]).toBe("spoof.test");
+    expect(records.results[0]["dkim_aligned"]).toBe(1);
+    expect(records.results[1]["spf_aligned"]).toBe(0);
+    expect(records.results[0]["dkim_domain"]).toBe("example.com");
+    expect(records.results[0]["source_hostname"]).toBe("mail.example.com");
+    expect(JSON.parse(String(records.results[1]["reasons"]))).toEqual([
+      { type: "local_policy", comment: "" },
+    ]);
+  });
+
+  it("does not duplicate records when a report is stored twice", async () => {
+    await storeReport(report, "dmarc", env);
+
+    const count = await env.DB.prepare(
+      `SELECT COUNT(*) AS n FROM dmarc_records r
+       JOIN dmarc_reports p ON p.id = r.dmarc_report_id
+       WHERE p.report_id = ?`,
+    )
+      .bind(report.reportId)
+      .first<{ n: number }>();
+
+    expect(count?.n).toBe(2);
+  });
+
+  it("adds the records of a report stored earlier without them", async () => {
+    await env.DB.prepare(
+      `INSERT INTO dmarc_reports (report_id, org_name, domain, begin_date, end_date, policy_p)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    )
+      .bind(
+        "dmarc-records-retry",
+        report.orgName,
+        report.domain,
+        report.beginDate,
+        report.endDate,
+        report.policyP,
       )
-    `),
-  ]);
+      .run();
+
+    await storeReport({ ...report, reportId: "dmarc-records-retry" }, "dmarc", env);
+
+    const count = await env.DB.prepare(
+      `SELECT COUNT(*) AS n FROM dmarc_records r
+       JOIN dmarc_reports p ON p.id = r.dmarc_report_id
+       WHERE p.report_id = ?`,
+    )
+      .bind("dmarc-records-retry")
+      .first<{ n: number }>();
+
+    expect(count?.n).toBe(2);
+  });
+
+  it("leaves quarantined reports out of the source history", async () => {
+    await storeReport({ ...report, reportId: "dmarc-sources-quarantined" }, "dmarc", env, {
+      quarantined: true,
+    });
+
+    const sources = await env.DB.prepare("SELECT source_ip FROM dmarc_sources WHERE domain = ?")
+      .bind(report.domain)
+      .all();
+
+    expect(sources.results).toEqual([]);
+  });
+
+  it("releases a quarantined report when a trusted copy is stored", async () => {
+    const quarantined = { ...report, reportId: "dmarc-released", domain: "released.example" };
+    await storeReport(quarantined, "dmarc", env, { quarantined: true });
+    await storeReport(quarantined, "dmarc", env);
+    await storeReport(quarantined, "dmarc", env, { quarantined: true });
+
+    const stored = await env.DB.prepare(
+      `SELECT p.quarantined, COUNT(r.id) AS records FROM dmarc_reports p
+       JOIN dmarc_records r ON r.dmarc_report_id = p.id
+       WHERE p.report_id = ? GROUP BY p.id`,
+    )
+      .bind("dmarc-released")
+      .first();
+    const sources = await env.DB.prepare(
+      "SELECT source_ip, report_count FROM dmarc_sources WHERE domain = ? ORDER BY source_ip",
+    )
+      .bind("released.example")
+      .all();
+
+    expect(stored).toEqual({ quarantined: 0, records: 2 });
+    expect(sources.results).toEqual([
+      { source_ip: "192.0.2.1", report_count: 1 },
+      { source_ip: "198.51.100.9", report_count: 1 },
+    ]);
+  });
 });
 
 describe("storeTLSReport", () => {
@@ -55,8 +214,11 @@ describe("storeTLSReport", () => {
       "report-id": "tls-store-test",
       "policies": [
         {
-          "policy-type": "sts",
-          "policy-domain": "example.com",
+          "policy": {
+            "policy-type": "sts",
+            "policy-domain": "example.com",
+            "mx-host": ["*.example.com"],
+          },
           "summary": {
             "total-successful-session-count": 50,
             "total-failure-session-count": 3,
@@ -66,7 +228,10 @@ describe("storeTLSReport", () => {
               "result-type": "certificate-expired",
               "sending-mta-ip": "10.0.0.1",
               "receiving-mx-hostname": "mx.example.com",
+              "receiving-mx-helo": "mx.example.com",
+              "receiving-ip": "192.0.2.25",
               "failed-session-count": 3,
+              "failure-reason-code": "X509_V_ERR_CERT_HAS_EXPIRED",
             },
           ],
         },
@@ -89,6 +254,25 @@ describe("storeTLSReport", () => {
     expect(result["policy_type"]).toBe("sts");
     expect(result["total_success"]).toBe(50);
     expect(result["total_failures"]).toBe(3);
+    expect(result["mx_host"]).toBe('["*.example.com"]');
+
+    const details = await env.DB.prepare(
+      "SELECT * FROM tls_failure_details WHERE tls_report_id = ?",
+    )
+      .bind(result["id"])
+      .all();
+
+    expect(details.results).toEqual([
+      expect.objectContaining({
+        result_type: "certificate-expired",
+        sending_mta_ip: "10.0.0.1",
+        receiving_mx_hostname: "mx.example.com",
+        receiving_ip: "192.0.2.25",
+        failed_session_count: 3,
+        additional_information: null,
+        failure_reason_code: "X509_V_ERR_CERT_HAS_EXPIRED",
+      }),
+    ]);
   });
 
   it("inserts multiple policies from one report", async () => {
@@ -102,17 +286,15 @@ describe("storeTLSReport", () => {
       "report-id": "tls-multi-policy",
       "policies": [
         {
-          "policy-type": "sts",
-          "policy-domain": "a.com",
-          "summary": {
+          policy: { "policy-type": "sts", "policy-domain": "a.com" },
+          summary: {
             "total-successful-session-count": 10,
             "total-failure-session-count": 0,
           },
         },
         {
-          "policy-type": "dane",
-          "policy-domain": "b.com",
-          "summary": {
+          policy: { "policy-type": "tlsa", "policy-domain": "b.com" },
+          summary: {
             "total-successful-session-count": 20,
             "total-failure-session-count": 1,
           },
@@ -131,7 +313,139 @@ describe("storeTLSReport", () => {
     expect(results.results).toHaveLength(2);
     expect(results.results[0]["policy_domain"]).toBe("a.com");
     expect(results.results[1]["policy_domain"]).toBe("b.com");
-    expect(results.results[1]["policy_type"]).toBe("dane");
+    expect(results.results[1]["policy_type"]).toBe("tlsa");
+  });
+
+  it("overwrites a resent report instead of duplicating its sessions", async () => {
+    const report: TLSReport = {
+      "organization-name": "retry.example",
+      "date-range": {
+        "start-datetime": "2024-02-02T00:00:00Z",
+        "end-datetime": "2024-02-02T23:59:59Z",
+      },
+      "contact-info": "mailto:tls@retry.example",
+      "report-id": "tls-resent",
+      "policies": [
+        {
+          "policy": { "policy-type": "sts", "policy-domain": "example.com" },
+          "summary": {
+            "total-successful-session-count": 10,
+            "total-failure-session-count": 2,
+          },
+          "failure-details": [{ "result-type": "certificate-expired", "failed-session-count": 2 }],
+        },
+      ],
+    };
+
+    await storeTLSReport(report, env, { quarantined: true });
+    await storeTLSReport(report, env);
+
+    const rows = await env.DB.prepare(
+      `SELECT r.total_failures, r.quarantined, COUNT(d.id) AS details
+       FROM tls_reports r LEFT JOIN tls_failure_details d ON d.tls_report_id = r.id
+       WHERE r.report_id = ? GROUP BY r.id`,
+    )
+      .bind("tls-resent")
+      .all();
+
+    expect(rows.results).toEqual([{ total_failures: 2, quarantined: 0, details: 1 }]);
+  });
+
+  it("merges policies listed twice for the same domain and type", async () => {
+    const policy = (success: number): TLSPolicy => ({
+      "policy": { "policy-type": "sts", "policy-domain": "example.com" },
+      "summary": {
+        "total-successful-session-count": success,
+        "total-failure-session-count": 1,
+      },
+      "failure-details": [{ "result-type": "certificate-expired", "failed-session-count": 1 }],
+    });
+    const report: TLSReport = {
+      "organization-name": "per-mx.example",
+      "date-range": {
+        "start-datetime": "2024-02-03T00:00:00Z",
+        "end-datetime": "2024-02-03T23:59:59Z",
+      },
+      "report-id": "tls-per-mx",
+      "policies": [policy(10), policy(20)],
+    };
+
+    await storeTLSReport(report, env);
+
+    const rows = await env.DB.prepare(
+      `SELECT r.total_success, r.total_failures, COUNT(d.id) AS details
+       FROM tls_reports r LEFT JOIN tls_failure_details d ON d.tls_report_id = r.id
+       WHERE r.report_id = ? GROUP BY r.id`,
+    )
+      .bind("tls-per-mx")
+      .all();
+
+    expect(rows.results).toEqual([{ total_success: 30, total_failures: 2, details: 2 }]);
+  });
+
+  it("keeps reports from different reporters that share a report ID", async () => {
+    const report: TLSReport = {
+      "organization-name": "first.example",
+      "date-range": {
+        "start-datetime": "2024-02-03T00:00:00Z",
+        "end-datetime": "2024-02-03T23:59:59Z",
+      },
+      "report-id": "2024-02-03",
+      "policies": [
+        {
+          policy: { "policy-type": "no-policy-found", "policy-domain": "example.com" },
+          summary: {
+            "total-successful-session-count": 1,
+            "total-failure-session-count": 0,
+          },
+        },
+      ],
+    };
+
+    await storeTLSReport(report, env);
+    await storeTLSReport({ ...report, "organization-name": "second.example" }, env);
+
+    const count = await env.DB.prepare("SELECT COUNT(*) AS n FROM tls_reports WHERE report_id = ?")
+      .bind("2024-02-03")
+      .first<{ n: number }>();
+
+    expect(count?.n).toBe(2);
+  });
+
+  it("writes an Analytics Engine data point per policy unless quarantined or replayed", async () => {
+    const writeDataPoint = vi.fn();
+    const analyticsEnv = { ...env, ANALYTICS: { writeDataPoint } };
+    const report: TLSReport = {
+      "organization-name": "google.com",
+      "date-range": {
+        "start-datetime": "2024-03-01T00:00:00Z",
+        "end-datetime": "2024-03-01T23:59:59Z",
+      },
+      "contact-info": "mailto:tls@google.com",
+      "report-id": "tls-analytics",
+      "policies": [
+        {
+          policy: { "policy-type": "sts", "policy-domain": "example.com" },
+          summary: {
+            "total-successful-session-count": 120,
+            "total-failure-session-count": 4,
+          },
+        },
+      ],
+    };
+
+    await storeTLSReport(report, analyticsEnv);
+    await storeTLSReport({ ...report, "report-id": "tls-analytics-q" }, analyticsEnv, {
+      quarantined: true,
+    });
+    await storeTLSReport(report, analyticsEnv, { replay: true });
+
+    expect(writeDataPoint).toHaveBeenCalledTimes(1);
+    expect(writeDataPoint).toHaveBeenCalledWith({
+      blobs: ["google.com", "example.com", "tls-analytics", "tlsrpt", "sts"],
+      doubles: [120, 4],
+      indexes: ["example.com"],
+    });
   });
 
   it("handles a report with no policies without error", async () => {
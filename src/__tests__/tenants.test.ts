@@ -0,0 +1,285 @@
+import { env } from "cloudflare:test";
+import { describe, it, expect, beforeAll } from "vitest";
+
+import { handleRequest } from "../api";
+import { processEmail } from "../pipeline";
+import { runRetention } from "../tenants";
+import type {
+  DMARCReportSummary,
+  DomainCoverage,
+  DomainSummary,
+  Env,
+  IngestResult,
+  PolicyChange,
+  Tenant,
+} from "../types";
+
+import { applySchema } from "./schema";
+
+const API_TOKEN = "test-token";
+const ADMIN_TOKEN = "admin-token";
+const tenantEnv: Env = { ...env, API_TOKEN, ADMIN_TOKEN };
+
+function rawEmail(from: string, to: string, reportId: string): string {
+  const xml = `<?xml version="1.0"?>
+<feedback>
+  <report_metadata>
+    <org_name>${from.split("@")[1]}</org_name>
+    <report_id>${reportId}</report_id>
+    <date_range><begin>1704067200</begin><end>1704153599</end></date_range>
+  </report_metadata>
+  <policy_published><domain>example.com</domain><p>none</p></policy_published>
+  <record>
+    <row>
+      <source_ip>192.0.2.1</source_ip>
+      <count>3</count>
+      <policy_evaluated><disposition>none</disposition><dkim>pass</dkim><spf>pass</spf></policy_evaluated>
+    </row>
+    <identifiers><header_from>example.com</header_from></identifiers>
+    <auth_results><dkim><result>pass</result></dkim><spf><result>pass</result></spf></auth_results>
+  </record>
+</feedback>`;
+
+  return [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: Report domain: example.com Report-ID: ${reportId}`,
+    "MIME-Version: 1.0",
+    'Content-Type: multipart/mixed; boundary="b"',
+    "",
+    "--b",
+    "Content-Type: text/xml",
+    `Content-Disposition: attachment; filename="${reportId}.xml"`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    btoa(xml),
+    "--b--",
+    "",
+  ].join("\r\n");
+}
+
+async function ingest(from: string, to: string, reportId: string): Promise<IngestResult> {
+  return processEmail(
+    {
+      raw: await new Blob([rawEmail(from, to, reportId)]).arrayBuffer(),
+      from,
+      to,
+      headers: new Headers(),
+    },
+    tenantEnv,
+    { replay: true },
+  );
+}
+
+async function request(
+  method: string,
+  path: string,
+  token: string,
+  body?: unknown,
+): Promise<Response> {
+  return handleRequest(
+    new Request(`https://dmarc.example${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }),
+    tenantEnv,
+  );
+}
+
+async function issueKey(tenant: string): Promise<string> {
+  const response = await request("POST", `/admin/tenants/${tenant}/api-key`, ADMIN_TOKEN);
+  expect(response.status).toBe(201);
+  return (await response.json<{ apiKey: string }>()).apiKey;
+}
+
+async function reportIds(path: string, token: string): Promise<string[]> {
+  const response = await request("GET", path, token);
+  expect(response.status).toBe(200);
+  const { reports } = await response.json<{ reports: DMARCReportSummary[] }>();
+  return reports.map((report) => report.reportId).sort();
+}
+
+let acmeKey = "";
+let globexKey = "";
+let untrusted: IngestResult | undefined;
+
+beforeAll(async () => {
+  await applySchema(env.DB);
+  await request("PUT", "/admin/tenants/acme", ADMIN_TOKEN, {
+    name: "Acme Corp",
+    trustedReporters: ["isp.example"],
+    retentionDays: 30,
+  });
+  await request("PUT", "/admin/tenants/globex", ADMIN_TOKEN, {
+    addresses: ["RUA@globex.example"],
+  });
+  acmeKey = await issueKey("acme");
+  globexKey = await issueKey("globex");
+
+  await ingest("dmarc@isp.example", "dmarc+acme@reports.example", "acme-1");
+  await ingest("noreply-dmarc-support@google.com", "rua@globex.example", "globex-1");
+  await ingest("noreply-dmarc-support@google.com", "dmarc@reports.example", "shared-1");
+  // isp.example is only trusted for acme
+  untrusted = await ingest("dmarc@isp.example", "rua@globex.example", "globex-2");
+});
+
+describe("tenant resolution", () => {
+  it("stamps reports with the tenant resolved from the recipient address", async () => {
+    const { results } = await env.DB.prepare(
+      "SELECT report_id, tenant_id FROM dmarc_reports ORDER BY report_id",
+    ).all();
+
+    expect(results).toEqual([
+      { report_id: "acme-1", tenant_id: "acme" },
+      { report_id: "globex-1", tenant_id: "globex" },
+      { report_id: "shared-1", tenant_id: null },
+    ]);
+    expect(untrusted?.outcome).toBe("untrusted_reporter");
+  });
+});
+
+describe("POST /tlsrpt/:tenant", () => {
+  it("stores HTTPS TLS-RPT submissions for the tenant in the path", async () => {
+    const submit = async (path: string, reportId: string): Promise<number> => {
+      const report = {
+        "organization-name": "Example Mail",
+        "date-range": {
+          "start-datetime": "2024-01-02T00:00:00Z",
+          "end-datetime": "2024-01-02T23:59:59Z",
+        },
+        "report-id": reportId,
+        "policies": [
+          {
+            policy: { "policy-type": "sts", "policy-domain": "example.com" },
+            summary: { "total-successful-session-count": 5, "total-failure-session-count": 0 },
+          },
+        ],
+      };
+      const response = await handleRequest(
+        new Request(`https://dmarc.example${path}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/tlsrpt+json" },
+          body: JSON.stringify(report),
+        }),
+        tenantEnv,
+      );
+      return response.status;
+    };
+
+    expect(await submit("/tlsrpt/Acme", "tls-acme")).toBe(201);
+    expect(await submit("/tlsrpt", "tls-shared")).toBe(201);
+    expect(await submit("/tlsrpt/initech", "tls-unknown")).toBe(404);
+
+    const { results } = await env.DB.prepare(
+      "SELECT report_id, tenant_id FROM tls_reports ORDER BY report_id",
+    ).all();
+    expect(results).toEqual([
+      { report_id: "tls-acme", tenant_id: "acme" },
+      { report_id: "tls-shared", tenant_id: null },
+    ]);
+  });
+});
+
+describe("tenant API keys", () => {
+  it("only see their own tenant's reports", async () => {
+    expect(await reportIds("/reports", acmeKey)).toEqual(["acme-1"]);
+    // A tenant cannot widen its scope with ?tenant=
+    expect(await reportIds("/reports?tenant=globex", acmeKey)).toEqual(["acme-1"]);
+    expect((await request("GET", "/reports/globex-1", acmeKey)).status).toBe(404);
+    expect((await request("GET", "/reports/acme-1", acmeKey)).status).toBe(200);
+
+    const summary = await request(
+      "GET",
+      "/domains/example.com/summary?from=2024-01-01&to=2024-01-02",
+      globexKey,
+    );
+    expect((await summary.json<DomainSummary>()).reports).toBe(1);
+  });
+
+  it("only see their own tenant's reports in domain views", async () => {
+    const history = await request(
+      "GET",
+      "/domains/example.com/policy-history?from=2024-01-01&to=2024-01-02",
+      acmeKey,
+    );
+    const { changes } = await history.json<{ changes: PolicyChange[] }>();
+    expect(changes.map((change) => change.orgName)).toEqual(["isp.example"]);
+
+    const coverage = await request("GET", "/domains/example.com/coverage?to=2024-01-03", globexKey);
+    const { reporters } = await coverage.json<DomainCoverage>();
+    expect(reporters.map((reporter) => [reporter.orgName, reporter.reports])).toEqual([
+      ["google.com", 1],
+    ]);
+
+    expect((await request("GET", "/dashboard", acmeKey)).status).toBe(200);
+  });
+
+  it("leave API_TOKEN seeing every tenant, narrowed by ?tenant=", async () => {
+    expect(await reportIds("/reports", API_TOKEN)).toEqual(["acme-1", "globex-1", "shared-1"]);
+    expect(await reportIds("/reports?tenant=globex", API_TOKEN)).toEqual(["globex-1"]);
+  });
+
+  it("are refused outside the tenant-scoped routes", async () => {
+    expect((await request("GET", "/ingest-log", acmeKey)).status).toBe(403);
+    expect((await request("GET", "/domains/example.com/senders/new", acmeKey)).status).toBe(403);
+    expect((await request("GET", "/admin/tenants", acmeKey)).status).toBe(401);
+    expect((await request("GET", "/reports", "dmarc_not-a-key")).status).toBe(401);
+  });
+
+  it("stop working once a new key is issued", async () => {
+    const rotated = await issueKey("acme");
+
+    expect((await request("GET", "/reports", acmeKey)).status).toBe(401);
+    expect(await reportIds("/reports", rotated)).toEqual(["acme-1"]);
+  });
+});
+
+describe("/admin/tenants", () => {
+  it("lists tenants without their keys", async () => {
+    const response = await request("GET", "/admin/tenants", ADMIN_TOKEN);
+    const { tenants } = await response.json<{ tenants: Tenant[] }>();
+
+    expect(tenants).toEqual([
+      expect.objectContaining({
+        id: "acme",
+        name: "Acme Corp",
+        trustedReporters: ["isp.example"],
+        retentionDays: 30,
+        hasApiKey: true,
+      }),
+      expect.objectContaining({
+        id: "globex",
+        name: "globex",
+        addresses: ["rua@globex.example"],
+        retentionDays: null,
+      }),
+    ]);
+  });
+
+  it("validates tenants", async () => {
+    const put = async (id: string, body: unknown): Promise<number> =>
+      (await request("PUT", `/admin/tenants/${id}`, ADMIN_TOKEN, body)).status;
+
+    expect(await put("acme+eu", {})).toBe(400);
+    expect(await put("initech", { addresses: ["not an address"] })).toBe(400);
+    expect(await put("initech", { trustedReporters: ["*.isp.example"] })).toBe(400);
+    expect(await put("initech", { retentionDays: 0 })).toBe(400);
+    expect((await request("POST", "/admin/tenants/initech/api-key", ADMIN_TOKEN)).status).toBe(404);
+    expect((await request("DELETE", "/admin/tenants/initech", ADMIN_TOKEN)).status).toBe(404);
+  });
+});
+
+describe("runRetention", () => {
+  it("deletes a tenant's reports past its retention and leaves the rest", async () => {
+    await runRetention(tenantEnv, new Date("2024-03-01T00:00:00Z"));
+
+    const reports = await env.DB.prepare(
+      "SELECT report_id FROM dmarc_reports ORDER BY report_id",
+    ).all();
+    const records = await env.DB.prepare("SELECT COUNT(*) AS n FROM dmarc_records").first();
+
+    expect(reports.results).toEqual([{ report_id: "globex-1" }, { report_id: "shared-1" }]);
+    expect(records).toEqual({ n: 2 });
+  });
+});
@@ -0,0 +1,362 @@
+import { COVERAGE_WINDOW_DAYS, getCoverage } from "./coverage";
+import { sendTextEmail } from "./notify";
+import { getDomainSummary, hasSeenSource, parseStringList } from "./queries";
+import type { Alert, AlertKind, AlertRule, DMARCReport, Env } from "./types";
+
+interface AlertCandidate {
+  kind: AlertKind;
+  // Alerts sharing a dedup key are one ongoing condition, suppressed during the cooldown
+  dedupKey: string;
+  message: string;
+  value: number;
+}
+
+const ALERT_RULE_COLUMNS = `
+  domain, failure_rate_threshold AS failureRateThreshold, min_messages AS minMessages,
+  window_hours AS windowHours, new_source_min_messages AS newSourceMinMessages,
+  email_recipients AS emailRecipients, webhook_url AS webhookUrl,
+  cooldown_minutes AS cooldownMinutes, created_at AS createdAt`;
+
+const ALERT_COLUMNS = `
+  id, domain, kind, dedup_key AS dedupKey, message, value, report_id AS reportId,
+  channels, created_at AS createdAt`;
+
+// The report an alert is about: the one being stored, or a silent reporter's last one
+type AlertOrigin = Pick<DMARCReport, "reportId" | "orgName">;
+
+interface AlertRuleRow extends Omit<AlertRule, "emailRecipients"> {
+  emailRecipients: string;
+}
+
+interface AlertRow extends Omit<Alert, "channels"> {
+  channels: string;
+}
+
+function toAlertRule(row: AlertRuleRow): AlertRule {
+  return { ...row, emailRecipients: parseStringList(row.emailRecipients) };
+}
+
+function toAlert(row: AlertRow): Alert {
+  return { ...row, channels: parseStringList(row.channels) };
+}
+
+function formatPercent(fraction: number): string {
+  return `${(fraction * 100).toFixed(1)}%`;
+}
+
+// The DKIM or SPF failure rate, whichever is higher, over the rule's window of reports ending
+// where this report ends
+async function failureRateAlert(
+  report: DMARCReport,
+  rule: AlertRule,
+  env: Env,
+): Promise<AlertCandidate | null> {
+  if (rule.failureRateThreshold === null) {
+    return null;
+  }
+  const summary = await getDomainSummary(
+    report.domain,
+    report.endDate - rule.windowHours * 3600,
+    report.endDate,
+    env,
+  );
+  if (summary.messageCount === 0 || summary.messageCount < rule.minMessages) {
+    return null;
+  }
+  const rate = Math.max(summary.dkimFail, summary.spfFail) / summary.messageCount;
+  if (rate <= rule.failureRateThreshold) {
+    return null;
+  }
+
+  return {
+    kind: "failure_rate",
+    dedupKey: "failure_rate",
+    message:
+      `DKIM/SPF failure rate for ${report.domain} is ${formatPercent(rate)} ` +
+      `(DKIM failed ${summary.dkimFail} and SPF ${summary.spfFail} of ${summary.messageCount} ` +
+      `messages over ${rule.windowHours}h of reports), ` +
+      `above the ${formatPercent(rule.failureRateThreshold)} threshold`,
+    value: rate,
+  };
+}
+
+// Source IPs failing both DKIM and SPF with enough volume that no earlier report has listed
+async function newSourceAlerts(
+  report: DMARCReport,
+  rule: AlertRule,
+  env: Env,
+): Promise<AlertCandidate[]> {
+  if (rule.newSourceMinMessages === null) {
+    return [];
+  }
+  const failing = new Map<string, number>();
+  for (const record of report.records) {
+    if (record.dkimEvaluated !== "pass" && record.spfEvaluated !== "pass") {
+      failing.set(record.sourceIp, (failing.get(record.sourceIp) ?? 0) + record.count);
+    }
+  }
+
+  const alerts: AlertCandidate[] = [];
+  for (const [sourceIp, count] of failing) {
+    if (count < rule.newSourceMinMessages) {
+      continue;
+    }
+    if (await hasSeenSource(report, sourceIp, env)) {
+      continue;
+    }
+    alerts.push({
+      kind: "new_source",
+      dedupKey: `new_source:${sourceIp}`,
+      message:
+        `New source ${sourceIp} sent ${count} messages failing DMARC for ${report.domain} ` +
+        `(reported by ${report.orgName})`,
+      value: count,
+    });
+  }
+  return alerts;
+}
+
+function formatDuration(seconds: number): string {
+  return seconds >= 2 * 86400
+    ? `${Math.floor(seconds / 86400)} days`
+    : `${Math.floor(seconds / 3600)} hours`;
+}
+
+// Alerts no channel accepted stay in the history but don't hold back a retry
+async function isCoolingDown(
+  domain: string,
+  dedupKey: string,
+  cooldownMinutes: number,
+  env: Env,
+): Promise<boolean> {
+  const row = await env.DB.prepare(
+    `SELECT 1 AS recent FROM alert_history
+     WHERE domain = ? AND dedup_key = ? AND channels != '[]'
+       AND created_at > strftime('%s', 'now') - ?
+     LIMIT 1`,
+  )
+    .bind(domain, dedupKey, cooldownMinutes * 60)
+    .first();
+  return row !== null;
+}
+
+// Returns the channels that accepted the alert
+async function deliver(
+  candidate: AlertCandidate,
+  rule: AlertRule,
+  origin: AlertOrigin,
+  env: Env,
+): Promise<string[]> {
+  const channels: string[] = [];
+
+  if (rule.emailRecipients.length > 0 && env.EMAIL !== undefined) {
+    try {
+      await sendTextEmail(
+        rule.emailRecipients,
+        `DMARC alert for ${rule.domain}: ${candidate.kind.replace("_", " ")}`,
+        `${candidate.message}.\n\nReport: ${origin.reportId} from ${origin.orgName}\n` +
+          `Dashboard: https://${env.SENDER_DOMAIN}/dashboard?domain=${encodeURIComponent(rule.domain)}\n`,
+        env,
+      );
+      channels.push("email");
+    } catch (e) {
+      console.error(`Failed to email alert for ${rule.domain}:`, e);
+    }
+  }
+
+  if (rule.webhookUrl !== null) {
+    try {
+      const response = await fetch(rule.webhookUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          domain: rule.domain,
+          kind: candidate.kind,
+          message: candidate.message,
+          value: candidate.value,
+          reportId: origin.reportId,
+          orgName: origin.orgName,
+        }),
+      });
+      if (response.ok) {
+        channels.push("webhook");
+      } else {
+        console.error(`Alert webhook for ${rule.domain} answered ${response.status}`);
+      }
+    } catch (e) {
+      console.error(`Failed to call alert webhook for ${rule.domain}:`, e);
+    }
+  }
+
+  return channels;
+}
+
+// Delivers and records the alert unless the same condition alerted within the cooldown
+async function raise(
+  candidate: AlertCandidate,
+  rule: AlertRule,
+  origin: AlertOrigin,
+  env: Env,
+): Promise<Alert | null> {
+  if (await isCoolingDown(rule.domain, candidate.dedupKey, rule.cooldownMinutes, env)) {
+    return null;
+  }
+  const channels = await deliver(candidate, rule, origin, env);
+  const alert = await env.DB.prepare(
+    `INSERT INTO alert_history (domain, kind, dedup_key, message, value, report_id, channels)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     RETURNING ${ALERT_COLUMNS}`,
+  )
+    .bind(
+      rule.domain,
+      candidate.kind,
+      candidate.dedupKey,
+      candidate.message,
+      candidate.value,
+      origin.reportId,
+      JSON.stringify(channels),
+    )
+    .first<AlertRow>();
+  return alert === null ? null : toAlert(alert);
+}
+
+/**
+ * Checks a freshly stored report against its domain's alert rule and delivers any alert
+ * that is not cooling down. Errors are logged and swallowed so alerting never fails ingestion.
+ */
+export async function evaluateAlerts(report: DMARCReport, env: Env): Promise<Alert[]> {
+  try {
+    const rule = await getAlertRule(report.domain, env);
+    if (rule === null) {
+      return [];
+    }
+
+    const candidates = [
+      await failureRateAlert(report, rule, env),
+      ...(await newSourceAlerts(report, rule, env)),
+    ].filter((candidate) => candidate !== null);
+
+    const fired: Alert[] = [];
+    for (const candidate of candidates) {
+      const alert = await raise(candidate, rule, report, env);
+      if (alert !== null) {
+        fired.push(alert);
+      }
+    }
+    return fired;
+  } catch (e) {
+    console.error(`Alert evaluation failed for ${report.reportId}:`, e);
+    return [];
+  }
+}
+
+/**
+ * Cron entry point: alerts on every reporter that has gone quiet for a domain with
+ * `missingReportGraceHours` set. Each silent reporter alerts again once its cooldown passes.
+ */
+export async function runMissingReportChecks(env: Env, now: Date): Promise<Alert[]> {
+  const fired: Alert[] = [];
+  for (const rule of await listAlertRules(env)) {
+    if (rule.missingReportGraceHours === null) {
+      continue;
+    }
+    try {
+      const coverage = await getCoverage(
+        rule.domain,
+        Math.floor(now.getTime() / 1000),
+        env,
+        COVERAGE_WINDOW_DAYS,
+        rule.missingReportGraceHours,
+      );
+      for (const reporter of coverage.reporters.filter((entry) => entry.overdue)) {
+        const candidate: AlertCandidate = {
+          kind: "missing_report",
+          dedupKey: `missing_report:${reporter.orgName}`,
+          message:
+            `${reporter.orgName} has not reported for ${rule.domain} in ` +
+            `${formatDuration(reporter.silentSeconds)} ` +
+            `(it usually covers ${formatDuration(reporter.cadenceSeconds)} per report)`,
+          value: reporter.silentSeconds / 86400,
+        };
+        const alert = await raise(
+          candidate,
+          rule,
+          { reportId: reporter.lastReportId, orgName: reporter.orgName },
+          env,
+        );
+        if (alert !== null) {
+          fired.push(alert);
+        }
+      }
+    } catch (e) {
+      console.error(`Missing report check failed for ${rule.domain}:`, e);
+    }
+  }
+  return fired;
+}
+
+export async function getAlertRule(domain: string, env: Env): Promise<AlertRule | null> {
+  const row = await env.DB.prepare(`SELECT ${ALERT_RULE_COLUMNS} FROM alert_rules WHERE domain = ?`)
+    .bind(domain)
+    .first<AlertRuleRow>();
+  return row === null ? null : toAlertRule(row);
+}
+
+export async function listAlertRules(env: Env): Promise<AlertRule[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT ${ALERT_RULE_COLUMNS} FROM alert_rules ORDER BY domain`,
+  ).all<AlertRuleRow>();
+  return results.map(toAlertRule);
+}
+
+export async function putAlertRule(rule: Omit<AlertRule, "createdAt">, env: Env): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO alert_rules (
+       domain, failure_rate_threshold, min_messages, window_hours, new_source_min_messages,
+       missing_report_grace_hours, email_recipients, webhook_url, cooldown_minutes
+     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (domain) DO UPDATE SET
+       failure_rate_threshold = excluded.failure_rate_threshold,
+       min_messages = excluded.min_messages,
+       window_hours = excluded.window_hours,
+       new_source_min_messages = excluded.new_source_min_messages,
+       missing_report_grace_hours = excluded.missing_report_grace_hours,
+       email_recipients = excluded.email_recipients,
+       webhook_url = excluded.webhook_url,
+       cooldown_minutes = excluded.cooldown_minutes`,
+  )
+    .bind(
+      rule.domain,
+      rule.failureRateThreshold,
+      rule.minMessages,
+      rule.windowHours,
+      rule.newSourceMinMessages,
+      rule.missingReportGraceHours,
+      JSON.stringify(rule.emailRecipients),
+      rule.webhookUrl,
+      rule.cooldownMinutes,
+    )
+    .run();
+}
+
+// Returns false when the domain had no rule
+export async function removeAlertRule(domain: string, env: Env): Promise<boolean> {
+  const result = await env.DB.prepare("DELETE FROM alert_rules WHERE domain = ?")
+    .bind(domain)
+    .run();
+  return result.meta.changes > 0;
+}
+
+export async function listAlerts(
+  filters: { domain?: string; limit: number; offset: number },
+  env: Env,
+): Promise<Alert[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT ${ALERT_COLUMNS} FROM alert_history
+     WHERE ? IS NULL OR domain = ?
+     ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+  )
+    .bind(filters.domain ?? null, filters.domain ?? null, filters.limit, filters.offset)
+    .all<AlertRow>();
+  return results.map(toAlert);
+}
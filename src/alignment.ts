@@ -0,0 +1,106 @@
+// Public Suffix List rules (https://publicsuffix.org, MPL-2.0), ASCII-encoded and bundled so
+// alignment needs no network access. Taken from the data of the psl npm package, version 1.15.0.
+import publicSuffixRules from "./data/public-suffix-list.json";
+
+export type AlignmentMode = "r" | "s";
+
+const RULES = new Set(publicSuffixRules);
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/\.$/, "");
+}
+
+// Number of trailing labels forming the public suffix, per the PSL algorithm:
+// exception rules win, then the longest matching rule, then the implicit "*" rule
+function publicSuffixLength(labels: string[]): number {
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join(".");
+    if (RULES.has(`!${candidate}`)) {
+      return labels.length - i - 1;
+    }
+    const parent = labels.slice(i + 1).join(".");
+    if (RULES.has(candidate) || (parent !== "" && RULES.has(`*.${parent}`))) {
+      return labels.length - i;
+    }
+  }
+  return 1;
+}
+
+/**
+ * The organizational domain of RFC 7489 section 3.2: the public suffix plus one label.
+ * A domain that is itself a public suffix is returned unchanged.
+ */
+export function organizationalDomain(domain: string): string {
+  const labels = normalizeDomain(domain).split(".");
+  const suffixLength = publicSuffixLength(labels);
+  return labels.slice(Math.max(0, labels.length - suffixLength - 1)).join(".");
+}
+
+// Strict mode needs an exact match; relaxed mode only the same organizational domain
+export function isAligned(
+  authenticatedDomain: string,
+  headerFrom: string,
+  mode: AlignmentMode,
+): boolean {
+  const authenticated = normalizeDomain(authenticatedDomain);
+  const from = normalizeDomain(headerFrom);
+  if (authenticated === "" || from === "") {
+    return false;
+  }
+  if (mode === "s") {
+    return authenticated === from;
+  }
+  return organizationalDomain(authenticated) === organizationalDomain(from);
+}
+
+// adkim/aspf as published; anything but "s" means relaxed, the default
+export function alignmentMode(value: string | null): AlignmentMode {
+  return value === "s" ? "s" : "r";
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("organizationalDomain", () => {
+    it("keeps one label below the public suffix", () => {
+      expect(organizationalDomain("mail.example.com")).toBe("example.com");
+      expect(organizationalDomain("a.b.example.co.uk")).toBe("example.co.uk");
+      expect(organizationalDomain("Example.COM.")).toBe("example.com");
+      expect(organizationalDomain("example.com")).toBe("example.com");
+    });
+
+    it("applies wildcard and exception rules", () => {
+      // *.ck is a rule, !www.ck an exception to it
+      expect(organizationalDomain("a.b.foo.ck")).toBe("b.foo.ck");
+      expect(organizationalDomain("mail.www.ck")).toBe("www.ck");
+    });
+
+    it("treats unlisted TLDs as one-label suffixes and suffixes as their own domain", () => {
+      expect(organizationalDomain("host.example.internal")).toBe("example.internal");
+      expect(organizationalDomain("co.uk")).toBe("co.uk");
+    });
+
+    it("includes private suffixes", () => {
+      expect(organizationalDomain("project.github.io")).toBe("project.github.io");
+    });
+  });
+
+  describe("isAligned", () => {
+    it("compares organizational domains in relaxed mode", () => {
+      expect(isAligned("bounce.example.com", "example.com", "r")).toBe(true);
+      expect(isAligned("example.com", "news.example.com", "r")).toBe(true);
+      expect(isAligned("example.net", "example.com", "r")).toBe(false);
+      expect(isAligned("a.github.io", "b.github.io", "r")).toBe(false);
+    });
+
+    it("requires an exact match in strict mode", () => {
+      expect(isAligned("Example.com", "example.com", "s")).toBe(true);
+      expect(isAligned("bounce.example.com", "example.com", "s")).toBe(false);
+    });
+
+    it("never aligns missing domains", () => {
+      expect(isAligned("", "example.com", "r")).toBe(false);
+      expect(isAligned("example.com", "", "r")).toBe(false);
+    });
+  });
+}
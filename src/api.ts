@@ -0,0 +1,1339 @@
+import { listAlertRules, listAlerts, putAlertRule, removeAlertRule } from "./alerts";
+import { COVERAGE_WINDOW_DAYS, DEFAULT_GRACE_HOURS, getCoverage } from "./coverage";
+import { renderDashboard } from "./dashboard";
+import {
+  isDigestCadence,
+  listDigestSubscriptions,
+  putDigestSubscription,
+  removeDigestSubscription,
+} from "./digest";
+import {
+  addManagedDomain,
+  filterTLSReport,
+  listManagedDomains,
+  loadDomainCheck,
+  normalizeManagedDomain,
+  removeManagedDomain,
+} from "./domains";
+import { isIngestOutcome, listIngestLog } from "./ledger";
+import { normalizeRecipient } from "./notify";
+import {
+  findReportKeys,
+  getDashboardData,
+  getDomainSummary,
+  getPolicyHistory,
+  getReport,
+  listFailureReports,
+  listReports,
+  listTLSFailures,
+  listTLSReports,
+} from "./queries";
+import { getReadiness, READINESS_WINDOW_DAYS } from "./readiness";
+import { ARCHIVE_PREFIX, createReplayJob, getReplayJob, replayBatch, replayKey } from "./replay";
+import {
+  addTrustedReporter,
+  listTrustedReporters,
+  normalizeReporterDomain,
+  removeTrustedReporter,
+} from "./reporters";
+import {
+  addSendingServiceOverride,
+  getNewSenders,
+  getSenderInventory,
+  isSenderPatternKind,
+  listSendingServiceOverrides,
+  normalizeSenderPattern,
+  removeSendingServiceOverride,
+} from "./senders";
+import { storeTLSReport } from "./storage";
+import {
+  findTenantByApiKey,
+  getTenant,
+  issueTenantApiKey,
+  listTenants,
+  normalizeTenantId,
+  putTenant,
+  removeTenant,
+} from "./tenants";
+import {
+  decodeTLSRPTBody,
+  parseTLSReport,
+  TLSRPT_GZIP_MEDIA_TYPE,
+  TLSRPT_JSON_MEDIA_TYPE,
+} from "./tlsrpt";
+import type {
+  Env,
+  FailureReportFilters,
+  IngestLogFilters,
+  ReplaySelection,
+  ReportFilters,
+  TLSFailureFilters,
+} from "./types";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+const DEFAULT_SUMMARY_DAYS = 30;
+const DEFAULT_NEW_SENDER_DAYS = 7;
+const MAX_DASHBOARD_DAYS = 365;
+const DEFAULT_ALERT_WINDOW_HOURS = 24;
+const DEFAULT_ALERT_MIN_MESSAGES = 100;
+const DEFAULT_ALERT_COOLDOWN_MINUTES = 360;
+const MAX_GRACE_HOURS = 24 * 31;
+const MAX_RETENTION_DAYS = 3650;
+const DEFAULT_REPLAY_LIMIT = 20;
+const MAX_TLSRPT_BODY_BYTES = 10 * 1024 * 1024;
+const MAX_REPLAY_LIMIT = 100;
+
+// `tenantId` is set when a tenant API key authorised the request
+type RouteHandler = (
+  url: URL,
+  params: Record<string, string>,
+  env: Env,
+  request: Request,
+  tenantId: string | undefined,
+) => Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+  // Browsers only prompt for Basic credentials, so HTML routes ask for those
+  challenge?: string;
+  // Admin routes are authorised by ADMIN_TOKEN instead of API_TOKEN
+  admin?: boolean;
+  // Tenant API keys may call the route, which then only serves that tenant's reports
+  tenantScoped?: boolean;
+  // Open to anyone, e.g. report submissions from other mail systems
+  anonymous?: boolean;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+// Accepts Unix seconds or anything Date.parse understands (e.g. 2024-01-31)
+function parseTimestamp(value: string | null, name: string): number | undefined {
+  if (value === null || value === "") {
+    return undefined;
+  }
+  if (/^\d+$/.test(value)) {
+    return parseInt(value);
+  }
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) {
+    throw new HttpError(400, `Invalid ${name}: ${value}`);
+  }
+  return Math.floor(ms / 1000);
+}
+
+function parseCount(value: string | null, name: string, fallback: number, max: number): number {
+  if (value === null || value === "") {
+    return fallback;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new HttpError(400, `Invalid ${name}: ${value}`);
+  }
+  return Math.min(parseInt(value), max);
+}
+
+function optionalParam(params: URLSearchParams, name: string): string | undefined {
+  const value = params.get(name);
+  return value === null || value === "" ? undefined : value;
+}
+
+// A tenant key always sees its own reports; API_TOKEN sees every tenant unless ?tenant= narrows it
+function tenantScope(url: URL, tenantId: string | undefined): string | undefined {
+  return tenantId ?? optionalParam(url.searchParams, "tenant")?.toLowerCase();
+}
+
+function parseFilters(url: URL, tenantId: string | undefined): ReportFilters {
+  const params = url.searchParams;
+  return {
+    domain: optionalParam(params, "domain")?.toLowerCase(),
+    orgName: optionalParam(params, "org"),
+    from: parseTimestamp(params.get("from"), "from"),
+    to: parseTimestamp(params.get("to"), "to"),
+    quarantined: params.get("quarantined") === "1" || params.get("quarantined") === "true",
+    tenantId: tenantScope(url, tenantId),
+    limit: parseCount(params.get("limit"), "limit", DEFAULT_LIMIT, MAX_LIMIT),
+    offset: parseCount(params.get("offset"), "offset", 0, Number.MAX_SAFE_INTEGER),
+  };
+}
+
+async function handleListReports(
+  url: URL,
+  _params: Record<string, string>,
+  env: Env,
+  _request: Request,
+  tenantId: string | undefined,
+): Promise<Response> {
+  const filters = parseFilters(url, tenantId);
+  const reports = await listReports(filters, env);
+  return json({ reports, limit: filters.limit, offset: filters.offset });
+}
+
+async function handleGetReport(
+  url: URL,
+  params: Record<string, string>,
+  env: Env,
+  _request: Request,
+  tenantId: string | undefined,
+): Promise<Response> {
+  const result = await getReport(
+    {
+      orgName: params["org"] ?? "",
+      domain: params["domain"] ?? "",
+      reportId: params["id"] ?? "",
+    },
+    env,
+    tenantScope(url, tenantId),
+  );
+  if (result === null) {
+    throw new HttpError(404, "Report not found");
+  }
+  return json(result);
+}
+
+// Report IDs alone are only unique per reporter: answers when exactly one report carries the ID,
+// and lists the candidates otherwise
+async function handleGetReportById(
+  url: URL,
+  params: Record<string, string>,
+  env: Env,
+  request: Request,
+  tenantId: string | undefined,
+): Promise<Response> {
+  const keys = await findReportKeys(params["id"] ?? "", env, tenantScope(url, tenantId));
+  const [key] = keys;
+  if (key === undefined) {
+    throw new HttpError(404, "Report not found");
+  }
+  if (keys.length > 1) {
+    return json(
+      { error: "Report ID is used by more than one reporter or domain", reports: keys },
+      409,
+    );
+  }
+  return handleGetReport(
+    url,
+    { org: key.orgName, domain: key.domain, id: key.reportId },
+    env,
+    request,
+    tenantId,
+  );
+}
+
+async function handleListTLSReports(
+  url: URL,
+  _params: Record<string, string>,
+  env: Env,
+  _request: Request,
+  tenantId: string | undefined,
+): Promise<Response> {
+  const filters = parseFilters(url, tenantId);
+  const reports = await listTLSReports(filters, env);
+  return json({ reports, limit: filters.limit, offset: filters.offset });
+}
+
+async function handleListTLSFailures(
+  url: URL,
+  _params: Record<string, string>,
+  env: Env,
+  _request: Request,
+  tenantId: string | undefined,
+): Promise<Response> {
+  const filters: TLSFailureFilters = {
+    ...parseFilters(url, tenantId),
+    resultType: optionalParam(url.searchParams, "result_type")?.toLowerCase(),
+    mxHost: optionalParam(url.searchParams, "mx_host"),
+  };
+  const failures = await listTLSFailures(filters, env);
+  return json({ failures, limit: filters.limit, offset: filters.offset });
+}
+
+// Unlike the summary, history covers every stored report unless a range is given
+async function handlePolicyHistory(
+  url: URL,
+  params: Record<string, string>,
+  env: Env,
+  _request: Request,
+  tenantId: string | undefined,
+): Promise<Response> {
+  const domain = (params["domain"] ?? "").toLowerCase();
+  const changes = await getPolicyHistory(
+    domain,
+    parseTimestamp(url.searchParams.get("from"), "from"),
+    parseTimestamp(url.searchParams.get("to"), "to"),
+    env,
+    tenantScope(url, tenantId),
+  );
+  return json({ domain, changes });
+}
+
+async function handleReadiness(
+  url: URL,
+  params: Record<string, string>,
+  env: Env,
+  _request: Request,
+  tenantId: string | undefined,
+): Promise<Response> {
+  const to = parseTimestamp(url.searchParams.get("to"), "to") ?? Math.floor(Date.now() / 1000);
+  const days = parseCount(
+    url.searchParams.get("days"),
+    "days",
+    READINESS_WINDOW_DAYS,
+    MAX_DASHBOARD_DAYS,
+  );
+  const readiness = await getReadiness(
+    (params["domain"] ?? "").toLowerCase(),
+    to,
+    env,
+    days,
+    tenantScope(url, tenantId),
+  );
+  return json(readiness);
+}
+
+// Each reporter's cadence, gaps and overlaps; `overdue` marks reporters that went quiet
+async function handleCoverage(
+  url: URL,
+  params: Record<string, string>,
+  env: Env,
+  _request: Request,
+  tenantId: string | undefined,
+): Promise<Response> {
+  const to = parseTimestamp(url.searchParams.get("to"), "to") ?? Math.floor(Date.now() / 1000);
+  const days = parseCount(
+    url.searchParams.get("days"),
+    "days",
+    COVERAGE_WINDOW_DAYS,
+    MAX_DASHBOARD_DAYS,
+  );
+  const graceHours = parseCount(
+    url.searchParams.get("grace_hours"),
+    "grace_hours",
+    DEFAULT_GRACE_HOURS,
+    MAX_GRACE_HOURS,
+  );
+  const coverage = await getCoverage(
+    (params["domain"] ?? "").toLowerCase(),
+    to,
+    env,
+    days,
+    graceHours,
+    tenantScope(url, tenantId),
+  );
+  return json(coverage);
+}
+
+async function handleSenderInventory(
+  url: URL,
+  params: Record<string, string>,
+  env: Env,
+  _request: Request,
+  tenantId: string | undefined,
+): Promise<Response> {
+  const now = Math.floor(Date.now() / 1000);
+  const to = parseTimestamp(url.searchParams.get("to"), "to") ?? now;
+  const from =
+    parseTimestamp(url.searchParams.get("from"), "from") ?? to - DEFAULT_SUMMARY_DAYS * 86400;
+  const inventory = await getSenderInventory(
+    (params["domain"] ?? "").toLowerCase(),
+    from,
+    to,
+    env,
+    tenantScope(url, tenantId),
+  );
+  return json(inventory);
+}
+
+// "New senders this week" by default; ?suspected=1 keeps only suspected spoofing sources
+// Not tenant-scoped: dmarc_sources tracks first sightings across every tenant
+async function handleNewSenders(
+  url: URL,
+  params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  const domain = (params["domain"] ?? "").toLowerCase();
+  const to = parseTimestamp(url.searchParams.get("to"), "to") ?? Math.floor(Date.now() / 1000);
+  const from =
+    to -
+    parseCount(url.searchParams.get("days"), "days", DEFAULT_NEW_SENDER_DAYS, MAX_DASHBOARD_DAYS) *
+      86400;
+  const suspected = ["1", "true"].includes(url.searchParams.get("suspected") ?? "");
+  const senders = await getNewSenders(domain, from, to, env);
+  return json({
+    domain,
+    from,
+    to,
+    senders: suspected ? senders.filter((sender) => sender.suspectedSpoofing) : senders,
+  });
+}
+
+async function handleListFailureReports(
+  url: URL,
+  _params: Record<string, string>,
+  env: Env,
+  _request: Request,
+  tenantId: string | undefined,
+): Promise<Response> {
+  const { domain, from, to, quarantined, limit, offset } = parseFilters(url, tenantId);
+  const filters: FailureReportFilters = {
+    domain,
+    sourceIp: optionalParam(url.searchParams, "source_ip"),
+    authFailure: optionalParam(url.searchParams, "auth_failure")?.toLowerCase(),
+    from,
+    to,
+    quarantined,
+    tenantId: tenantScope(url, tenantId),
+    limit,
+    offset,
+  };
+  const reports = await listFailureReports(filters, env);
+  return json({ reports, limit, offset });
+}
+
+async function handleDomainSummary(
+  url: URL,
+  params: Record<string, string>,
+  env: Env,
+  _request: Request,
+  tenantId: string | undefined,
+): Promise<Response> {
+  const now = Math.floor(Date.now() / 1000);
+  const to = parseTimestamp(url.searchParams.get("to"), "to") ?? now;
+  const from =
+    parseTimestamp(url.searchParams.get("from"), "from") ?? to - DEFAULT_SUMMARY_DAYS * 86400;
+  const summary = await getDomainSummary(
+    (params["domain"] ?? "").toLowerCase(),
+    from,
+    to,
+    env,
+    tenantScope(url, tenantId),
+  );
+  return json(summary);
+}
+
+async function handleDashboard(
+  url: URL,
+  _params: Record<string, string>,
+  env: Env,
+  _request: Request,
+  tenantId: string | undefined,
+): Promise<Response> {
+  const days = Math.max(
+    1,
+    parseCount(url.searchParams.get("days"), "days", DEFAULT_SUMMARY_DAYS, MAX_DASHBOARD_DAYS),
+  );
+  const to = parseTimestamp(url.searchParams.get("to"), "to") ?? Math.floor(Date.now() / 1000);
+  const data = await getDashboardData(
+    {
+      domain: optionalParam(url.searchParams, "domain")?.toLowerCase(),
+      from: to - days * 86400,
+      to,
+      tenantId: tenantScope(url, tenantId),
+    },
+    env,
+  );
+  return new Response(renderDashboard(data), {
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
+
+function parseIngestLogFilters(url: URL): IngestLogFilters {
+  const params = url.searchParams;
+  const outcome = optionalParam(params, "outcome");
+  if (outcome !== undefined && !isIngestOutcome(outcome)) {
+    throw new HttpError(400, `Invalid outcome: ${outcome}`);
+  }
+  return {
+    senderDomain: optionalParam(params, "sender")?.toLowerCase(),
+    outcome,
+    reportId: optionalParam(params, "report_id"),
+    from: parseTimestamp(params.get("from"), "from"),
+    to: parseTimestamp(params.get("to"), "to"),
+    limit: parseCount(params.get("limit"), "limit", DEFAULT_LIMIT, MAX_LIMIT),
+    offset: parseCount(params.get("offset"), "offset", 0, Number.MAX_SAFE_INTEGER),
+  };
+}
+
+async function handleIngestLog(
+  url: URL,
+  _params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  const filters = parseIngestLogFilters(url);
+  const entries = await listIngestLog(filters, env);
+  return json({ entries, limit: filters.limit, offset: filters.offset });
+}
+
+async function readJSON(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new HttpError(400, "Request body must be JSON");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+  return { ...body };
+}
+
+async function handleListTrustedReporters(
+  _url: URL,
+  _params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  return json({ reporters: await listTrustedReporters(env) });
+}
+
+async function handleAddTrustedReporter(
+  _url: URL,
+  _params: Record<string, string>,
+  env: Env,
+  request: Request,
+): Promise<Response> {
+  const body = await readJSON(request);
+  const domain =
+    typeof body["domain"] === "string" ? normalizeReporterDomain(body["domain"]) : null;
+  if (domain === null) {
+    throw new HttpError(400, "domain must be a domain name");
+  }
+  const note = typeof body["note"] === "string" ? body["note"] : null;
+
+  await addTrustedReporter(domain, note, env);
+  return json({ domain, note }, 201);
+}
+
+async function handleRemoveTrustedReporter(
+  _url: URL,
+  params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  const domain = normalizeReporterDomain(params["domain"] ?? "");
+  if (domain === null) {
+    throw new HttpError(400, "Invalid domain");
+  }
+  if (await removeTrustedReporter(domain, env)) {
+    return new Response(null, { status: 204 });
+  }
+
+  const fromEnv = (await listTrustedReporters(env)).some(
+    (reporter) => reporter.domain === domain && reporter.source === "env",
+  );
+  if (fromEnv) {
+    throw new HttpError(409, "Reporter is configured by TRUSTED_REPORTERS; change the variable");
+  }
+  throw new HttpError(404, "Reporter not found");
+}
+
+async function handleListManagedDomains(
+  _url: URL,
+  _params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  return json({ domains: await listManagedDomains(env) });
+}
+
+async function handleAddManagedDomain(
+  _url: URL,
+  _params: Record<string, string>,
+  env: Env,
+  request: Request,
+): Promise<Response> {
+  const body = await readJSON(request);
+  const domain = typeof body["domain"] === "string" ? normalizeManagedDomain(body["domain"]) : null;
+  if (domain === null) {
+    throw new HttpError(400, "domain must be a domain name or *.<domain>");
+  }
+  const note = typeof body["note"] === "string" ? body["note"] : null;
+
+  await addManagedDomain(domain, note, env);
+  return json({ domain, note }, 201);
+}
+
+async function handleRemoveManagedDomain(
+  _url: URL,
+  params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  const domain = normalizeManagedDomain(params["domain"] ?? "");
+  if (domain === null) {
+    throw new HttpError(400, "Invalid domain");
+  }
+  if (await removeManagedDomain(domain, env)) {
+    return new Response(null, { status: 204 });
+  }
+  throw new HttpError(404, "Domain not found");
+}
+
+async function handleListSendingServices(
+  _url: URL,
+  _params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  return json({ overrides: await listSendingServiceOverrides(env) });
+}
+
+async function handleAddSendingService(
+  _url: URL,
+  _params: Record<string, string>,
+  env: Env,
+  request: Request,
+): Promise<Response> {
+  const body = await readJSON(request);
+  const service = typeof body["service"] === "string" ? body["service"].trim() : "";
+  if (service === "") {
+    throw new HttpError(400, "service must be a non-empty string");
+  }
+  const kind = body["kind"];
+  if (!isSenderPatternKind(kind)) {
+    throw new HttpError(400, 'kind must be "cidr", "hostname" or "dkim_domain"');
+  }
+  const pattern =
+    typeof body["pattern"] === "string" ? normalizeSenderPattern(kind, body["pattern"]) : null;
+  if (pattern === null) {
+    throw new HttpError(
+      400,
+      kind === "cidr"
+        ? "pattern must be an IP address or CIDR range"
+        : "pattern must be a domain name",
+    );
+  }
+
+  await addSendingServiceOverride(service, kind, pattern, env);
+  return json({ service, kind, pattern }, 201);
+}
+
+async function handleRemoveSendingService(
+  _url: URL,
+  params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  if (!(await removeSendingServiceOverride(parseInt(params["id"] ?? ""), env))) {
+    throw new HttpError(404, "Override not found");
+  }
+  return new Response(null, { status: 204 });
+}
+
+// An absent list is empty; any entry that is not an address rejects the request
+function parseRecipients(value: unknown, name: string): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const recipients = Array.isArray(value)
+    ? value.map((recipient) =>
+        typeof recipient === "string" ? normalizeRecipient(recipient) : null,
+      )
+    : [null];
+  if (recipients.includes(null)) {
+    throw new HttpError(400, `${name} must be a list of email addresses`);
+  }
+  return recipients.filter((recipient) => recipient !== null);
+}
+
+// Same contract as parseRecipients, for reporter domains
+function parseReporterDomains(value: unknown, name: string): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const domains = Array.isArray(value)
+    ? value.map((domain) => (typeof domain === "string" ? normalizeReporterDomain(domain) : null))
+    : [null];
+  if (domains.includes(null)) {
+    throw new HttpError(400, `${name} must be a list of domain names`);
+  }
+  return domains.filter((domain) => domain !== null);
+}
+
+async function handleListDigests(
+  _url: URL,
+  _params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  return json({ digests: await listDigestSubscriptions(env) });
+}
+
+async function handlePutDigest(
+  _url: URL,
+  params: Record<string, string>,
+  env: Env,
+  request: Request,
+): Promise<Response> {
+  const domain = normalizeReporterDomain(params["domain"] ?? "");
+  if (domain === null) {
+    throw new HttpError(400, "Invalid domain");
+  }
+  const body = await readJSON(request);
+  const cadence = body["cadence"] ?? "weekly";
+  if (!isDigestCadence(cadence)) {
+    throw new HttpError(400, 'cadence must be "daily" or "weekly"');
+  }
+  const recipients = parseRecipients(body["recipients"], "recipients");
+  if (recipients.length === 0) {
+    throw new HttpError(400, "recipients must be a non-empty list of email addresses");
+  }
+
+  await putDigestSubscription(domain, recipients, cadence, env);
+  return json({ domain, recipients, cadence });
+}
+
+async function handleRemoveDigest(
+  _url: URL,
+  params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  const domain = normalizeReporterDomain(params["domain"] ?? "");
+  if (domain === null) {
+    throw new HttpError(400, "Invalid domain");
+  }
+  if (!(await removeDigestSubscription(domain, env))) {
+    throw new HttpError(404, "Digest not found");
+  }
+  return new Response(null, { status: 204 });
+}
+
+async function handleListAlerts(
+  url: URL,
+  _params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  const params = url.searchParams;
+  const limit = parseCount(params.get("limit"), "limit", DEFAULT_LIMIT, MAX_LIMIT);
+  const offset = parseCount(params.get("offset"), "offset", 0, Number.MAX_SAFE_INTEGER);
+  const alerts = await listAlerts(
+    { domain: optionalParam(params, "domain")?.toLowerCase(), limit, offset },
+    env,
+  );
+  return json({ alerts, limit, offset });
+}
+
+// Absent or null disables the setting; otherwise it must be a number in [min, max]
+function optionalNumber(
+  body: Record<string, unknown>,
+  name: string,
+  min: number,
+  max: number,
+): number | null {
+  const value = body[name];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+    throw new HttpError(400, `${name} must be a number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+async function handleListTenants(
+  _url: URL,
+  _params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  return json({ tenants: await listTenants(env) });
+}
+
+function parseTenantId(params: Record<string, string>): string {
+  const id = normalizeTenantId(params["id"] ?? "");
+  if (id === null) {
+    throw new HttpError(400, "Tenant IDs are lower-case letters, digits and hyphens");
+  }
+  return id;
+}
+
+async function handlePutTenant(
+  _url: URL,
+  params: Record<string, string>,
+  env: Env,
+  request: Request,
+): Promise<Response> {
+  const id = parseTenantId(params);
+  const body = await readJSON(request);
+
+  const tenant = {
+    id,
+    name: typeof body["name"] === "string" && body["name"].trim() !== "" ? body["name"].trim() : id,
+    addresses: parseRecipients(body["addresses"], "addresses"),
+    trustedReporters: parseReporterDomains(body["trustedReporters"], "trustedReporters"),
+    retentionDays: optionalNumber(body, "retentionDays", 1, MAX_RETENTION_DAYS),
+  };
+  await putTenant(tenant, env);
+  return json(tenant);
+}
+
+async function handleRemoveTenant(
+  _url: URL,
+  params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  if (!(await removeTenant(parseTenantId(params), env))) {
+    throw new HttpError(404, "Tenant not found");
+  }
+  return new Response(null, { status: 204 });
+}
+
+// The key is only ever shown in this response; issuing another one revokes it
+async function handleIssueTenantApiKey(
+  _url: URL,
+  params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  const id = parseTenantId(params);
+  const apiKey = await issueTenantApiKey(id, env);
+  if (apiKey === null) {
+    throw new HttpError(404, "Tenant not found");
+  }
+  return json({ tenant: id, apiKey }, 201);
+}
+
+async function handleListAlertRules(
+  _url: URL,
+  _params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  return json({ rules: await listAlertRules(env) });
+}
+
+async function handlePutAlertRule(
+  _url: URL,
+  params: Record<string, string>,
+  env: Env,
+  request: Request,
+): Promise<Response> {
+  const domain = normalizeReporterDomain(params["domain"] ?? "");
+  if (domain === null) {
+    throw new HttpError(400, "Invalid domain");
+  }
+  const body = await readJSON(request);
+
+  const failureRateThreshold = optionalNumber(body, "failureRateThreshold", 0, 1);
+  const newSourceMinMessages = optionalNumber(
+    body,
+    "newSourceMinMessages",
+    1,
+    Number.MAX_SAFE_INTEGER,
+  );
+  const missingReportGraceHours = optionalNumber(
+    body,
+    "missingReportGraceHours",
+    0,
+    MAX_GRACE_HOURS,
+  );
+  if (
+    failureRateThreshold === null &&
+    newSourceMinMessages === null &&
+    missingReportGraceHours === null
+  ) {
+    throw new HttpError(
+      400,
+      "Set at least one of failureRateThreshold, newSourceMinMessages and missingReportGraceHours",
+    );
+  }
+  const emailRecipients = parseRecipients(body["emailRecipients"], "emailRecipients");
+  const webhookUrl = typeof body["webhookUrl"] === "string" ? body["webhookUrl"] : null;
+  if (webhookUrl !== null && !isHttpsUrl(webhookUrl)) {
+    throw new HttpError(400, "webhookUrl must be an https URL");
+  }
+  if (emailRecipients.length === 0 && webhookUrl === null) {
+    throw new HttpError(400, "Set emailRecipients, webhookUrl or both");
+  }
+
+  const rule = {
+    domain,
+    failureRateThreshold,
+    newSourceMinMessages,
+    missingReportGraceHours,
+    minMessages:
+      optionalNumber(body, "minMessages", 1, Number.MAX_SAFE_INTEGER) ?? DEFAULT_ALERT_MIN_MESSAGES,
+    windowHours: optionalNumber(body, "windowHours", 1, 24 * 31) ?? DEFAULT_ALERT_WINDOW_HOURS,
+    cooldownMinutes:
+      optionalNumber(body, "cooldownMinutes", 0, 60 * 24 * 31) ?? DEFAULT_ALERT_COOLDOWN_MINUTES,
+    emailRecipients,
+    webhookUrl,
+  };
+  await putAlertRule(rule, env);
+  return json(rule);
+}
+
+async function handleRemoveAlertRule(
+  _url: URL,
+  params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  const domain = normalizeReporterDomain(params["domain"] ?? "");
+  if (domain === null) {
+    throw new HttpError(400, "Invalid domain");
+  }
+  if (!(await removeAlertRule(domain, env))) {
+    throw new HttpError(404, "Alert rule not found");
+  }
+  return new Response(null, { status: 204 });
+}
+
+// RFC 8460 HTTPS reporting: any 2xx tells the sender the report was delivered
+// POST /tlsrpt/:tenant stores the report for that tenant, POST /tlsrpt in the shared pool
+async function handleTLSRPTSubmission(
+  _url: URL,
+  params: Record<string, string>,
+  env: Env,
+  request: Request,
+): Promise<Response> {
+  const mediaType = (request.headers.get("Content-Type") ?? "").split(";")[0]?.trim().toLowerCase();
+  if (mediaType !== TLSRPT_GZIP_MEDIA_TYPE && mediaType !== TLSRPT_JSON_MEDIA_TYPE) {
+    throw new HttpError(
+      415,
+      `Content-Type must be ${TLSRPT_GZIP_MEDIA_TYPE} or ${TLSRPT_JSON_MEDIA_TYPE}`,
+    );
+  }
+
+  // Rate limiting per client, mirroring the per-sender limit on email
+  const client = request.headers.get("CF-Connecting-IP") ?? "unknown";
+  const rateLimit = await env.RATE_LIMIT.limit({ key: `https:${client}` });
+  if (!rateLimit.success) {
+    console.warn(`Rate limit exceeded for TLS-RPT submission from ${client}`);
+    throw new HttpError(429, "Rate limit exceeded");
+  }
+
+  let tenantId: string | null = null;
+  if (params["tenant"] !== undefined) {
+    const id = normalizeTenantId(params["tenant"]);
+    const tenant = id === null ? null : await getTenant(id, env);
+    if (tenant === null) {
+      throw new HttpError(404, "Unknown tenant");
+    }
+    tenantId = tenant.id;
+  }
+
+  if (parseInt(request.headers.get("Content-Length") ?? "0") > MAX_TLSRPT_BODY_BYTES) {
+    throw new HttpError(413, "Report too large");
+  }
+  const body = new Uint8Array(await request.arrayBuffer());
+  if (body.byteLength > MAX_TLSRPT_BODY_BYTES) {
+    throw new HttpError(413, "Report too large");
+  }
+
+  let content: string;
+  try {
+    content = decodeTLSRPTBody(mediaType, body);
+  } catch {
+    throw new HttpError(400, "Body is not valid gzip");
+  }
+  const report = parseTLSReport(content);
+  if (report === null) {
+    throw new HttpError(400, "Body is not a valid TLS-RPT report");
+  }
+
+  const { report: managed, unsolicited } = filterTLSReport(report, await loadDomainCheck(env));
+  if (managed === null) {
+    console.warn(`Rejecting unsolicited TLS-RPT submission for ${unsolicited.join(", ")}`);
+    throw new HttpError(403, "Report is for a domain this worker does not manage");
+  }
+  await storeTLSReport(managed, env, { tenantId });
+  return json({ reportId: managed["report-id"] }, 201);
+}
+
+// JSON bodies may carry numbers where query strings carry text
+function bodyParam(body: Record<string, unknown>, name: string): string | null {
+  const value = body[name];
+  if (typeof value === "number") {
+    return String(value);
+  }
+  return typeof value === "string" ? value : null;
+}
+
+async function handleReplay(
+  _url: URL,
+  _params: Record<string, string>,
+  env: Env,
+  request: Request,
+): Promise<Response> {
+  const body = await readJSON(request);
+
+  const key = bodyParam(body, "key");
+  if (key !== null) {
+    if (!key.startsWith(ARCHIVE_PREFIX)) {
+      throw new HttpError(400, `key must start with ${ARCHIVE_PREFIX}`);
+    }
+    const item = await replayKey(key, env);
+    if (item === null) {
+      throw new HttpError(404, "Archived email not found");
+    }
+    return json({ items: [item] });
+  }
+
+  const prefix = bodyParam(body, "prefix") ?? ARCHIVE_PREFIX;
+  if (!prefix.startsWith(ARCHIVE_PREFIX)) {
+    throw new HttpError(400, `prefix must start with ${ARCHIVE_PREFIX}`);
+  }
+  const selection: ReplaySelection = {
+    prefix,
+    from: parseTimestamp(bodyParam(body, "from"), "from"),
+    to: parseTimestamp(bodyParam(body, "to"), "to"),
+  };
+
+  if (body["background"] === true) {
+    return json({ job: await createReplayJob(selection, env) }, 202);
+  }
+
+  const limit = parseCount(
+    bodyParam(body, "limit"),
+    "limit",
+    DEFAULT_REPLAY_LIMIT,
+    MAX_REPLAY_LIMIT,
+  );
+  const cursor = bodyParam(body, "cursor") ?? undefined;
+  return json(await replayBatch(selection, limit, cursor, env));
+}
+
+async function handleGetReplayJob(
+  _url: URL,
+  params: Record<string, string>,
+  env: Env,
+): Promise<Response> {
+  const job = await getReplayJob(parseInt(params["id"] ?? ""), env);
+  if (job === null) {
+    throw new HttpError(404, "Replay job not found");
+  }
+  return json({ job });
+}
+
+const ROUTES: Route[] = [
+  { method: "POST", pattern: /^\/tlsrpt\/?$/, handler: handleTLSRPTSubmission, anonymous: true },
+  {
+    method: "POST",
+    pattern: /^\/tlsrpt\/(?<tenant>[^/]+)$/,
+    handler: handleTLSRPTSubmission,
+    anonymous: true,
+  },
+  {
+    method: "GET",
+    pattern: /^\/reports\/?$/,
+    handler: handleListReports,
+    tenantScoped: true,
+  },
+  {
+    method: "GET",
+    pattern: /^\/reports\/(?<id>[^/]+)$/,
+    handler: handleGetReportById,
+    tenantScoped: true,
+  },
+  {
+    method: "GET",
+    pattern: /^\/reports\/(?<org>[^/]+)\/(?<domain>[^/]+)\/(?<id>[^/]+)$/,
+    handler: handleGetReport,
+    tenantScoped: true,
+  },
+  {
+    method: "GET",
+    pattern: /^\/tls-reports\/?$/,
+    handler: handleListTLSReports,
+    tenantScoped: true,
+  },
+  {
+    method: "GET",
+    pattern: /^\/tls-failures\/?$/,
+    handler: handleListTLSFailures,
+    tenantScoped: true,
+  },
+  {
+    method: "GET",
+    pattern: /^\/failure-reports\/?$/,
+    handler: handleListFailureReports,
+    tenantScoped: true,
+  },
+  {
+    method: "GET",
+    pattern: /^\/domains\/(?<domain>[^/]+)\/summary$/,
+    handler: handleDomainSummary,
+    tenantScoped: true,
+  },
+  {
+    method: "GET",
+    pattern: /^\/domains\/(?<domain>[^/]+)\/policy-history$/,
+    handler: handlePolicyHistory,
+    tenantScoped: true,
+  },
+  {
+    method: "GET",
+    pattern: /^\/domains\/(?<domain>[^/]+)\/readiness$/,
+    handler: handleReadiness,
+    tenantScoped: true,
+  },
+  {
+    method: "GET",
+    pattern: /^\/domains\/(?<domain>[^/]+)\/coverage$/,
+    handler: handleCoverage,
+    tenantScoped: true,
+  },
+  {
+    method: "GET",
+    pattern: /^\/domains\/(?<domain>[^/]+)\/senders$/,
+    handler: handleSenderInventory,
+    tenantScoped: true,
+  },
+  {
+    method: "GET",
+    pattern: /^\/domains\/(?<domain>[^/]+)\/senders\/new$/,
+    handler: handleNewSenders,
+  },
+  { method: "GET", pattern: /^\/ingest-log\/?$/, handler: handleIngestLog },
+  { method: "GET", pattern: /^\/alerts\/?$/, handler: handleListAlerts },
+  {
+    method: "GET",
+    pattern: /^\/dashboard\/?$/,
+    handler: handleDashboard,
+    tenantScoped: true,
+    challenge: 'Basic realm="DMARC dashboard", charset="UTF-8"',
+  },
+  {
+    method: "GET",
+    pattern: /^\/admin\/trusted-reporters\/?$/,
+    handler: handleListTrustedReporters,
+    admin: true,
+  },
+  {
+    method: "POST",
+    pattern: /^\/admin\/trusted-reporters\/?$/,
+    handler: handleAddTrustedReporter,
+    admin: true,
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/admin\/trusted-reporters\/(?<domain>[^/]+)$/,
+    handler: handleRemoveTrustedReporter,
+    admin: true,
+  },
+  {
+    method: "GET",
+    pattern: /^\/admin\/managed-domains\/?$/,
+    handler: handleListManagedDomains,
+    admin: true,
+  },
+  {
+    method: "POST",
+    pattern: /^\/admin\/managed-domains\/?$/,
+    handler: handleAddManagedDomain,
+    admin: true,
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/admin\/managed-domains\/(?<domain>[^/]+)$/,
+    handler: handleRemoveManagedDomain,
+    admin: true,
+  },
+  {
+    method: "GET",
+    pattern: /^\/admin\/sending-services\/?$/,
+    handler: handleListSendingServices,
+    admin: true,
+  },
+  {
+    method: "POST",
+    pattern: /^\/admin\/sending-services\/?$/,
+    handler: handleAddSendingService,
+    admin: true,
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/admin\/sending-services\/(?<id>\d+)$/,
+    handler: handleRemoveSendingService,
+    admin: true,
+  },
+  { method: "GET", pattern: /^\/admin\/digests\/?$/, handler: handleListDigests, admin: true },
+  {
+    method: "PUT",
+    pattern: /^\/admin\/digests\/(?<domain>[^/]+)$/,
+    handler: handlePutDigest,
+    admin: true,
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/admin\/digests\/(?<domain>[^/]+)$/,
+    handler: handleRemoveDigest,
+    admin: true,
+  },
+  {
+    method: "GET",
+    pattern: /^\/admin\/alert-rules\/?$/,
+    handler: handleListAlertRules,
+    admin: true,
+  },
+  {
+    method: "PUT",
+    pattern: /^\/admin\/alert-rules\/(?<domain>[^/]+)$/,
+    handler: handlePutAlertRule,
+    admin: true,
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/admin\/alert-rules\/(?<domain>[^/]+)$/,
+    handler: handleRemoveAlertRule,
+    admin: true,
+  },
+  { method: "GET", pattern: /^\/admin\/tenants\/?$/, handler: handleListTenants, admin: true },
+  {
+    method: "PUT",
+    pattern: /^\/admin\/tenants\/(?<id>[^/]+)$/,
+    handler: handlePutTenant,
+    admin: true,
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/admin\/tenants\/(?<id>[^/]+)$/,
+    handler: handleRemoveTenant,
+    admin: true,
+  },
+  {
+    method: "POST",
+    pattern: /^\/admin\/tenants\/(?<id>[^/]+)\/api-key$/,
+    handler: handleIssueTenantApiKey,
+    admin: true,
+  },
+  { method: "POST", pattern: /^\/admin\/replay\/?$/, handler: handleReplay, admin: true },
+  {
+    method: "GET",
+    pattern: /^\/admin\/replay\/(?<id>\d+)$/,
+    handler: handleGetReplayJob,
+    admin: true,
+  },
+];
+
+function bearerToken(header: string): string | undefined {
+  return header.match(/^Bearer\s+(.+)$/i)?.[1];
+}
+
+// Basic credentials carry the API token as the password; the username is ignored
+function basicPassword(header: string): string | undefined {
+  const encoded = header.match(/^Basic\s+(.+)$/i)?.[1];
+  if (encoded === undefined) {
+    return undefined;
+  }
+  try {
+    const decoded = atob(encoded);
+    const separator = decoded.indexOf(":");
+    return separator === -1 ? undefined : decoded.slice(separator + 1);
+  } catch {
+    return undefined;
+  }
+}
+
+function presentedToken(request: Request): string | undefined {
+  const header = request.headers.get("Authorization") ?? "";
+  return bearerToken(header) ?? basicPassword(header);
+}
+
+async function isAuthorized(request: Request, expectedToken: string | undefined): Promise<boolean> {
+  // Fail closed: without a configured token the route stays locked
+  if (expectedToken === undefined || expectedToken === "") {
+    return false;
+  }
+  const token = presentedToken(request);
+  if (token === undefined) {
+    return false;
+  }
+
+  // Compare digests so the comparison is constant-time regardless of token length
+  const encoder = new TextEncoder();
+  const [given, expected] = await Promise.all([
+    crypto.subtle.digest("SHA-256", encoder.encode(token)),
+    crypto.subtle.digest("SHA-256", encoder.encode(expectedToken)),
+  ]);
+  return crypto.subtle.timingSafeEqual(given, expected);
+}
+
+// The tenant whose API key the request carries; lookups are by digest, so timing reveals nothing
+async function authorizedTenant(request: Request, env: Env): Promise<string | undefined> {
+  const token = presentedToken(request);
+  if (token === undefined) {
+    return undefined;
+  }
+  try {
+    return (await findTenantByApiKey(token, env)) ?? undefined;
+  } catch (e) {
+    console.error("Tenant API key lookup failed:", e);
+    return undefined;
+  }
+}
+
+export async function handleRequest(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+
+  let matched: { route: Route; params: Record<string, string> } | undefined;
+  let methodMismatch = false;
+  for (const route of ROUTES) {
+    const match = url.pathname.match(route.pattern);
+    if (match === null) {
+      continue;
+    }
+    if (route.method !== request.method) {
+      methodMismatch = true;
+      continue;
+    }
+    let params: Record<string, string>;
+    try {
+      params = Object.fromEntries(
+        Object.entries(match.groups ?? {}).map(([key, value]) => [key, decodeURIComponent(value)]),
+      );
+    } catch (e) {
+      // A malformed percent-escape in the path is the client's fault
+      if (e instanceof URIError) {
+        return json({ error: "Malformed URL path" }, 400);
+      }
+      throw e;
+    }
+    matched = { route, params };
+    break;
+  }
+
+  if (matched === undefined) {
+    return methodMismatch
+      ? json({ error: "Method not allowed" }, 405)
+      : json({ error: "Not found" }, 404);
+  }
+
+  const { route } = matched;
+  const expectedToken = route.admin === true ? env.ADMIN_TOKEN : env.API_TOKEN;
+  let tenantId: string | undefined;
+  if (route.anonymous !== true && !(await isAuthorized(request, expectedToken))) {
+    tenantId = route.admin === true ? undefined : await authorizedTenant(request, env);
+    if (tenantId === undefined) {
+      return json({ error: "Unauthorized" }, 401, {
+        "WWW-Authenticate": route.challenge ?? "Bearer",
+      });
+    }
+    if (route.tenantScoped !== true) {
+      return json({ error: "Tenant API keys cannot use this route" }, 403);
+    }
+  }
+
+  try {
+    return await route.handler(url, matched.params, env, request, tenantId);
+  } catch (e) {
+    if (e instanceof HttpError) {
+      return json({ error: e.message }, e.status);
+    }
+    console.error(`API request failed: ${request.method} ${url.pathname}`, e);
+    return json({ error: "Internal server error" }, 500);
+  }
+}
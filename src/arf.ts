@@ -0,0 +1,228 @@
+import type { FailureReport } from "./types";
+
+// RFC 6591 failure reports arrive as multipart/report with these parts
+const FEEDBACK_REPORT_MEDIA_TYPE = "message/feedback-report";
+const ORIGINAL_HEADERS_MEDIA_TYPES = new Set(["text/rfc822-headers", "message/rfc822"]);
+
+// Original message headers carrying recipients, masked when redacting
+const RECIPIENT_HEADERS = new Set(["to", "cc", "bcc", "delivered-to", "x-original-to"]);
+const REDACTED = "redacted";
+
+interface MimePart {
+  mimeType: string;
+  content: ArrayBuffer | string;
+}
+
+function partText(part: MimePart): string {
+  return typeof part.content === "string" ? part.content : new TextDecoder().decode(part.content);
+}
+
+// Header block up to the first empty line, with folded lines joined
+function headerLines(block: string): string[] {
+  const [head = ""] = block.replace(/\r\n/g, "\n").split(/\n\n/, 1);
+  return head
+    .replace(/\n[ \t]+/g, " ")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+}
+
+// Field names lowercased; repeated fields keep every value in order
+function parseFields(block: string): Map<string, string[]> {
+  const fields = new Map<string, string[]>();
+  for (const line of headerLines(block)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) {
+      continue;
+    }
+    const name = line.slice(0, colon).trim().toLowerCase();
+    fields.set(name, [...(fields.get(name) ?? []), line.slice(colon + 1).trim()]);
+  }
+  return fields;
+}
+
+function stripAngles(value: string): string {
+  return value.replace(/^<(.*)>$/, "$1");
+}
+
+export function isFailureReportPart(mimeType: string): boolean {
+  const type = mimeType.toLowerCase();
+  return type === FEEDBACK_REPORT_MEDIA_TYPE || ORIGINAL_HEADERS_MEDIA_TYPES.has(type);
+}
+
+export function parseFailureReport(
+  feedbackReport: string,
+  originalHeaders: string | null,
+): FailureReport {
+  const fields = parseFields(feedbackReport);
+  const first = (name: string): string | null => fields.get(name)?.[0] ?? null;
+
+  const feedbackType = first("feedback-type");
+  if (feedbackType === null) {
+    throw new Error("Invalid failure report: missing Feedback-Type");
+  }
+  const arrivalDate = Date.parse(first("arrival-date") ?? "");
+  const incidents = parseInt(first("incidents") ?? "1");
+  const mailFrom = first("original-mail-from");
+
+  return {
+    feedbackType: feedbackType.toLowerCase(),
+    userAgent: first("user-agent"),
+    version: first("version"),
+    authFailure: first("auth-failure")?.toLowerCase() ?? null,
+    sourceIp: first("source-ip"),
+    reportedDomain: first("reported-domain")?.toLowerCase() ?? null,
+    originalMailFrom: mailFrom === null ? null : stripAngles(mailFrom),
+    originalRcptTo: (fields.get("original-rcpt-to") ?? []).map(stripAngles),
+    arrivalDate: Number.isNaN(arrivalDate) ? null : Math.floor(arrivalDate / 1000),
+    deliveryResult: first("delivery-result")?.toLowerCase() ?? null,
+    identityAlignment: first("identity-alignment")?.toLowerCase() ?? null,
+    dkimDomain: first("dkim-domain"),
+    dkimIdentity: first("dkim-identity"),
+    dkimSelector: first("dkim-selector"),
+    spfDns: first("spf-dns"),
+    incidents: Number.isNaN(incidents) || incidents < 1 ? 1 : incidents,
+    originalHeaders: originalHeaders === null ? null : headerLines(originalHeaders).join("\n"),
+    redacted: false,
+  };
+}
+
+/**
+ * Finds the RFC 6591 feedback report among an email's MIME parts.
+ * Returns null when the email is not a failure report; throws when its report part is invalid.
+ */
+export function extractFailureReport(parts: MimePart[]): FailureReport | null {
+  const feedback = parts.find((part) => part.mimeType.toLowerCase() === FEEDBACK_REPORT_MEDIA_TYPE);
+  if (feedback === undefined) {
+    return null;
+  }
+  const original = parts.find((part) =>
+    ORIGINAL_HEADERS_MEDIA_TYPES.has(part.mimeType.toLowerCase()),
+  );
+  return parseFailureReport(partText(feedback), original === undefined ? null : partText(original));
+}
+
+function redactAddresses(value: string): string {
+  return value.replace(/[^\s<>"',;:@]+@([^\s<>"',;]+)/g, `${REDACTED}@$1`);
+}
+
+// Masks recipient local parts and the subject, keeping sending identities for investigation
+export function redactFailureReport(report: FailureReport): FailureReport {
+  const originalHeaders =
+    report.originalHeaders
+      ?.split("\n")
+      .map((line) => {
+        const name = line.slice(0, line.indexOf(":")).trim().toLowerCase();
+        if (name === "subject") {
+          return `${line.slice(0, line.indexOf(":"))}: [${REDACTED}]`;
+        }
+        return RECIPIENT_HEADERS.has(name) ? redactAddresses(line) : line;
+      })
+      .join("\n") ?? null;
+
+  return {
+    ...report,
+    originalRcptTo: report.originalRcptTo.map(redactAddresses),
+    originalHeaders,
+    redacted: true,
+  };
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const FEEDBACK_REPORT = [
+    "Feedback-Type: auth-failure",
+    "User-Agent: Reporter/1.0",
+    "Version: 1",
+    "Auth-Failure: dmarc",
+    "Identity-Alignment: dkim,spf",
+    "Source-IP: 198.51.100.7",
+    "Reported-Domain: Example.com",
+    "Original-Mail-From: <bounce@spoof.test>",
+    "Original-Rcpt-To: <alice@example.org>",
+    "Original-Rcpt-To: bob@example.org",
+    "Arrival-Date: Mon, 01 Jan 2024 10:00:00 +0000",
+    "Delivery-Result: reject",
+    "DKIM-Domain: spoof.test",
+    "DKIM-Selector: s1",
+    "SPF-DNS: txt : spoof.test : v=spf1",
+    "  -all",
+    "",
+  ].join("\r\n");
+
+  const ORIGINAL_HEADERS = [
+    "From: CEO <ceo@example.com>",
+    "To: Alice <alice@example.org>, bob@example.org",
+    "Subject: Urgent wire",
+    " transfer",
+    "Message-ID: <abc@spoof.test>",
+    "",
+    "Body that must not be kept",
+  ].join("\r\n");
+
+  describe("extractFailureReport", () => {
+    it("parses the feedback report and the original headers", async () => {
+      const report = extractFailureReport([
+        {
+          mimeType: "message/feedback-report",
+          content: await new Blob([FEEDBACK_REPORT]).arrayBuffer(),
+        },
+        { mimeType: "message/rfc822", content: ORIGINAL_HEADERS },
+      ]);
+
+      expect(report).toEqual({
+        feedbackType: "auth-failure",
+        userAgent: "Reporter/1.0",
+        version: "1",
+        authFailure: "dmarc",
+        sourceIp: "198.51.100.7",
+        reportedDomain: "example.com",
+        originalMailFrom: "bounce@spoof.test",
+        originalRcptTo: ["alice@example.org", "bob@example.org"],
+        arrivalDate: 1704103200,
+        deliveryResult: "reject",
+        identityAlignment: "dkim,spf",
+        dkimDomain: "spoof.test",
+        dkimIdentity: null,
+        dkimSelector: "s1",
+        spfDns: "txt : spoof.test : v=spf1 -all",
+        incidents: 1,
+        originalHeaders: [
+          "From: CEO <ceo@example.com>",
+          "To: Alice <alice@example.org>, bob@example.org",
+          "Subject: Urgent wire transfer",
+          "Message-ID: <abc@spoof.test>",
+        ].join("\n"),
+        redacted: false,
+      });
+    });
+
+    it("ignores emails without a feedback report part", () => {
+      expect(extractFailureReport([{ mimeType: "application/gzip", content: "" }])).toBeNull();
+    });
+
+    it("rejects feedback reports without a Feedback-Type", () => {
+      expect(() =>
+        extractFailureReport([{ mimeType: "message/feedback-report", content: "Version: 1\r\n" }]),
+      ).toThrow("missing Feedback-Type");
+    });
+  });
+
+  describe("redactFailureReport", () => {
+    it("masks recipients and the subject but keeps sending identities", () => {
+      const report = redactFailureReport(parseFailureReport(FEEDBACK_REPORT, ORIGINAL_HEADERS));
+
+      expect(report.redacted).toBe(true);
+      expect(report.originalRcptTo).toEqual(["redacted@example.org", "redacted@example.org"]);
+      expect(report.originalMailFrom).toBe("bounce@spoof.test");
+      expect(report.originalHeaders).toBe(
+        [
+          "From: CEO <ceo@example.com>",
+          "To: Alice <redacted@example.org>, redacted@example.org",
+          "Subject: [redacted]",
+          "Message-ID: <abc@spoof.test>",
+        ].join("\n"),
+      );
+    });
+  });
+}
@@ -0,0 +1,145 @@
+import { gzip, ungzip } from "pako";
+import { unzip } from "unzipit";
+
+export interface ExtractedReport {
+  type: "dmarc" | "tlsrpt" | "unknown";
+  content: string;
+}
+
+const ZIP_MIME_TYPES = new Set([
+  "application/zip",
+  "application/x-zip",
+  "application/x-zip-compressed",
+]);
+
+// Local file header signature "PK\x03\x04"
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04];
+
+const REPORT_ENTRY_PATTERN = /\.(xml|json)(\.gz)?$/i;
+
+// <feedback> root, also with attributes or a namespace prefix (DMARCbis)
+const FEEDBACK_ROOT_PATTERN = /<(?:[\w.-]+:)?feedback[\s>]/;
+
+function isZip(raw: Uint8Array, mimeType?: string): boolean {
+  if (ZIP_MAGIC.every((byte, i) => raw[i] === byte)) {
+    return true;
+  }
+  return mimeType !== undefined && ZIP_MIME_TYPES.has(mimeType.toLowerCase());
+}
+
+// Optimized: Single decompression + detection
+function detectAndDecompress(raw: Uint8Array): ExtractedReport {
+  let content: string;
+
+  try {
+    const decompressed = ungzip(raw);
+    content = new TextDecoder().decode(decompressed);
+  } catch {
+    content = new TextDecoder().decode(raw);
+  }
+
+  if (FEEDBACK_ROOT_PATTERN.test(content) || content.includes("<?xml")) {
+    return { type: "dmarc", content };
+  }
+  if (content.includes('"organization-name"')) {
+    return { type: "tlsrpt", content };
+  }
+
+  return { type: "unknown", content };
+}
+
+async function extractZipEntries(raw: Uint8Array): Promise<ExtractedReport[]> {
+  const { entries } = await unzip(raw);
+  const reports: ExtractedReport[] = [];
+
+  for (const entry of Object.values(entries)) {
+    if (entry.isDirectory || !REPORT_ENTRY_PATTERN.test(entry.name)) {
+      continue;
+    }
+    reports.push(detectAndDecompress(new Uint8Array(await entry.arrayBuffer())));
+  }
+
+  return reports;
+}
+
+/**
+ * Decompresses an attachment (gzip, ZIP or plain) and classifies each report inside it.
+ * ZIP archives may carry several reports, so this always returns a list.
+ */
+export async function extractReports(attachment: {
+  mimeType?: string;
+  content: ArrayBuffer | string;
+}): Promise<ExtractedReport[]> {
+  const raw =
+    typeof attachment.content === "string"
+      ? new TextEncoder().encode(attachment.content)
+      : new Uint8Array(attachment.content);
+
+  if (isZip(raw, attachment.mimeType)) {
+    try {
+      return await extractZipEntries(raw);
+    } catch (e) {
+      console.warn("ZIP extraction failed, treating attachment as gzip/plain:", e);
+    }
+  }
+
+  return [detectAndDecompress(raw)];
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  // Deflated ZIP holding an aggregate report XML, a TLS-RPT JSON and a README.txt
+  const ZIP_BASE64 =
+    "UEsDBBQAAAAIALeWU11EJeUvRAAAAGgAAAAwAAAAZ29vZ2xlLmNvbSFleGFtcGxlLmNvbSExNzA0MDY3MjAwITE3MDQxNTM1OTkueG1ss7GvyM1RKEstKs7Mz7NVMtQzULK3s0lLTU1JSkzOtrMpSi3ILyqJz00tSUxJLEmEC2Sm2FVlFhja6CP4cDZCsT7cIABQSwMEFAAAAAgAt5ZTXSHrW2cxAAAAMwAAAAgAAAB0bHMuanNvbqtWyi9KT8zLrEosyczP081LzE1VslKqyizQK0ktLlHSUSpKLcgvKtHNTIEIGynVAgBQSwMEFAAAAAgAt5ZTXU5B1NYJAAAABwAAAAoAAABSRUFETUUudHh0y0zPyy9KTQEAUEsBAhQDFAAAAAgAt5ZTXUQl5S9EAAAAaAAAADAAAAAAAAAAAAAAAIABAAAAAGdvb2dsZS5jb20hZXhhbXBsZS5jb20hMTcwNDA2NzIwMCExNzA0MTUzNTk5LnhtbFBLAQIUAxQAAAAIALeWU10h61tnMQAAADMAAAAIAAAAAAAAAAAAAACAAZIAAAB0bHMuanNvblBLAQIUAxQAAAAIALeWU11OQdTWCQAAAAcAAAAKAAAAAAAAAAAAAACAAekAAABSRUFETUUudHh0UEsFBgAAAAADAAMAzAAAABoBAAAAAA==";
+
+  function base64ToArrayBuffer(base64: string): ArrayBuffer {
+    return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0)).buffer;
+  }
+
+  describe("extractReports", () => {
+    it("extracts every XML/JSON entry from a ZIP attachment", async () => {
+      const reports = await extractReports({
+        mimeType: "application/octet-stream",
+        content: base64ToArrayBuffer(ZIP_BASE64),
+      });
+
+      expect(reports.map((r) => r.type)).toEqual(["dmarc", "tlsrpt"]);
+      expect(reports[0]?.content).toContain("<report_id>zip1</report_id>");
+      expect(reports[1]?.content).toContain('"report-id":"zip2"');
+    });
+
+    it("decompresses gzip attachments", async () => {
+      const xml = '<?xml version="1.0"?><feedback></feedback>';
+      const gzipped = gzip(xml);
+
+      const reports = await extractReports({
+        mimeType: "application/gzip",
+        content: gzipped.buffer.slice(gzipped.byteOffset, gzipped.byteOffset + gzipped.byteLength),
+      });
+
+      expect(reports).toEqual([{ type: "dmarc", content: xml }]);
+    });
+
+    it("recognises namespaced DMARCbis reports without an XML declaration", async () => {
+      const xml =
+        '<dmarc:feedback xmlns:dmarc="urn:ietf:params:xml:ns:dmarc-2.0"></dmarc:feedback>';
+
+      expect(await extractReports({ content: xml })).toEqual([{ type: "dmarc", content: xml }]);
+    });
+
+    it("falls back to plain content when a ZIP MIME type has no archive", async () => {
+      const json = '{"organization-name":"plain.test"}';
+
+      const reports = await extractReports({ mimeType: "application/zip", content: json });
+
+      expect(reports).toEqual([{ type: "tlsrpt", content: json }]);
+    });
+
+    it("classifies unrecognised content as unknown", async () => {
+      const reports = await extractReports({ content: "hello" });
+
+      expect(reports).toEqual([{ type: "unknown", content: "hello" }]);
+    });
+  });
+}
@@ -0,0 +1,214 @@
+import { listReportWindows } from "./queries";
+import type { CoverageIssue, DomainCoverage, Env, ReportWindow, ReporterCoverage } from "./types";
+
+// Reporters with a report in this window are expected to keep reporting
+export const COVERAGE_WINDOW_DAYS = 30;
+
+// Reports arrive some hours after their date range closes, so silence only counts after this
+export const DEFAULT_GRACE_HOURS = 24;
+
+// Reporters' date ranges drift by seconds to minutes; boundaries this close count as contiguous
+const BOUNDARY_SLACK_SECONDS = 3600;
+
+function cadence(windows: ReportWindow[]): number {
+  const spans = windows
+    .map((window) => Math.max(1, Math.round((window.endDate - window.beginDate) / 3600)) * 3600)
+    .sort((a, b) => a - b);
+  return spans[Math.floor(spans.length / 2)] ?? 86400;
+}
+
+// `windows` holds one reporter's reports, sorted by begin and end date
+function reporterCoverage(
+  windows: [ReportWindow, ...ReportWindow[]],
+  now: number,
+  graceSeconds: number,
+): ReporterCoverage {
+  const [first, ...rest] = windows;
+  const issues: CoverageIssue[] = [];
+  let previous = first;
+  // The report reaching furthest so far: a short report inside a long one must not open a gap
+  let covering = first;
+
+  for (const window of rest) {
+    if (window.beginDate === previous.beginDate && window.endDate === previous.endDate) {
+      issues.push({
+        kind: "duplicate",
+        from: window.beginDate,
+        to: window.endDate,
+        reportIds: [previous.reportId, window.reportId],
+      });
+    } else if (window.beginDate > covering.endDate + BOUNDARY_SLACK_SECONDS) {
+      issues.push({
+        kind: "gap",
+        from: covering.endDate,
+        to: window.beginDate,
+        reportIds: [covering.reportId, window.reportId],
+      });
+    } else if (window.beginDate < covering.endDate - BOUNDARY_SLACK_SECONDS) {
+      issues.push({
+        kind: "overlap",
+        from: window.beginDate,
+        to: Math.min(window.endDate, covering.endDate),
+        reportIds: [covering.reportId, window.reportId],
+      });
+    }
+    if (window.endDate > covering.endDate) {
+      covering = window;
+    }
+    previous = window;
+  }
+
+  const cadenceSeconds = cadence(windows);
+  const silentSeconds = Math.max(0, now - covering.endDate);
+  return {
+    orgName: first.orgName,
+    reports: windows.length,
+    firstBegin: first.beginDate,
+    lastEnd: covering.endDate,
+    lastReportId: covering.reportId,
+    cadenceSeconds,
+    silentSeconds,
+    overdue: silentSeconds > cadenceSeconds + graceSeconds,
+    issues,
+  };
+}
+
+/**
+ * Groups the window's reports by reporter and checks each one's date ranges for gaps,
+ * overlaps and duplicates. A reporter is overdue once `to` is more than one cadence plus
+ * the grace past the end of its last report.
+ */
+export function assessCoverage(
+  domain: string,
+  from: number,
+  to: number,
+  windows: ReportWindow[],
+  graceSeconds: number,
+): DomainCoverage {
+  const byReporter = new Map<string, [ReportWindow, ...ReportWindow[]]>();
+  for (const window of [...windows].sort(
+    (a, b) =>
+      a.orgName.localeCompare(b.orgName) || a.beginDate - b.beginDate || a.endDate - b.endDate,
+  )) {
+    const reports = byReporter.get(window.orgName);
+    if (reports === undefined) {
+      byReporter.set(window.orgName, [window]);
+    } else {
+      reports.push(window);
+    }
+  }
+
+  return {
+    domain,
+    from,
+    to,
+    reporters: [...byReporter.values()].map((reports) =>
+      reporterCoverage(reports, to, graceSeconds),
+    ),
+  };
+}
+
+// Coverage over the window of COVERAGE_WINDOW_DAYS ending at `to`
+export async function getCoverage(
+  domain: string,
+  to: number,
+  env: Env,
+  days = COVERAGE_WINDOW_DAYS,
+  graceHours = DEFAULT_GRACE_HOURS,
+  tenantId?: string,
+): Promise<DomainCoverage> {
+  const from = to - days * 86400;
+  const windows = await listReportWindows(domain, from, to, env, tenantId);
+  return assessCoverage(domain, from, to, windows, graceHours * 3600);
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const DAY = 86400;
+  const START = 1704067200;
+
+  // A daily report covering `day` days after START, ending a second before midnight
+  const daily = (orgName: string, reportId: string, day: number): ReportWindow => ({
+    orgName,
+    reportId,
+    beginDate: START + day * DAY,
+    endDate: START + (day + 1) * DAY - 1,
+  });
+
+  describe("assessCoverage", () => {
+    it("infers a daily cadence and finds nothing wrong with contiguous reports", () => {
+      const coverage = assessCoverage(
+        "example.com",
+        START,
+        START + 4 * DAY,
+        [daily("google.com", "g3", 2), daily("google.com", "g1", 0), daily("google.com", "g2", 1)],
+        DAY,
+      );
+
+      expect(coverage.reporters).toEqual([
+        {
+          orgName: "google.com",
+          reports: 3,
+          firstBegin: START,
+          lastEnd: START + 3 * DAY - 1,
+          lastReportId: "g3",
+          cadenceSeconds: DAY,
+          silentSeconds: DAY + 1,
+          overdue: false,
+          issues: [],
+        },
+      ]);
+    });
+
+    it("flags a reporter once a cadence plus the grace has passed", () => {
+      const windows = [daily("yahoo.com", "y1", 0)];
+      const at = (days: number): boolean =>
+        assessCoverage("example.com", START, START + days * DAY, windows, DAY).reporters[0]
+          ?.overdue ?? false;
+
+      expect(at(2.5)).toBe(false);
+      expect(at(3)).toBe(true);
+    });
+
+    it("reports gaps, overlaps and duplicate date ranges", () => {
+      const coverage = assessCoverage(
+        "example.com",
+        START,
+        START + 6 * DAY,
+        [
+          daily("microsoft.com", "m1", 0),
+          daily("microsoft.com", "m1-resent", 0),
+          // Drifts a few minutes past the previous report without overlapping it
+          { ...daily("microsoft.com", "m2", 1), beginDate: START + DAY + 300 },
+          daily("microsoft.com", "m4", 3),
+          // Spans two days, the first already covered by m4
+          { ...daily("microsoft.com", "m4-5", 3), endDate: START + 5 * DAY - 1 },
+        ],
+        DAY,
+      );
+
+      expect(coverage.reporters[0]?.issues).toEqual([
+        {
+          kind: "duplicate",
+          from: START,
+          to: START + DAY - 1,
+          reportIds: ["m1", "m1-resent"],
+        },
+        {
+          kind: "gap",
+          from: START + 2 * DAY - 1,
+          to: START + 3 * DAY,
+          reportIds: ["m2", "m4"],
+        },
+        {
+          kind: "overlap",
+          from: START + 3 * DAY,
+          to: START + 4 * DAY - 1,
+          reportIds: ["m4", "m4-5"],
+        },
+      ]);
+      expect(coverage.reporters[0]).toMatchObject({ lastReportId: "m4-5", cadenceSeconds: DAY });
+    });
+  });
+}
@@ -0,0 +1,226 @@
+import type { DashboardData } from "./types";
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 140;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatRate(pass: number, total: number): string {
+  return total === 0 ? "–" : `${((pass / total) * 100).toFixed(1)}%`;
+}
+
+function formatDate(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toISOString().slice(0, 10);
+}
+
+// One SVG polyline per domain, y = daily DMARC pass rate
+function renderPassRateChart(days: DashboardData["dailyPassRates"]): string {
+  const step = days.length > 1 ? CHART_WIDTH / (days.length - 1) : 0;
+  const points = days.map((day, i) => {
+    const rate = day.messageCount === 0 ? 0 : day.dmarcPass / day.messageCount;
+    return `${(i * step).toFixed(1)},${((1 - rate) * CHART_HEIGHT).toFixed(1)}`;
+  });
+  const dots = days
+    .map((day, i) => {
+      const [x, y] = points[i]?.split(",") ?? ["0", "0"];
+      const title = `${day.day}: ${formatRate(day.dmarcPass, day.messageCount)} of ${day.messageCount}`;
+      return `<circle cx="${x}" cy="${y}" r="3"><title>${escapeHtml(title)}</title></circle>`;
+    })
+    .join("");
+
+  return `<svg viewBox="-4 -4 ${CHART_WIDTH + 8} ${CHART_HEIGHT + 8}" role="img" aria-label="Daily DMARC pass rate">
+  <line x1="0" y1="0" x2="${CHART_WIDTH}" y2="0" class="grid"/>
+  <line x1="0" y1="${CHART_HEIGHT / 2}" x2="${CHART_WIDTH}" y2="${CHART_HEIGHT / 2}" class="grid"/>
+  <line x1="0" y1="${CHART_HEIGHT}" x2="${CHART_WIDTH}" y2="${CHART_HEIGHT}" class="grid"/>
+  <polyline points="${points.join(" ")}"/>
+  ${dots}
+</svg>`;
+}
+
+function renderPassRates(data: DashboardData): string {
+  const byDomain = new Map<string, DashboardData["dailyPassRates"]>();
+  for (const day of data.dailyPassRates) {
+    byDomain.set(day.domain, [...(byDomain.get(day.domain) ?? []), day]);
+  }
+  if (byDomain.size === 0) {
+    return `<p class="empty">No DMARC reports in this period.</p>`;
+  }
+
+  return [...byDomain.entries()]
+    .map(([domain, days]) => {
+      const total = days.reduce((sum, day) => sum + day.messageCount, 0);
+      const pass = days.reduce((sum, day) => sum + day.dmarcPass, 0);
+      const first = days[0]?.day ?? "";
+      const last = days[days.length - 1]?.day ?? "";
+      return `<div class="domain">
+  <h3><a href="?domain=${encodeURIComponent(domain)}">${escapeHtml(domain)}</a>
+    <span>${formatRate(pass, total)} pass · ${total.toLocaleString("en-US")} messages</span></h3>
+  ${renderPassRateChart(days)}
+  <div class="axis"><span>${escapeHtml(first)}</span><span>${escapeHtml(last)}</span></div>
+</div>`;
+    })
+    .join("\n");
+}
+
+function renderTable(headers: string[], rows: string[][], empty: string): string {
+  if (rows.length === 0) {
+    return `<p class="empty">${escapeHtml(empty)}</p>`;
+  }
+  const head = headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("");
+  const body = rows
+    .map((row) => `<tr>${row.map((cell) => `<td>${cell}</td>`).join("")}</tr>`)
+    .join("\n");
+  return `<table><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+}
+
+function renderBar(value: number, max: number): string {
+  const width = max === 0 ? 0 : Math.round((value / max) * 100);
+  return `<div class="bar"><div style="width:${width}%"></div></div>`;
+}
+
+export function renderDashboard(data: DashboardData): string {
+  const maxFailing = Math.max(0, ...data.topFailingSources.map((s) => s.messageCount));
+  const maxTLS = Math.max(0, ...data.tlsFailureTypes.map((t) => t.failedSessions));
+  const days = Math.round((data.to - data.from) / 86400);
+  const scope = data.domain === undefined ? "all domains" : data.domain;
+
+  const failingSources = renderTable(
+    ["Source IP", "Domain", "Failing messages", "Reporters", ""],
+    data.topFailingSources.map((source) => [
+      `<code>${escapeHtml(source.sourceIp)}</code>`,
+      escapeHtml(source.domain),
+      source.messageCount.toLocaleString("en-US"),
+      String(source.reporters),
+      renderBar(source.messageCount, maxFailing),
+    ]),
+    "No messages failed both DKIM and SPF.",
+  );
+
+  const reporters = renderTable(
+    ["Reporter", "Reports", "Messages", "DMARC pass"],
+    data.reporters.map((reporter) => [
+      escapeHtml(reporter.orgName),
+      String(reporter.reports),
+      reporter.messageCount.toLocaleString("en-US"),
+      formatRate(reporter.dmarcPass, reporter.messageCount),
+    ]),
+    "No reporters in this period.",
+  );
+
+  const tlsFailures = renderTable(
+    ["Result type", "Failed sessions", ""],
+    data.tlsFailureTypes.map((failure) => [
+      `<code>${escapeHtml(failure.resultType)}</code>`,
+      failure.failedSessions.toLocaleString("en-US"),
+      renderBar(failure.failedSessions, maxTLS),
+    ]),
+    "No TLS-RPT failures reported.",
+  );
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>DMARC dashboard – ${escapeHtml(scope)}</title>
+<style>
+  body { font: 14px/1.4 system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 1rem; color: #1f2328; }
+  h1 { font-size: 1.4rem; margin-bottom: 0.2rem; }
+  h2 { font-size: 1.1rem; border-bottom: 1px solid #d0d7de; padding-bottom: 0.3rem; margin-top: 2rem; }
+  h3 { font-size: 1rem; display: flex; justify-content: space-between; margin: 1rem 0 0.3rem; }
+  h3 span, .meta, .axis, .empty { color: #656d76; font-weight: normal; }
+  form { margin: 0.5rem 0; }
+  svg { width: 100%; height: auto; }
+  svg polyline { fill: none; stroke: #1f883d; stroke-width: 2; }
+  svg circle { fill: #1f883d; }
+  svg .grid { stroke: #eaeef2; }
+  .axis { display: flex; justify-content: space-between; font-size: 12px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 0.3rem 0.5rem; border-bottom: 1px solid #eaeef2; }
+  .bar { background: #eaeef2; height: 8px; min-width: 120px; }
+  .bar div { background: #cf222e; height: 100%; }
+</style>
+</head>
+<body>
+<h1>DMARC dashboard</h1>
+<p class="meta">${escapeHtml(scope)} · ${formatDate(data.from)} to ${formatDate(data.to)}</p>
+<form method="get">
+  <input name="domain" placeholder="domain" value="${escapeHtml(data.domain ?? "")}">
+  <input name="days" type="number" min="1" max="365" value="${days}">
+  <button type="submit">Show</button>
+</form>
+<h2>DMARC pass rate</h2>
+${renderPassRates(data)}
+<h2>Top failing source IPs</h2>
+${failingSources}
+<h2>Reporters</h2>
+${reporters}
+<h2>TLS-RPT failure types</h2>
+${tlsFailures}
+</body>
+</html>
+`;
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const EMPTY: DashboardData = {
+    from: 1704067200,
+    to: 1706659200,
+    dailyPassRates: [],
+    topFailingSources: [],
+    reporters: [],
+    tlsFailureTypes: [],
+  };
+
+  describe("renderDashboard", () => {
+    it("renders empty states", () => {
+      const html = renderDashboard(EMPTY);
+
+      expect(html).toContain("No DMARC reports in this period.");
+      expect(html).toContain("2024-01-01 to 2024-01-31");
+      expect(html).toContain('value="30"');
+    });
+
+    it("renders pass rates, failing sources, reporters and TLS failures", () => {
+      const html = renderDashboard({
+        ...EMPTY,
+        dailyPassRates: [
+          { day: "2024-01-01", domain: "example.com", messageCount: 100, dmarcPass: 90 },
+          { day: "2024-01-02", domain: "example.com", messageCount: 100, dmarcPass: 100 },
+        ],
+        topFailingSources: [
+          { sourceIp: "203.0.113.5", domain: "example.com", messageCount: 10, reporters: 2 },
+        ],
+        reporters: [{ orgName: "google.com", reports: 2, messageCount: 200, dmarcPass: 190 }],
+        tlsFailureTypes: [{ resultType: "certificate-expired", failedSessions: 3 }],
+      });
+
+      expect(html).toContain("95.0% pass · 200 messages");
+      expect(html).toContain("<code>203.0.113.5</code>");
+      expect(html).toContain("<td>google.com</td>");
+      expect(html).toContain("<code>certificate-expired</code>");
+      expect(html).toContain('points="0.0,14.0 640.0,0.0"');
+    });
+
+    it("escapes reporter-controlled values", () => {
+      const html = renderDashboard({
+        ...EMPTY,
+        domain: '"><script>',
+        reporters: [{ orgName: "<img src=x>", reports: 1, messageCount: 1, dmarcPass: 1 }],
+      });
+
+      expect(html).not.toContain("<script>");
+      expect(html).not.toContain("<img");
+      expect(html).toContain("&lt;img src=x&gt;");
+    });
+  });
+}
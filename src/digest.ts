@@ -0,0 +1,415 @@
+import { sendTextEmail } from "./notify";
+import { getDashboardData, getDomainSummary, getNewReporters, parseStringList } from "./queries";
+import { getReadiness, READINESS_WINDOW_DAYS } from "./readiness";
+import { getSenderInventory } from "./senders";
+import type {
+  DigestCadence,
+  DigestData,
+  DigestSubscription,
+  DomainSummary,
+  Env,
+  PolicyReadiness,
+  SenderInventory,
+} from "./types";
+
+const DAY = 86400;
+const DIGEST_FAILING_SOURCES = 10;
+
+export function isDigestCadence(value: unknown): value is DigestCadence {
+  return value === "daily" || value === "weekly";
+}
+
+// Most recent complete period before `now`: the previous UTC day, or the previous Monday-to-Monday week
+export function digestPeriod(cadence: DigestCadence, now: Date): { from: number; to: number } {
+  const midnight = Math.floor(now.getTime() / 1000 / DAY) * DAY;
+  if (cadence === "daily") {
+    return { from: midnight - DAY, to: midnight };
+  }
+  const monday = midnight - ((now.getUTCDay() + 6) % 7) * DAY;
+  return { from: monday - 7 * DAY, to: monday };
+}
+
+// Period bounds are [from, to); report queries treat `to` as inclusive
+export async function buildDigest(
+  domain: string,
+  cadence: DigestCadence,
+  period: { from: number; to: number },
+  env: Env,
+): Promise<DigestData> {
+  const length = period.to - period.from;
+  const to = period.to - 1;
+  const [current, previous, dashboard, newReporters, readiness, senders] = await Promise.all([
+    getDomainSummary(domain, period.from, to, env),
+    getDomainSummary(domain, period.from - length, period.from - 1, env),
+    getDashboardData({ domain, from: period.from, to }, env),
+    getNewReporters(domain, period.from, to, env),
+    getReadiness(domain, to, env),
+    getSenderInventory(domain, period.from, to, env),
+  ]);
+
+  return {
+    domain,
+    cadence,
+    current,
+    previous,
+    topFailingSources: dashboard.topFailingSources.slice(0, DIGEST_FAILING_SOURCES),
+    newReporters,
+    tlsFailureTypes: dashboard.tlsFailureTypes,
+    readiness,
+    senders,
+  };
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString("en-US");
+}
+
+function formatDate(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toISOString().slice(0, 10);
+}
+
+function passRate(summary: DomainSummary): number | null {
+  return summary.messageCount === 0 ? null : (summary.dmarcPass / summary.messageCount) * 100;
+}
+
+function percent(part: number, whole: number): string {
+  return whole === 0 ? "–" : `${((part / whole) * 100).toFixed(1)}%`;
+}
+
+function readinessLines(readiness: PolicyReadiness): string[] {
+  const { currentPolicy, nextStep } = readiness;
+  const current =
+    currentPolicy === null
+      ? "no policy seen"
+      : `p=${currentPolicy.policyP}${currentPolicy.policyPct !== null && currentPolicy.policyPct < 100 ? ` pct=${currentPolicy.policyPct}` : ""}`;
+  const verdict =
+    nextStep === null
+      ? "nothing left to do"
+      : `${readiness.ready ? "ready for" : "not yet ready for"} ${nextStep}`;
+  return [
+    `  Current policy ${current}: ${verdict}`,
+    ...readiness.reasons.map((reason) => `  - ${reason}`),
+    ...readiness.blockingSenders.map(
+      (sender) =>
+        `  ${sender.sourceIp}  ${formatNumber(sender.unalignedMessages)} of ${formatNumber(sender.messageCount)} messages unaligned`,
+    ),
+  ];
+}
+
+function senderLines(senders: SenderInventory): string[] {
+  const unclassified = senders.unclassified.reduce((sum, source) => sum + source.messageCount, 0);
+  return [
+    ...senders.services.map(
+      (service) =>
+        `  ${service.service}  ${formatNumber(service.messageCount)} messages, ${percent(service.dmarcPass, service.messageCount)} pass`,
+    ),
+    senders.unclassified.length === 0
+      ? "  Unclassified  none"
+      : `  Unclassified  ${formatNumber(unclassified)} messages from ${senders.unclassified.length} sources`,
+  ];
+}
+
+function signed(value: number, digits: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(digits)}`;
+}
+
+export function renderDigest(
+  data: DigestData,
+  dashboardUrl: string,
+): { subject: string; text: string } {
+  const { current, previous } = data;
+  const unit = data.cadence === "daily" ? "day" : "week";
+  const rate = passRate(current);
+  const previousRate = passRate(previous);
+  const rateText = rate === null ? "–" : `${rate.toFixed(1)}%`;
+
+  const volumeChange =
+    previous.messageCount === 0
+      ? `no messages the previous ${unit}`
+      : `${signed(((current.messageCount - previous.messageCount) / previous.messageCount) * 100, 1)}% vs previous ${unit}`;
+  const rateChange =
+    rate === null || previousRate === null
+      ? `no comparison with the previous ${unit}`
+      : `${signed(rate - previousRate, 1)} pts vs previous ${unit}`;
+
+  const lines = [
+    `DMARC ${data.cadence} digest for ${data.domain}`,
+    `${formatDate(current.from)} to ${formatDate(current.to)}`,
+    "",
+    `Volume: ${formatNumber(current.messageCount)} messages in ${current.reports} reports from ${current.reporters} reporters (${volumeChange})`,
+    `DMARC pass rate: ${rateText} (${rateChange})`,
+    `Aligned pass rate: ${percent(current.dmarcAlignedPass, current.alignedMessageCount)} ` +
+      `(DKIM ${percent(current.dkimAlignedPass, current.alignedMessageCount)}, ` +
+      `SPF ${percent(current.spfAlignedPass, current.alignedMessageCount)})`,
+    `TLS sessions: ${formatNumber(current.tlsSuccessfulSessions)} successful, ${formatNumber(current.tlsFailedSessions)} failed`,
+    "",
+    "Top failing sources",
+    ...(data.topFailingSources.length === 0
+      ? ["  None: every message passed DKIM or SPF."]
+      : data.topFailingSources.map(
+          (source) =>
+            `  ${source.sourceIp}  ${formatNumber(source.messageCount)} messages (${source.reporters} reporters)`,
+        )),
+    "",
+    "Sending services",
+    ...senderLines(data.senders),
+    "",
+    "New reporters",
+    ...(data.newReporters.length === 0
+      ? ["  None."]
+      : data.newReporters.map((reporter) => `  ${reporter}`)),
+    "",
+    `Enforcement readiness (last ${READINESS_WINDOW_DAYS} days)`,
+    ...readinessLines(data.readiness),
+    "",
+    "TLS failures",
+    ...(data.tlsFailureTypes.length === 0
+      ? ["  None."]
+      : data.tlsFailureTypes.map(
+          (failure) => `  ${failure.resultType}  ${formatNumber(failure.failedSessions)} sessions`,
+        )),
+    "",
+    `Dashboard: ${dashboardUrl}`,
+    "",
+  ];
+
+  return {
+    subject: `DMARC ${data.cadence} digest for ${data.domain}: ${rateText} pass`,
+    text: lines.join("\n"),
+  };
+}
+
+interface DigestSubscriptionRow extends Omit<DigestSubscription, "recipients"> {
+  recipients: string;
+}
+
+export async function listDigestSubscriptions(env: Env): Promise<DigestSubscription[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT domain, recipients, cadence, last_period_end AS lastPeriodEnd, created_at AS createdAt
+     FROM digest_subscriptions ORDER BY domain`,
+  ).all<DigestSubscriptionRow>();
+  return results.map((row) => ({ ...row, recipients: parseStringList(row.recipients) }));
+}
+
+export async function putDigestSubscription(
+  domain: string,
+  recipients: string[],
+  cadence: DigestCadence,
+  env: Env,
+): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO digest_subscriptions (domain, recipients, cadence) VALUES (?, ?, ?)
+     ON CONFLICT (domain) DO UPDATE SET recipients = excluded.recipients, cadence = excluded.cadence`,
+  )
+    .bind(domain, JSON.stringify(recipients), cadence)
+    .run();
+}
+
+// Returns false when the domain had no subscription
+export async function removeDigestSubscription(domain: string, env: Env): Promise<boolean> {
+  const result = await env.DB.prepare("DELETE FROM digest_subscriptions WHERE domain = ?")
+    .bind(domain)
+    .run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Cron entry point: sends each subscription's digest once its period has closed.
+ * A period is marked sent once any recipient got the email, so those who did are not sent it
+ * again. Recipients that failed are logged; a run that reached nobody retries next run.
+ */
+export async function runDigests(env: Env, now: Date): Promise<void> {
+  if (env.EMAIL === undefined) {
+    return;
+  }
+
+  for (const subscription of await listDigestSubscriptions(env)) {
+    const period = digestPeriod(subscription.cadence, now);
+    if (subscription.lastPeriodEnd !== null && subscription.lastPeriodEnd >= period.to) {
+      continue;
+    }
+
+    try {
+      const data = await buildDigest(subscription.domain, subscription.cadence, period, env);
+      const { subject, text } = renderDigest(
+        data,
+        `https://${env.SENDER_DOMAIN}/dashboard?domain=${encodeURIComponent(data.domain)}`,
+      );
+      await sendTextEmail(subscription.recipients, subject, text, env);
+      await env.DB.prepare("UPDATE digest_subscriptions SET last_period_end = ? WHERE domain = ?")
+        .bind(period.to, subscription.domain)
+        .run();
+    } catch (e) {
+      console.error(`Failed to send digest for ${subscription.domain}:`, e);
+    }
+  }
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const summary = (messageCount: number, dmarcPass: number): DomainSummary => ({
+    domain: "example.com",
+    from: 1704067200,
+    to: 1704671999,
+    reports: 4,
+    reporters: 2,
+    messageCount,
+    dmarcPass,
+    dmarcFail: messageCount - dmarcPass,
+    dkimPass: 0,
+    dkimFail: 0,
+    spfPass: 0,
+    spfFail: 0,
+    alignedMessageCount: messageCount,
+    dkimAlignedPass: dmarcPass,
+    spfAlignedPass: dmarcPass,
+    dmarcAlignedPass: dmarcPass,
+    alignedPassRate: messageCount === 0 ? null : dmarcPass / messageCount,
+    tlsSuccessfulSessions: 90,
+    tlsFailedSessions: 10,
+  });
+
+  const readiness = (overrides: Partial<PolicyReadiness> = {}): PolicyReadiness => ({
+    domain: "example.com",
+    from: 1702080000,
+    to: 1704671999,
+    currentPolicy: null,
+    nextStep: "p=none",
+    ready: false,
+    reasons: ["No aggregate reports have been received for the domain"],
+    messageCount: 0,
+    alignedPassRate: null,
+    reporters: 0,
+    blockingSenders: [],
+    ...overrides,
+  });
+
+  describe("digestPeriod", () => {
+    it("covers the previous UTC day", () => {
+      expect(digestPeriod("daily", new Date("2024-01-10T06:30:00Z"))).toEqual({
+        from: Date.parse("2024-01-09T00:00:00Z") / 1000,
+        to: Date.parse("2024-01-10T00:00:00Z") / 1000,
+      });
+    });
+
+    it("covers the previous Monday-to-Monday week", () => {
+      // 2024-01-10 is a Wednesday; 2024-01-14 a Sunday
+      const expected = {
+        from: Date.parse("2024-01-01T00:00:00Z") / 1000,
+        to: Date.parse("2024-01-08T00:00:00Z") / 1000,
+      };
+      expect(digestPeriod("weekly", new Date("2024-01-10T06:30:00Z"))).toEqual(expected);
+      expect(digestPeriod("weekly", new Date("2024-01-14T23:59:00Z"))).toEqual(expected);
+    });
+  });
+
+  describe("renderDigest", () => {
+    it("compares the period with the previous one", () => {
+      const { subject, text } = renderDigest(
+        {
+          domain: "example.com",
+          cadence: "weekly",
+          current: summary(1200, 1140),
+          previous: summary(1000, 900),
+          topFailingSources: [
+            { sourceIp: "203.0.113.5", domain: "example.com", messageCount: 60, reporters: 2 },
+          ],
+          newReporters: ["yahoo.com"],
+          tlsFailureTypes: [{ resultType: "certificate-expired", failedSessions: 10 }],
+          senders: {
+            domain: "example.com",
+            from: 1704067200,
+            to: 1704671999,
+            services: [
+              {
+                service: "Google Workspace",
+                sources: 3,
+                messageCount: 1100,
+                dmarcPass: 1078,
+                passRate: 0.98,
+              },
+            ],
+            unclassified: [
+              {
+                sourceIp: "203.0.113.5",
+                sourceHostname: null,
+                dkimDomain: null,
+                messageCount: 100,
+                dmarcPass: 62,
+              },
+            ],
+          },
+          readiness: readiness({
+            currentPolicy: {
+              policyP: "quarantine",
+              policySp: null,
+              policyAdkim: "r",
+              policyAspf: "r",
+              policyPct: 50,
+              policyFo: null,
+              policyNp: null,
+              policyTesting: null,
+            },
+            nextStep: "pct=100",
+            reasons: [
+              "1 sending sources that align some of their mail would have unaligned messages quarantined",
+            ],
+            blockingSenders: [
+              {
+                sourceIp: "198.51.100.7",
+                messageCount: 40,
+                alignedMessages: 25,
+                unalignedMessages: 15,
+                reporters: 2,
+              },
+            ],
+          }),
+        },
+        "https://dmarc.example/dashboard?domain=example.com",
+      );
+
+      expect(subject).toBe("DMARC weekly digest for example.com: 95.0% pass");
+      expect(text).toContain("2024-01-01 to 2024-01-07");
+      expect(text).toContain(
+        "1,200 messages in 4 reports from 2 reporters (+20.0% vs previous week)",
+      );
+      expect(text).toContain("DMARC pass rate: 95.0% (+5.0 pts vs previous week)");
+      expect(text).toContain("Aligned pass rate: 95.0% (DKIM 95.0%, SPF 95.0%)");
+      expect(text).toContain("  203.0.113.5  60 messages (2 reporters)");
+      expect(text).toContain("  Google Workspace  1,100 messages, 98.0% pass");
+      expect(text).toContain("  Unclassified  100 messages from 1 sources");
+      expect(text).toContain("  yahoo.com");
+      expect(text).toContain("  certificate-expired  10 sessions");
+      expect(text).toContain("  Current policy p=quarantine pct=50: not yet ready for pct=100");
+      expect(text).toContain("  198.51.100.7  15 of 40 messages unaligned");
+    });
+
+    it("handles periods without data", () => {
+      const { subject, text } = renderDigest(
+        {
+          domain: "example.com",
+          cadence: "daily",
+          current: summary(0, 0),
+          previous: summary(0, 0),
+          topFailingSources: [],
+          newReporters: [],
+          tlsFailureTypes: [],
+          senders: {
+            domain: "example.com",
+            from: 1704067200,
+            to: 1704671999,
+            services: [],
+            unclassified: [],
+          },
+          readiness: readiness(),
+        },
+        "https://dmarc.example/dashboard",
+      );
+
+      expect(subject).toBe("DMARC daily digest for example.com: – pass");
+      expect(text).toContain("(no messages the previous day)");
+      expect(text).toContain("(no comparison with the previous day)");
+    });
+  });
+}
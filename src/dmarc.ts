@@ -1,8 +1,9 @@
 import { type X2jOptions, XMLParser } from "fast-xml-parser";
 
-import type { DMARCReport } from "./types";
+import { type AlignmentMode, alignmentMode, isAligned } from "./alignment";
+import type { DMARCRecord, DMARCReport, DMARCSchemaVersion } from "./types";
 
-// XML DMARC Report Types (based on RFC 7489)
+// XML DMARC Report Types: RFC 7489 plus the DMARCbis additions, namespace prefixes removed
 interface XMLDateRange {
   begin?: string;
   end?: string;
@@ -15,6 +16,8 @@ interface XMLReportMetadata {
   extra_contact_info?: string;
   date_range?: XMLDateRange;
   error?: string | string[];
+  // DMARCbis: software that produced the report
+  generator?: string;
 }
 
 interface XMLPolicyPublished {
@@ -23,8 +26,13 @@ interface XMLPolicyPublished {
   aspf?: "r" | "s";
   p?: "none" | "quarantine" | "reject";
   sp?: string;
+  // RFC 7489 only: DMARCbis drops pct in favour of testing
   pct?: string;
   fo?: string;
+  // DMARCbis: non-existent subdomain policy, t=y testing mode and how the policy was found
+  np?: string;
+  testing?: string;
+  discovery_method?: string;
 }
 
 interface XMLAuthResult {
@@ -32,16 +40,20 @@ interface XMLAuthResult {
   selector?: string;
   result?: "pass" | "fail" | "temperror" | "permerror" | "neutral" | "none";
   human_result?: string;
+  // SPF only: "mfrom" or "helo"
+  scope?: string;
+}
+
+interface XMLPolicyOverrideReason {
+  type?: string;
+  comment?: string;
 }
 
 interface XMLPolicyEvaluated {
   disposition?: "none" | "quarantine" | "reject";
   dkim?: "pass" | "fail";
   spf?: "pass" | "fail";
-  reason?: Array<{
-    type?: string;
-    comment?: string;
-  }>;
+  reason?: XMLPolicyOverrideReason | XMLPolicyOverrideReason[];
 }
 
 interface XMLIdentifiers {
@@ -68,6 +80,7 @@ interface XMLDMARCRecord {
 }
 
 interface XMLFeedbackStructure {
+  version?: string;
   report_metadata?: XMLReportMetadata;
   policy_published?: XMLPolicyPublished;
   record?: XMLDMARCRecord | XMLDMARCRecord[];
@@ -75,6 +88,7 @@ interface XMLFeedbackStructure {
 
 interface XMLDMARCFeedback {
   feedback?: XMLFeedbackStructure;
+  version?: string;
   report_metadata?: XMLReportMetadata;
   policy_published?: XMLPolicyPublished;
   record?: XMLDMARCRecord | XMLDMARCRecord[];
@@ -84,13 +98,149 @@ const XML_PARSER_OPTIONS: X2jOptions = {
   ignoreAttributes: false,
   attributeNamePrefix: "@_",
   textNodeName: "#text",
+  // Keep text verbatim: sequential report IDs like "00042" must not become numbers
+  parseTagValue: false,
+  // DMARCbis reports may prefix their elements, e.g. <dmarc:feedback>
+  removeNSPrefix: true,
 } as const;
 
+// Namespace of the DMARCbis aggregate report schema, declared with or without a prefix
+const DMARCBIS_NAMESPACE = /\bxmlns(?::[\w.-]+)?\s*=\s*["']urn:ietf:params:xml:ns:dmarc-2\.0["']/;
+
 function parseXML(xml: string): unknown {
   const parser = new XMLParser(XML_PARSER_OPTIONS);
   return parser.parse(xml) as unknown;
 }
 
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+// Text of a leaf tag; a missing tag, or one parsed into an object because it has attributes or
+// children, reads as empty
+function asText(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+// Lowercased tag text, or null for absent and empty tags
+function optionalText(value: unknown): string | null {
+  const text = asText(value).trim().toLowerCase();
+  return text === "" ? null : text;
+}
+
+// Whether any passing result authenticated a domain aligned with the header From domain
+function hasAlignedPass(
+  results: XMLAuthResult[],
+  headerFrom: string,
+  mode: AlignmentMode,
+): boolean {
+  return results.some(
+    (result) =>
+      asText(result.result).toLowerCase() === "pass" &&
+      isAligned(asText(result.domain), headerFrom, mode),
+  );
+}
+
+// The d= domain of a passing DKIM signature, else of the first signature, for sender classification
+function signingDomain(results: XMLAuthResult[]): string | null {
+  const passing = results.find((result) => asText(result.result).toLowerCase() === "pass");
+  return optionalText((passing ?? results[0])?.domain);
+}
+
+function parseRecord(
+  record: XMLDMARCRecord,
+  modes: { dkim: AlignmentMode; spf: AlignmentMode },
+): DMARCRecord {
+  const row = record.row;
+  const policyEvaluated = row?.policy_evaluated;
+  const identifiers = record.identifiers;
+  // A record stands for at least one message even when <count> is absent
+  const count = parseInt(asText(row?.count) || "1");
+  const headerFrom = asText(identifiers?.header_from).toLowerCase();
+  // DMARC only uses the MAIL FROM identity of SPF, never HELO
+  const dkimResults = toArray(record.auth_results?.dkim);
+  const spfResults = toArray(record.auth_results?.spf).filter(
+    (result) => asText(result.scope).toLowerCase() !== "helo",
+  );
+
+  return {
+    sourceIp: asText(row?.source_ip),
+    count: Number.isNaN(count) ? 1 : count,
+    disposition: asText(policyEvaluated?.disposition) || "none",
+    dkimEvaluated: asText(policyEvaluated?.dkim).toLowerCase(),
+    spfEvaluated: asText(policyEvaluated?.spf).toLowerCase(),
+    reasons: toArray(policyEvaluated?.reason).map((reason) => ({
+      type: asText(reason.type),
+      comment: asText(reason.comment),
+    })),
+    headerFrom,
+    envelopeFrom: asText(identifiers?.envelope_from).toLowerCase(),
+    envelopeTo: asText(identifiers?.envelope_to).toLowerCase(),
+    dkimAligned: hasAlignedPass(dkimResults, headerFrom, modes.dkim),
+    spfAligned: hasAlignedPass(spfResults, headerFrom, modes.spf),
+    dkimDomain: signingDomain(dkimResults),
+    // Reports carry no hostnames; the pipeline resolves them when configured to
+    sourceHostname: null,
+  };
+}
+
+interface ResultTally {
+  pass: number;
+  fail: number;
+  temperror: number;
+}
+
+function emptyTally(): ResultTally {
+  return { pass: 0, fail: 0, temperror: 0 };
+}
+
+function tallyResults(results: XMLAuthResult[]): ResultTally {
+  const tally = emptyTally();
+  for (const authResult of results) {
+    const result = asText(authResult.result).toLowerCase();
+    if (result === "pass") {
+      tally.pass++;
+    } else if (result === "fail") {
+      tally.fail++;
+    } else if (result === "temperror") {
+      tally.temperror++;
+    }
+  }
+  return tally;
+}
+
+// A message passes a mechanism if any of its results passed
+function classifyTally(tally: ResultTally): ResultTally {
+  return {
+    pass: tally.pass > 0 ? 1 : 0,
+    fail: tally.pass === 0 && tally.temperror === 0 && tally.fail > 0 ? 1 : 0,
+    temperror: tally.pass === 0 && tally.temperror > 0 ? 1 : 0,
+  };
+}
+
+function addTally(target: ResultTally, tally: ResultTally, weight: number): void {
+  target.pass += tally.pass * weight;
+  target.fail += tally.fail * weight;
+  target.temperror += tally.temperror * weight;
+}
+
+// Reporters emitting DMARCbis without its namespace still give it away by its new elements
+function schemaVersion(xml: string, feedback: XMLFeedbackStructure): DMARCSchemaVersion {
+  const policy = feedback.policy_published;
+  const bisElements = [
+    feedback.report_metadata?.generator,
+    policy?.np,
+    policy?.testing,
+    policy?.discovery_method,
+  ];
+  return DMARCBIS_NAMESPACE.test(xml) || bisElements.some((value) => value !== undefined)
+    ? "dmarcbis"
+    : "rfc7489";
+}
+
 function isXMLDMARCFeedback(obj: unknown): obj is XMLDMARCFeedback {
   if (typeof obj !== "object" || obj === null) {
     return false;
@@ -115,62 +265,64 @@ export function parseDMARCReportFromString(xml: string): DMARCReport {
 
   const reportId = reportMetadata?.report_id ?? "";
   const orgName = reportMetadata?.org_name ?? "";
-  const domain = policyPublished?.domain ?? "";
+  // Stored and queried lowercase, however the reporter wrote it
+  const domain = (policyPublished?.domain ?? "").trim().toLowerCase();
   const beginDate = parseInt(reportMetadata?.date_range?.begin ?? "0");
   const endDate = parseInt(reportMetadata?.date_range?.end ?? "0");
   const policyP = policyPublished?.p ?? "none";
+  const policyPct = parseInt(policyPublished?.pct ?? "");
+
+  // Message-weighted totals: each record contributes <row><count> messages
+  const dkim = emptyTally();
+  const spf = emptyTally();
+  // Per-element totals: each <dkim>/<spf> result counts once
+  const dkimResults = emptyTally();
+  const spfResults = emptyTally();
+  let messageCount = 0,
+    dmarcPass = 0,
+    dmarcFail = 0,
+    dkimAlignedPass = 0,
+    spfAlignedPass = 0,
+    dmarcAlignedPass = 0;
+  const modes = {
+    dkim: alignmentMode(optionalText(policyPublished?.adkim)),
+    spf: alignmentMode(optionalText(policyPublished?.aspf)),
+  };
+
+  const records: DMARCRecord[] = [];
+
+  for (const xmlRecord of toArray(feedback.record)) {
+    const record = parseRecord(xmlRecord, modes);
+    records.push(record);
+    messageCount += record.count;
 
-  let dkimPass = 0,
-    dkimFail = 0,
-    dkimTemperror = 0;
-  let spfPass = 0,
-    spfFail = 0,
-    spfTemperror = 0;
-
-  const records = feedback.record;
-  const recordsArray: XMLDMARCRecord[] = !records
-    ? []
-    : Array.isArray(records)
-      ? records
-      : [records];
-
-  for (const record of recordsArray) {
-    const authResults = record.auth_results;
+    if (record.dkimEvaluated === "pass" || record.spfEvaluated === "pass") {
+      dmarcPass += record.count;
+    } else if (record.dkimEvaluated === "fail" || record.spfEvaluated === "fail") {
+      dmarcFail += record.count;
+    }
+    if (record.dkimAligned === true) {
+      dkimAlignedPass += record.count;
+    }
+    if (record.spfAligned === true) {
+      spfAlignedPass += record.count;
+    }
+    if (record.dkimAligned === true || record.spfAligned === true) {
+      dmarcAlignedPass += record.count;
+    }
+
+    const authResults = xmlRecord.auth_results;
     if (!authResults) {
       continue;
     }
 
-    // DKIM results
-    const dkimElements = authResults.dkim ?? [];
-    const dkimArray: XMLAuthResult[] = Array.isArray(dkimElements) ? dkimElements : [dkimElements];
-
-    for (const dkim of dkimArray) {
-      const dkimResult = dkim.result;
-      const result = typeof dkimResult === "string" ? dkimResult.toLowerCase() : "";
-      if (result === "pass") {
-        dkimPass++;
-      } else if (result === "fail") {
-        dkimFail++;
-      } else if (result === "temperror") {
-        dkimTemperror++;
-      }
-    }
+    const dkimTally = tallyResults(toArray(authResults.dkim));
+    addTally(dkimResults, dkimTally, 1);
+    addTally(dkim, classifyTally(dkimTally), record.count);
 
-    // SPF results
-    const spfElements = authResults.spf ?? [];
-    const spfArray: XMLAuthResult[] = Array.isArray(spfElements) ? spfElements : [spfElements];
-
-    for (const spf of spfArray) {
-      const spfResult = spf.result;
-      const result = typeof spfResult === "string" ? spfResult.toLowerCase() : "";
-      if (result === "pass") {
-        spfPass++;
-      } else if (result === "fail") {
-        spfFail++;
-      } else if (result === "temperror") {
-        spfTemperror++;
-      }
-    }
+    const spfTally = tallyResults(toArray(authResults.spf));
+    addTally(spfResults, spfTally, 1);
+    addTally(spf, classifyTally(spfTally), record.count);
   }
 
   return {
@@ -179,14 +331,37 @@ export function parseDMARCReportFromString(xml: string): DMARCReport {
     domain,
     beginDate,
     endDate,
-    dkimPass,
-    dkimFail,
-    dkimTemperror,
-    spfPass,
-    spfFail,
-    spfTemperror,
+    messageCount,
+    dmarcPass,
+    dmarcFail,
+    dkimPass: dkim.pass,
+    dkimFail: dkim.fail,
+    dkimTemperror: dkim.temperror,
+    spfPass: spf.pass,
+    spfFail: spf.fail,
+    spfTemperror: spf.temperror,
+    dkimPassResults: dkimResults.pass,
+    dkimFailResults: dkimResults.fail,
+    dkimTemperrorResults: dkimResults.temperror,
+    spfPassResults: spfResults.pass,
+    spfFailResults: spfResults.fail,
+    spfTemperrorResults: spfResults.temperror,
+    dkimAlignedPass,
+    spfAlignedPass,
+    dmarcAlignedPass,
     policyP,
+    policySp: optionalText(policyPublished?.sp),
+    policyAdkim: optionalText(policyPublished?.adkim),
+    policyAspf: optionalText(policyPublished?.aspf),
+    policyPct: Number.isNaN(policyPct) ? null : policyPct,
+    policyFo: optionalText(policyPublished?.fo),
+    policyNp: optionalText(policyPublished?.np),
+    policyTesting: optionalText(policyPublished?.testing),
+    policyDiscoveryMethod: optionalText(policyPublished?.discovery_method),
+    schemaVersion: schemaVersion(xml, feedback),
+    generator: asText(reportMetadata?.generator).trim() || null,
     rawXml: xml,
+    records,
   };
 }
 
@@ -232,11 +407,229 @@ if (import.meta.vitest) {
       expect(report.beginDate).toBe(1704067200);
       expect(report.endDate).toBe(1704153599);
       expect(report.policyP).toBe("reject");
-      expect(report.dkimPass).toBe(1);
+      expect(report.schemaVersion).toBe("rfc7489");
+      expect(report.messageCount).toBe(5);
+      expect(report.dkimPass).toBe(5);
       expect(report.dkimFail).toBe(0);
-      expect(report.spfPass).toBe(1);
+      expect(report.spfPass).toBe(5);
       expect(report.spfFail).toBe(0);
+      expect(report.dkimPassResults).toBe(1);
+      expect(report.spfPassResults).toBe(1);
       expect(report.rawXml).toBe(xml);
+      expect(report.records).toEqual([
+        {
+          sourceIp: "1.2.3.4",
+          count: 5,
+          disposition: "none",
+          dkimEvaluated: "",
+          spfEvaluated: "",
+          reasons: [],
+          headerFrom: "example.com",
+          envelopeFrom: "",
+          envelopeTo: "",
+          dkimAligned: true,
+          spfAligned: true,
+          dkimDomain: "example.com",
+          sourceHostname: null,
+        },
+      ]);
+    });
+
+    it("keeps numeric report IDs verbatim", () => {
+      const report = parseDMARCReportFromString(`<feedback>
+  <report_metadata>
+    <org_name>Small Reporter</org_name>
+    <report_id>00042</report_id>
+    <date_range><begin>1704067200</begin><end>1704153599</end></date_range>
+  </report_metadata>
+  <policy_published><domain>example.com</domain><p>none</p></policy_published>
+</feedback>`);
+
+      expect(report.reportId).toBe("00042");
+      expect(report.beginDate).toBe(1704067200);
+    });
+
+    it("lowercases the policy domain", () => {
+      const report = parseDMARCReportFromString(`<feedback>
+  <report_metadata><org_name>google.com</org_name><report_id>mixed-case</report_id></report_metadata>
+  <policy_published><domain> Example.COM </domain><p>none</p></policy_published>
+</feedback>`);
+
+      expect(report.domain).toBe("example.com");
+    });
+
+    it("captures the full published policy", () => {
+      const report = parseDMARCReportFromString(`<feedback>
+  <report_metadata><org_name>google.com</org_name><report_id>policy</report_id></report_metadata>
+  <policy_published>
+    <domain>example.com</domain>
+    <adkim>s</adkim>
+    <aspf>R</aspf>
+    <p>quarantine</p>
+    <sp>reject</sp>
+    <pct>25</pct>
+    <fo>1</fo>
+  </policy_published>
+</feedback>`);
+
+      expect(report).toMatchObject({
+        policyP: "quarantine",
+        policySp: "reject",
+        policyAdkim: "s",
+        policyAspf: "r",
+        policyPct: 25,
+        policyFo: "1",
+      });
+    });
+
+    it("parses DMARCbis reports, namespaced or not", () => {
+      const body = `
+  <version>1.0</version>
+  <report_metadata>
+    <org_name>example.net</org_name>
+    <report_id>bis-1</report_id>
+    <date_range><begin>1704067200</begin><end>1704153599</end></date_range>
+    <generator>Reporter 2.1</generator>
+  </report_metadata>
+  <policy_published>
+    <domain>example.com</domain>
+    <p>reject</p>
+    <sp>quarantine</sp>
+    <np>reject</np>
+    <testing>y</testing>
+    <discovery_method>treewalk</discovery_method>
+  </policy_published>
+  <record>
+    <row><source_ip>192.0.2.1</source_ip><count>3</count></row>
+    <identifiers><header_from>example.com</header_from></identifiers>
+    <auth_results><spf><domain>example.com</domain><result>pass</result></spf></auth_results>
+  </record>`;
+      const prefixed = body.replace(/<(\/?)(\w+)>/g, "<$1dmarc:$2>");
+
+      for (const xml of [
+        `<feedback xmlns="urn:ietf:params:xml:ns:dmarc-2.0">${body}</feedback>`,
+        `<dmarc:feedback xmlns:dmarc="urn:ietf:params:xml:ns:dmarc-2.0">${prefixed}</dmarc:feedback>`,
+        `<feedback>${body}</feedback>`,
+      ]) {
+        expect(parseDMARCReportFromString(xml)).toMatchObject({
+          reportId: "bis-1",
+          schemaVersion: "dmarcbis",
+          generator: "Reporter 2.1",
+          policyP: "reject",
+          policySp: "quarantine",
+          policyNp: "reject",
+          policyTesting: "y",
+          policyDiscoveryMethod: "treewalk",
+          policyPct: null,
+          messageCount: 3,
+          spfPass: 3,
+        });
+      }
+    });
+
+    it("checks DKIM and SPF alignment per record under adkim and aspf", () => {
+      const record = (count: number, dkim: string, spf: string): string => `
+  <record>
+    <row><source_ip>192.0.2.${count}</source_ip><count>${count}</count></row>
+    <identifiers><header_from>example.com</header_from></identifiers>
+    <auth_results>${dkim}${spf}</auth_results>
+  </record>`;
+      const report = parseDMARCReportFromString(`<feedback>
+  <report_metadata><org_name>google.com</org_name><report_id>align</report_id></report_metadata>
+  <policy_published><domain>example.com</domain><adkim>s</adkim><p>reject</p></policy_published>
+  ${record(
+    4,
+    "<dkim><domain>mail.example.com</domain><result>pass</result></dkim>",
+    "<spf><domain>bounce.example.com</domain><result>pass</result></spf>",
+  )}
+  ${record(
+    6,
+    "<dkim><domain>Example.com</domain><result>pass</result></dkim>",
+    "<spf><domain>example.com</domain><scope>helo</scope><result>pass</result></spf>" +
+      "<spf><domain>other.net</domain><scope>mfrom</scope><result>pass</result></spf>",
+  )}
+  ${record(
+    2,
+    "<dkim><domain>example.com</domain><result>fail</result></dkim>",
+    "<spf><domain>spoof.test</domain><result>pass</result></spf>",
+  )}
+</feedback>`);
+
+      expect(
+        report.records.map((record) => [record.count, record.dkimAligned, record.spfAligned]),
+      ).toEqual([
+        [4, false, true],
+        [6, true, false],
+        [2, false, false],
+      ]);
+      expect(report).toMatchObject({ dkimAlignedPass: 6, spfAlignedPass: 4, dmarcAlignedPass: 10 });
+    });
+
+    it("captures policy_evaluated and identifiers per record", () => {
+      const xml = `<?xml version="1.0"?>
+<feedback>
+  <report_metadata>
+    <org_name>google.com</org_name>
+    <report_id>records</report_id>
+    <date_range><begin>0</begin><end>0</end></date_range>
+  </report_metadata>
+  <policy_published><domain>example.com</domain><p>quarantine</p></policy_published>
+  <record>
+    <row>
+      <source_ip>203.0.113.7</source_ip>
+      <count>42</count>
+      <policy_evaluated>
+        <disposition>quarantine</disposition>
+        <dkim>fail</dkim>
+        <spf>fail</spf>
+        <reason><type>forwarded</type><comment>mailing list</comment></reason>
+      </policy_evaluated>
+    </row>
+    <identifiers>
+      <envelope_to>Example.net</envelope_to>
+      <envelope_from>bounce.example.com</envelope_from>
+      <header_from>example.com</header_from>
+    </identifiers>
+  </record>
+  <record>
+    <row>
+      <source_ip>2001:db8::1</source_ip>
+      <count>3</count>
+      <policy_evaluated>
+        <disposition>none</disposition>
+        <dkim>pass</dkim>
+        <spf>fail</spf>
+        <reason><type>local_policy</type></reason>
+        <reason><type>sampled_out</type></reason>
+      </policy_evaluated>
+    </row>
+    <identifiers><header_from>example.com</header_from></identifiers>
+  </record>
+</feedback>`;
+
+      const report = parseDMARCReportFromString(xml);
+
+      expect(report.records).toHaveLength(2);
+      expect(report.records[0]).toEqual({
+        sourceIp: "203.0.113.7",
+        count: 42,
+        disposition: "quarantine",
+        dkimEvaluated: "fail",
+        spfEvaluated: "fail",
+        reasons: [{ type: "forwarded", comment: "mailing list" }],
+        headerFrom: "example.com",
+        envelopeFrom: "bounce.example.com",
+        envelopeTo: "example.net",
+        dkimAligned: false,
+        spfAligned: false,
+        dkimDomain: null,
+        sourceHostname: null,
+      });
+      expect(report.records[1]?.sourceIp).toBe("2001:db8::1");
+      expect(report.records[1]?.reasons).toEqual([
+        { type: "local_policy", comment: "" },
+        { type: "sampled_out", comment: "" },
+      ]);
     });
 
     it("parses a report with multiple records", () => {
@@ -333,8 +726,72 @@ if (import.meta.vitest) {
       const report = parseDMARCReportFromString(xml);
 
       expect(report.dkimPass).toBe(1);
+      expect(report.dkimFail).toBe(0);
+      expect(report.spfPass).toBe(1);
+      expect(report.dkimPassResults).toBe(1);
+      expect(report.dkimFailResults).toBe(1);
+      expect(report.spfPassResults).toBe(2);
+    });
+
+    it("weights totals by message count", () => {
+      const xml = `<?xml version="1.0"?>
+<feedback>
+  <report_metadata>
+    <org_name>outlook.com</org_name>
+    <report_id>weighted</report_id>
+    <date_range><begin>0</begin><end>0</end></date_range>
+  </report_metadata>
+  <policy_published><domain>w.com</domain><p>reject</p></policy_published>
+  <record>
+    <row>
+      <source_ip>192.0.2.10</source_ip>
+      <count>50000</count>
+      <policy_evaluated><disposition>none</disposition><dkim>pass</dkim><spf>fail</spf></policy_evaluated>
+    </row>
+    <auth_results>
+      <dkim><result>pass</result></dkim>
+      <spf><result>softfail</result></spf>
+    </auth_results>
+  </record>
+  <record>
+    <row>
+      <source_ip>198.51.100.20</source_ip>
+      <count>1</count>
+      <policy_evaluated><disposition>reject</disposition><dkim>fail</dkim><spf>fail</spf></policy_evaluated>
+    </row>
+    <auth_results>
+      <dkim><result>fail</result></dkim>
+      <spf><result>fail</result></spf>
+    </auth_results>
+  </record>
+  <record>
+    <row>
+      <source_ip>198.51.100.30</source_ip>
+      <count>7</count>
+      <policy_evaluated><disposition>none</disposition><dkim>fail</dkim><spf>pass</spf></policy_evaluated>
+    </row>
+    <auth_results>
+      <dkim><result>temperror</result></dkim>
+      <spf><result>pass</result></spf>
+    </auth_results>
+  </record>
+</feedback>`;
+
+      const report = parseDMARCReportFromString(xml);
+
+      expect(report.messageCount).toBe(50008);
+      expect(report.dmarcPass).toBe(50007);
+      expect(report.dmarcFail).toBe(1);
+      expect(report.dkimPass).toBe(50000);
       expect(report.dkimFail).toBe(1);
-      expect(report.spfPass).toBe(2);
+      expect(report.dkimTemperror).toBe(7);
+      expect(report.spfPass).toBe(7);
+      expect(report.spfFail).toBe(1);
+      expect(report.dkimPassResults).toBe(1);
+      expect(report.dkimFailResults).toBe(1);
+      expect(report.dkimTemperrorResults).toBe(1);
+      expect(report.spfPassResults).toBe(1);
+      expect(report.spfFailResults).toBe(1);
     });
 
     it("defaults missing optional fields", () => {
@@ -352,8 +809,11 @@ if (import.meta.vitest) {
       expect(report.beginDate).toBe(0);
       expect(report.endDate).toBe(0);
       expect(report.policyP).toBe("none");
+      expect(report.policySp).toBeNull();
+      expect(report.policyPct).toBeNull();
       expect(report.dkimPass).toBe(0);
       expect(report.spfPass).toBe(0);
+      expect(report.records).toEqual([]);
     });
 
     it("throws on invalid XML structure", () => {
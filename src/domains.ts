@@ -0,0 +1,158 @@
+import { normalizeReporterDomain } from "./reporters";
+import type { Env, ManagedDomain, TLSPolicy, TLSReport } from "./types";
+
+// Tells whether reports for a policy domain are wanted
+export type DomainCheck = (domain: string) => boolean;
+
+// Accepts "example.com" or "*.example.com"
+export function normalizeManagedDomain(entry: string): string | null {
+  const trimmed = entry.trim().toLowerCase();
+  if (trimmed.startsWith("*.")) {
+    const parent = normalizeReporterDomain(trimmed.slice(2));
+    return parent === null ? null : `*.${parent}`;
+  }
+  return normalizeReporterDomain(trimmed);
+}
+
+// A plain entry matches only itself; a wildcard matches any depth of subdomain below its parent
+export function matchesManagedDomain(domain: string, entries: Iterable<string>): boolean {
+  const candidate = domain.trim().toLowerCase().replace(/\.$/, "");
+  for (const entry of entries) {
+    if (entry.startsWith("*.") ? candidate.endsWith(entry.slice(1)) : candidate === entry) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export async function listManagedDomains(env: Env): Promise<ManagedDomain[]> {
+  const { results } = await env.DB.prepare(
+    "SELECT domain, note, created_at AS createdAt FROM managed_domains ORDER BY domain",
+  ).all<ManagedDomain>();
+  return results;
+}
+
+/**
+ * Loads the registry once for an email's worth of reports. An empty registry accepts every
+ * domain, so deployments that never configured it keep storing everything. A failed lookup
+ * does too: the report is kept rather than lost, and can be reviewed later.
+ */
+export async function loadDomainCheck(env: Env): Promise<DomainCheck> {
+  try {
+    const { results } = await env.DB.prepare("SELECT domain FROM managed_domains").all<{
+      domain: string;
+    }>();
+    if (results.length === 0) {
+      return () => true;
+    }
+    const entries = results.map((row) => row.domain);
+    return (domain) => matchesManagedDomain(domain, entries);
+  } catch (e) {
+    console.error("Managed domain lookup failed:", e);
+    return () => true;
+  }
+}
+
+/**
+ * Drops a TLS-RPT report's policies for unmanaged domains. `report` is null when every policy
+ * was dropped; a report without policies is passed through as is.
+ */
+export function filterTLSReport(
+  report: TLSReport,
+  isManaged: DomainCheck,
+): { report: TLSReport | null; unsolicited: string[] } {
+  const policies = report.policies ?? [];
+  const kept = policies.filter((policy) => isManaged(policy.policy["policy-domain"]));
+  const unsolicited = policies
+    .filter((policy) => !kept.includes(policy))
+    .map((policy) => policy.policy["policy-domain"].toLowerCase());
+  if (policies.length > 0 && kept.length === 0) {
+    return { report: null, unsolicited };
+  }
+  return { report: unsolicited.length === 0 ? report : { ...report, policies: kept }, unsolicited };
+}
+
+export async function addManagedDomain(
+  domain: string,
+  note: string | null,
+  env: Env,
+): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO managed_domains (domain, note) VALUES (?, ?)
+     ON CONFLICT (domain) DO UPDATE SET note = excluded.note`,
+  )
+    .bind(domain, note)
+    .run();
+}
+
+// Returns false when the domain was not registered
+export async function removeManagedDomain(domain: string, env: Env): Promise<boolean> {
+  const result = await env.DB.prepare("DELETE FROM managed_domains WHERE domain = ?")
+    .bind(domain)
+    .run();
+  return result.meta.changes > 0;
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("matchesManagedDomain", () => {
+    const entries = ["example.com", "*.corp.example"];
+
+    it("matches plain entries exactly", () => {
+      expect(matchesManagedDomain("Example.COM.", entries)).toBe(true);
+      expect(matchesManagedDomain("mail.example.com", entries)).toBe(false);
+    });
+
+    it("matches wildcard entries on subdomains only", () => {
+      expect(matchesManagedDomain("eu.corp.example", entries)).toBe(true);
+      expect(matchesManagedDomain("a.b.corp.example", entries)).toBe(true);
+      expect(matchesManagedDomain("corp.example", entries)).toBe(false);
+      expect(matchesManagedDomain("evilcorp.example", entries)).toBe(false);
+    });
+  });
+
+  describe("normalizeManagedDomain", () => {
+    it("accepts domains and wildcards", () => {
+      expect(normalizeManagedDomain(" Example.COM. ")).toBe("example.com");
+      expect(normalizeManagedDomain("*.Corp.Example")).toBe("*.corp.example");
+    });
+
+    it("rejects other patterns", () => {
+      expect(normalizeManagedDomain("*")).toBeNull();
+      expect(normalizeManagedDomain("*.com.")).toBeNull();
+      expect(normalizeManagedDomain("mail.*.example.com")).toBeNull();
+      expect(normalizeManagedDomain("*example.com")).toBeNull();
+    });
+  });
+
+  describe("filterTLSReport", () => {
+    const policy = (domain: string): TLSPolicy => ({
+      policy: { "policy-type": "sts", "policy-domain": domain },
+      summary: { "total-successful-session-count": 1, "total-failure-session-count": 0 },
+    });
+    const report: TLSReport = {
+      "organization-name": "google.com",
+      "date-range": {
+        "start-datetime": "2024-01-01T00:00:00Z",
+        "end-datetime": "2024-01-01T23:59:59Z",
+      },
+      "report-id": "tls-1",
+      "policies": [policy("example.com"), policy("Other.test")],
+    };
+    const isManaged: DomainCheck = (domain) => domain === "example.com";
+
+    it("keeps only managed policies", () => {
+      const filtered = filterTLSReport(report, isManaged);
+      expect(filtered.report?.policies).toEqual([policy("example.com")]);
+      expect(filtered.unsolicited).toEqual(["other.test"]);
+    });
+
+    it("drops a report with no managed policy", () => {
+      expect(filterTLSReport({ ...report, policies: [policy("other.test")] }, isManaged)).toEqual({
+        report: null,
+        unsolicited: ["other.test"],
+      });
+    });
+  });
+}
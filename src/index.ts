@@ -1,28 +1,16 @@
-import pako from "pako";
-import PostalMime from "postal-mime";
-
-import { parseDMARCReportFromString } from "./dmarc";
-import { queueReply, sendReply } from "./reply";
-import { storeReport, storeTLSReport } from "./storage";
-import { parseTLSReport } from "./tlsrpt";
-import type { Env, ReplyMessage } from "./types";
-
-const TRUSTED_REPORTERS = new Set([
-  "google.com",
-  "microsoft.com",
-  "yahoo.com",
-  "amazon.com",
-  "apple.com",
-  "icloud.com",
-  "proofpoint.com",
-  "dmarcian.com",
-  "postmarkapp.com",
-  "sendgrid.net",
-]);
+import { runMissingReportChecks } from "./alerts";
+import { handleRequest } from "./api";
+import { runDigests } from "./digest";
+import { recordIngest } from "./ledger";
+import { processEmail } from "./pipeline";
+import { archiveKey, runReplayJobs } from "./replay";
+import { sendReply } from "./reply";
+import { runRetention } from "./tenants";
+import type { Env, IngestResult, ReplyMessage } from "./types";
 
 export default {
-  fetch(): Response {
-    return new Response("", { status: 204 });
+  async fetch(request: Request, env: Env): Promise<Response> {
+    return handleRequest(request, env);
   },
 
   async queue(batch: MessageBatch<ReplyMessage>, env: Env): Promise<void> {
@@ -38,9 +26,8 @@ export default {
   },
 
   async email(message: ForwardableEmailMessage, env: Env): Promise<void> {
-    const fromDomain = message.from.split("@")[1]?.toLowerCase() ?? "unknown";
-    const ts = new Date().toISOString().replace(/[:.]/g, "-");
-    const key = `raw-emails/${fromDomain}/${ts}.eml`;
+    const receivedAt = new Date();
+    const key = archiveKey(message.from, receivedAt);
 
     // Store raw email to R2 for replay before any validation
     const arrayBuffer = await new Response(message.raw).arrayBuffer();
@@ -48,83 +35,52 @@ export default {
       customMetadata: { from: message.from, to: message.to },
     });
 
-    // Rate limiting per sender domain
-    const rateLimit = await env.RATE_LIMIT.limit({
-      key: `email:${fromDomain}`,
-    });
-    if (!rateLimit.success) {
-      console.warn(`Rate limit exceeded for ${fromDomain}`);
-      return;
-    }
-
-    // Security: Whitelist trusted reporters
-    if (!TRUSTED_REPORTERS.has(fromDomain)) {
-      console.warn(`Untrusted reporter: ${fromDomain}`);
-      return;
-    }
-
-    // DMARC validation
-    const authResults = message.headers.get("Authentication-Results") ?? "";
-    const dmarcMatch = authResults.match(/dmarc=(\w+)/);
-    if (dmarcMatch?.[1] === "fail") {
-      console.warn(`DMARC fail from ${fromDomain}, rejecting`);
-      return;
-    }
-
-    // Parse email from already-read buffer
-    const rawEmail = new Uint8Array(arrayBuffer);
-    const parsed = await PostalMime.parse(rawEmail);
-
-    if (parsed.attachments.length === 0) {
-      console.error("No attachments found");
-      return;
+    // processEmail reports parse errors in its result, but anything thrown before parsing
+    // (rate limiter, tenant lookup) still gets a ledger row
+    let result: IngestResult | undefined;
+    try {
+      result = await processEmail(
+        { raw: arrayBuffer, from: message.from, to: message.to, headers: message.headers },
+        env,
+      );
+    } catch (e) {
+      result = {
+        outcome: "parse_error",
+        quarantined: false,
+        attachmentCount: 0,
+        reportIds: [],
+        unsolicitedDomains: [],
+        error: e instanceof Error ? e.message : String(e),
+      };
+      throw e;
+    } finally {
+      if (result !== undefined) {
+        await recordIngest(
+          {
+            r2Key: key,
+            from: message.from,
+            to: message.to,
+            messageId: message.headers.get("Message-ID"),
+            receivedAt,
+          },
+          result,
+          env,
+        );
+      }
     }
+  },
 
-    // Process attachments
-    for (const attachment of parsed.attachments) {
-      const { type, content } = detectAndDecompress({
-        content: attachment.content,
-        mimeType: attachment.mimeType,
-      });
-
-      if (type === "dmarc") {
-        const report = parseDMARCReportFromString(content);
-        await storeReport(report, "dmarc", env);
-        await queueReply(message, report.reportId, env);
-      } else if (type === "tlsrpt") {
-        const report = parseTLSReport(content);
-        if (report !== null) {
-          await storeTLSReport(report, env);
-        }
+  async scheduled(controller: ScheduledController, env: Env): Promise<void> {
+    const results = await Promise.allSettled([
+      runReplayJobs(env),
+      runDigests(env, new Date(controller.scheduledTime)),
+      runMissingReportChecks(env, new Date(controller.scheduledTime)),
+      runRetention(env, new Date(controller.scheduledTime)),
+    ]);
+    for (const result of results) {
+      if (result.status === "rejected") {
+        console.error("Scheduled task failed:", result.reason);
       }
     }
   },
 } satisfies ExportedHandler<Env, ReplyMessage>;
-
-// Optimized: Single decompression + detection
-function detectAndDecompress(attachment: { mimeType?: string; content: ArrayBuffer | string }): {
-  type: "dmarc" | "tlsrpt" | "unknown";
-  content: string;
-} {
-  let content: string;
-  const raw =
-    typeof attachment.content === "string"
-      ? new TextEncoder().encode(attachment.content)
-      : new Uint8Array(attachment.content);
-
-  try {
-    const decompressed = pako.ungzip(raw);
-    content = new TextDecoder().decode(decompressed);
-  } catch {
-    content = new TextDecoder().decode(raw);
-  }
-
-  if (content.includes("<feedback>") || content.includes("<?xml")) {
-    return { type: "dmarc", content };
-  }
-  if (content.includes('"organization-name"')) {
-    return { type: "tlsrpt", content };
-  }
-
-  return { type: "unknown", content };
-}
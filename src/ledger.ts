@@ -0,0 +1,119 @@
+import { senderDomain } from "./pipeline";
+import { parseStringList } from "./queries";
+import type { Env, IngestLogEntry, IngestLogFilters, IngestOutcome, IngestResult } from "./types";
+
+const INGEST_OUTCOMES: IngestOutcome[] = [
+  "stored",
+  "rate_limited",
+  "untrusted_reporter",
+  "dmarc_fail",
+  "no_attachments",
+  "unknown_attachment",
+  "unsolicited",
+  "parse_error",
+];
+
+export function isIngestOutcome(value: string): value is IngestOutcome {
+  return INGEST_OUTCOMES.some((outcome) => outcome === value);
+}
+
+// What the email handler knows about a message before it is processed
+export interface ReceivedEmail {
+  r2Key: string;
+  from: string;
+  to: string;
+  messageId: string | null;
+  receivedAt: Date;
+}
+
+/**
+ * Appends one ledger row per received email. Failures are logged and swallowed so
+ * bookkeeping never loses a delivery.
+ */
+export async function recordIngest(
+  email: ReceivedEmail,
+  result: IngestResult,
+  env: Env,
+): Promise<void> {
+  try {
+    await env.DB.prepare(
+      `INSERT INTO ingest_log (
+        r2_key, sender, sender_domain, recipient, message_id, outcome, error,
+        attachment_count, report_ids, unsolicited_domains, quarantined, received_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+      .bind(
+        email.r2Key,
+        email.from,
+        senderDomain(email.from),
+        email.to,
+        email.messageId,
+        result.outcome,
+        result.error ?? null,
+        result.attachmentCount,
+        JSON.stringify(result.reportIds),
+        JSON.stringify(result.unsolicitedDomains),
+        result.quarantined ? 1 : 0,
+        Math.floor(email.receivedAt.getTime() / 1000),
+      )
+      .run();
+  } catch (e) {
+    console.error(`Failed to record ingest outcome for ${email.r2Key}:`, e);
+  }
+}
+
+interface IngestLogRow extends Omit<
+  IngestLogEntry,
+  "reportIds" | "unsolicitedDomains" | "quarantined"
+> {
+  reportIds: string;
+  unsolicitedDomains: string;
+  quarantined: number;
+}
+
+export async function listIngestLog(
+  filters: IngestLogFilters,
+  env: Env,
+): Promise<IngestLogEntry[]> {
+  const clauses: string[] = [];
+  const values: Array<string | number> = [];
+  if (filters.senderDomain !== undefined) {
+    clauses.push("(sender_domain = ? OR sender_domain LIKE ?)");
+    values.push(filters.senderDomain, `%.${filters.senderDomain}`);
+  }
+  if (filters.outcome !== undefined) {
+    clauses.push("outcome = ?");
+    values.push(filters.outcome);
+  }
+  if (filters.reportId !== undefined) {
+    clauses.push("EXISTS (SELECT 1 FROM json_each(report_ids) WHERE value = ?)");
+    values.push(filters.reportId);
+  }
+  if (filters.from !== undefined) {
+    clauses.push("received_at >= ?");
+    values.push(filters.from);
+  }
+  if (filters.to !== undefined) {
+    clauses.push("received_at <= ?");
+    values.push(filters.to);
+  }
+  const where = clauses.length === 0 ? "" : `WHERE ${clauses.join(" AND ")}`;
+
+  const { results } = await env.DB.prepare(
+    `SELECT id, r2_key AS r2Key, sender, sender_domain AS senderDomain, recipient,
+       message_id AS messageId, outcome, error, attachment_count AS attachmentCount,
+       report_ids AS reportIds, unsolicited_domains AS unsolicitedDomains, quarantined, received_at AS receivedAt
+     FROM ingest_log ${where}
+     ORDER BY received_at DESC, id DESC
+     LIMIT ? OFFSET ?`,
+  )
+    .bind(...values, filters.limit, filters.offset)
+    .all<IngestLogRow>();
+
+  return results.map((row) => ({
+    ...row,
+    reportIds: parseStringList(row.reportIds),
+    unsolicitedDomains: parseStringList(row.unsolicitedDomains),
+    quarantined: row.quarantined === 1,
+  }));
+}
@@ -0,0 +1,48 @@
+import { EmailMessage } from "cloudflare:email";
+import { createMimeMessage } from "mimetext";
+
+import type { Env } from "./types";
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+export function normalizeRecipient(address: string): string | null {
+  const normalized = address.trim().toLowerCase();
+  return EMAIL_PATTERN.test(normalized) ? normalized : null;
+}
+
+/**
+ * Sends a plain-text email from SENDER_EMAIL; a no-op without the EMAIL binding. A recipient
+ * whose send fails is logged and skipped, and only a send that reached nobody throws.
+ */
+export async function sendTextEmail(
+  recipients: string[],
+  subject: string,
+  text: string,
+  env: Env,
+): Promise<void> {
+  if (env.EMAIL === undefined) {
+    return;
+  }
+
+  // A send_email message has exactly one recipient
+  let delivered = 0;
+  let lastError: unknown;
+  for (const recipient of recipients) {
+    const mime = createMimeMessage();
+    mime.setHeader("Message-ID", `<${crypto.randomUUID()}@${env.SENDER_DOMAIN}>`);
+    mime.setSender(env.SENDER_EMAIL);
+    mime.setRecipient(recipient);
+    mime.setSubject(subject);
+    mime.addMessage({ contentType: "text/plain", data: text });
+    try {
+      await env.EMAIL.send(new EmailMessage(env.SENDER_EMAIL, recipient, mime.asRaw()));
+      delivered++;
+    } catch (e) {
+      console.error(`Failed to email "${subject}" to ${recipient}:`, e);
+      lastError = e;
+    }
+  }
+  if (delivered === 0 && recipients.length > 0) {
+    throw new Error(`No recipient accepted "${subject}"`, { cause: lastError });
+  }
+}
@@ -0,0 +1,191 @@
+import PostalMime from "postal-mime";
+
+import { evaluateAlerts } from "./alerts";
+import { extractFailureReport, isFailureReportPart, redactFailureReport } from "./arf";
+import { extractReports } from "./attachments";
+import { parseDMARCReportFromString } from "./dmarc";
+import { filterTLSReport, loadDomainCheck } from "./domains";
+import { queueReply } from "./reply";
+import { isTrustedReporter, matchesReporter } from "./reporters";
+import { resolveSourceHostnames } from "./senders";
+import { storeFailureReport, storeReport, storeTLSReport } from "./storage";
+import { resolveTenant } from "./tenants";
+import { parseTLSReport } from "./tlsrpt";
+import type { Env, IngestResult, InboundEmail, StoreOptions } from "./types";
+
+export interface PipelineOptions {
+  // Replays skip rate limiting and never send acknowledgement replies or alerts
+  replay?: boolean;
+}
+
+export function senderDomain(from: string): string {
+  return from.split("@")[1]?.toLowerCase() ?? "unknown";
+}
+
+// Everything after the sender checks; mutates `result` so partial progress survives a throw
+async function parseAndStore(
+  email: InboundEmail,
+  env: Env,
+  options: PipelineOptions,
+  storeOptions: StoreOptions,
+  result: IngestResult,
+): Promise<IngestResult> {
+  const quarantined = storeOptions.quarantined === true;
+
+  // Parse email from already-read buffer
+  const parsed = await PostalMime.parse(new Uint8Array(email.raw));
+  result.attachmentCount = parsed.attachments.length;
+
+  if (parsed.attachments.length === 0) {
+    console.error("No attachments found");
+    return { ...result, outcome: "no_attachments" };
+  }
+
+  // Reports for domains outside the managed-domains registry are skipped, not stored
+  const isManaged = await loadDomainCheck(env);
+  const skip = (domain: string): void => {
+    console.warn(`Skipping unsolicited report for ${domain}`);
+    if (!result.unsolicitedDomains.includes(domain)) {
+      result.unsolicitedDomains.push(domain);
+    }
+  };
+
+  // RFC 6591 failure reports carry no report ID, so they are counted separately
+  let failureReports = 0;
+  const failureReport = extractFailureReport(parsed.attachments);
+  const failureDomain = failureReport?.reportedDomain ?? null;
+  if (failureDomain !== null && !isManaged(failureDomain)) {
+    skip(failureDomain.toLowerCase());
+  } else if (failureReport !== null) {
+    await storeFailureReport(
+      env.REDACT_FAILURE_REPORTS === "true" ? redactFailureReport(failureReport) : failureReport,
+      senderDomain(email.from),
+      env,
+      storeOptions,
+    );
+    failureReports++;
+  }
+
+  // Reverse DNS answers carry over between the email's reports, within one lookup budget
+  const hostnames = new Map<string, string | null>();
+
+  // Process attachments
+  for (const attachment of parsed.attachments) {
+    if (isFailureReportPart(attachment.mimeType)) {
+      continue;
+    }
+    const reports = await extractReports({
+      content: attachment.content,
+      mimeType: attachment.mimeType,
+    });
+
+    for (const { type, content } of reports) {
+      if (type === "dmarc") {
+        const parsedReport = parseDMARCReportFromString(content);
+        if (!isManaged(parsedReport.domain)) {
+          skip(parsedReport.domain.toLowerCase());
+          continue;
+        }
+        const report =
+          env.RESOLVE_SOURCE_HOSTNAMES === "true"
+            ? await resolveSourceHostnames(parsedReport, hostnames)
+            : parsedReport;
+        await storeReport(report, "dmarc", env, storeOptions);
+        result.reportIds.push(report.reportId);
+        if (!quarantined && options.replay !== true) {
+          await evaluateAlerts(report, env);
+          await queueReply(email, report, env);
+        }
+      } else if (type === "tlsrpt") {
+        const parsedReport = parseTLSReport(content);
+        if (parsedReport === null) {
+          continue;
+        }
+        const { report, unsolicited } = filterTLSReport(parsedReport, isManaged);
+        unsolicited.forEach(skip);
+        if (report !== null) {
+          await storeTLSReport(report, env, storeOptions);
+          result.reportIds.push(report["report-id"]);
+        }
+      }
+    }
+  }
+
+  if (result.reportIds.length === 0 && failureReports === 0) {
+    if (result.unsolicitedDomains.length > 0) {
+      return { ...result, outcome: "unsolicited" };
+    }
+    console.error("No DMARC, TLS-RPT or failure reports found in attachments");
+    return { ...result, outcome: "unknown_attachment" };
+  }
+  return result;
+}
+
+/**
+ * Runs an archived or freshly received email through validation, parsing and storage.
+ * Parse errors end processing with a "parse_error" outcome; reports stored before the
+ * failure stay stored and are listed in the result.
+ */
+export async function processEmail(
+  email: InboundEmail,
+  env: Env,
+  options: PipelineOptions = {},
+): Promise<IngestResult> {
+  const fromDomain = senderDomain(email.from);
+  const result: IngestResult = {
+    outcome: "stored",
+    quarantined: false,
+    attachmentCount: 0,
+    reportIds: [],
+    unsolicitedDomains: [],
+  };
+
+  // Rate limiting per sender domain
+  if (options.replay !== true) {
+    const rateLimit = await env.RATE_LIMIT.limit({
+      key: `email:${fromDomain}`,
+    });
+    if (!rateLimit.success) {
+      console.warn(`Rate limit exceeded for ${fromDomain}`);
+      return { ...result, outcome: "rate_limited" };
+    }
+  }
+
+  // The rua recipient decides the tenant, whose own trusted reporters add to the global list
+  const tenant = await resolveTenant(email.to, env);
+
+  // Security: Whitelist trusted reporters, optionally quarantining the rest
+  const trusted =
+    (tenant !== null && matchesReporter(fromDomain, tenant.trustedReporters)) ||
+    (await isTrustedReporter(fromDomain, env));
+  const quarantined = !trusted && env.QUARANTINE_UNKNOWN_REPORTERS === "true";
+  if (!trusted && !quarantined) {
+    console.warn(`Untrusted reporter: ${fromDomain}`);
+    return { ...result, outcome: "untrusted_reporter" };
+  }
+  if (quarantined) {
+    console.warn(`Quarantining reports from untrusted reporter: ${fromDomain}`);
+  }
+  result.quarantined = quarantined;
+
+  // DMARC validation
+  const authResults = email.headers.get("Authentication-Results") ?? "";
+  const dmarcMatch = authResults.match(/dmarc=(\w+)/);
+  if (dmarcMatch?.[1] === "fail") {
+    console.warn(`DMARC fail from ${fromDomain}, rejecting`);
+    return { ...result, outcome: "dmarc_fail" };
+  }
+
+  try {
+    return await parseAndStore(
+      email,
+      env,
+      options,
+      { quarantined, tenantId: tenant?.id ?? null, replay: options.replay === true },
+      result,
+    );
+  } catch (e) {
+    console.error(`Failed to process email from ${fromDomain}:`, e);
+    return { ...result, outcome: "parse_error", error: e instanceof Error ? e.message : String(e) };
+  }
+}
@@ -0,0 +1,1069 @@
+import type postgres from "postgres";
+
+import { getPostgresClient } from "./storage";
+import type {
+  DashboardData,
+  DMARCRecord,
+  DMARCReportKey,
+  DMARCReportSummary,
+  DomainSummary,
+  Env,
+  FailureReportFilters,
+  FailureReportSummary,
+  PolicyChange,
+  PublishedPolicy,
+  ReportFilters,
+  ReportWindow,
+  SenderSource,
+  SourceAlignment,
+  SourceObservation,
+  TLSFailure,
+  TLSFailureDetailSummary,
+  TLSFailureFilters,
+  TLSReportSummary,
+} from "./types";
+
+type PostgresClient = ReturnType<typeof postgres>;
+
+// Read side of storage: served from Postgres when Hyperdrive is bound, D1 otherwise
+
+const D1_POLICY_COLUMNS = `
+  policy_p AS policyP, policy_sp AS policySp, policy_adkim AS policyAdkim,
+  policy_aspf AS policyAspf, policy_pct AS policyPct, policy_fo AS policyFo,
+  policy_np AS policyNp, policy_testing AS policyTesting`;
+
+const PG_POLICY_COLUMNS = `
+  policy_p AS "policyP", policy_sp AS "policySp", policy_adkim AS "policyAdkim",
+  policy_aspf AS "policyAspf", policy_pct AS "policyPct", policy_fo AS "policyFo",
+  policy_np AS "policyNp", policy_testing AS "policyTesting"`;
+
+const D1_REPORT_COLUMNS = `
+  report_id AS reportId, org_name AS orgName, domain,
+  begin_date AS beginDate, end_date AS endDate,
+  message_count AS messageCount, dmarc_pass AS dmarcPass, dmarc_fail AS dmarcFail,
+  dkim_pass AS dkimPass, dkim_fail AS dkimFail, dkim_temperror AS dkimTemperror,
+  spf_pass AS spfPass, spf_fail AS spfFail, spf_temperror AS spfTemperror,
+  dkim_aligned_pass AS dkimAlignedPass, spf_aligned_pass AS spfAlignedPass,
+  dmarc_aligned_pass AS dmarcAlignedPass,
+  ${D1_POLICY_COLUMNS}, policy_discovery_method AS policyDiscoveryMethod,
+  schema_version AS schemaVersion, generator`;
+
+const PG_REPORT_COLUMNS = `
+  report_id AS "reportId", org_name AS "orgName", domain,
+  EXTRACT(EPOCH FROM begin_date)::float8 AS "beginDate",
+  EXTRACT(EPOCH FROM end_date)::float8 AS "endDate",
+  message_count AS "messageCount", dmarc_pass AS "dmarcPass", dmarc_fail AS "dmarcFail",
+  dkim_pass AS "dkimPass", dkim_fail AS "dkimFail", dkim_temperror AS "dkimTemperror",
+  spf_pass AS "spfPass", spf_fail AS "spfFail", spf_temperror AS "spfTemperror",
+  dkim_aligned_pass AS "dkimAlignedPass", spf_aligned_pass AS "spfAlignedPass",
+  dmarc_aligned_pass AS "dmarcAlignedPass",
+  ${PG_POLICY_COLUMNS}, policy_discovery_method AS "policyDiscoveryMethod",
+  schema_version AS "schemaVersion", generator`;
+
+const D1_RECORD_COLUMNS = `
+  source_ip AS sourceIp, count, disposition,
+  dkim_evaluated AS dkimEvaluated, spf_evaluated AS spfEvaluated, reasons,
+  header_from AS headerFrom, envelope_from AS envelopeFrom, envelope_to AS envelopeTo,
+  dkim_aligned AS dkimAligned, spf_aligned AS spfAligned,
+  dkim_domain AS dkimDomain, source_hostname AS sourceHostname`;
+
+// Failure detail columns of tls_failure_details aliased as `d`
+const D1_TLS_FAILURE_COLUMNS = `
+  d.result_type AS resultType, d.sending_mta_ip AS sendingMtaIp,
+  d.receiving_mx_hostname AS receivingMxHostname, d.receiving_mx_helo AS receivingMxHelo,
+  d.receiving_ip AS receivingIp, d.failed_session_count AS failedSessionCount,
+  d.additional_information AS additionalInformation, d.failure_reason_code AS failureReasonCode`;
+
+const PG_TLS_FAILURE_COLUMNS = `
+  d.result_type AS "resultType", d.sending_mta_ip AS "sendingMtaIp",
+  d.receiving_mx_hostname AS "receivingMxHostname", d.receiving_mx_helo AS "receivingMxHelo",
+  d.receiving_ip AS "receivingIp", d.failed_session_count AS "failedSessionCount",
+  d.additional_information AS "additionalInformation", d.failure_reason_code AS "failureReasonCode"`;
+
+const D1_TLS_COLUMNS = `
+  report_id AS reportId, org_name AS orgName,
+  policy_domain AS policyDomain, policy_type AS policyType,
+  policy_string AS policyStrings, mx_host AS mxHosts,
+  total_success AS totalSuccess, total_failures AS totalFailures,
+  (SELECT json_group_array(json_object(
+     'resultType', d.result_type, 'sendingMtaIp', d.sending_mta_ip,
+     'receivingMxHostname', d.receiving_mx_hostname, 'receivingMxHelo', d.receiving_mx_helo,
+     'receivingIp', d.receiving_ip, 'failedSessionCount', d.failed_session_count,
+     'additionalInformation', d.additional_information, 'failureReasonCode', d.failure_reason_code))
+   FROM tls_failure_details d WHERE d.tls_report_id = tls_reports.id) AS failureDetails,
+  begin_date AS beginDate, end_date AS endDate`;
+
+const PG_TLS_COLUMNS = `
+  report_id AS "reportId", org_name AS "orgName",
+  policy_domain AS "policyDomain", policy_type AS "policyType",
+  COALESCE(policy_string, '[]'::jsonb) AS "policyStrings",
+  COALESCE(mx_host, '[]'::jsonb) AS "mxHosts",
+  total_success AS "totalSuccess", total_failures AS "totalFailures",
+  (SELECT COALESCE(jsonb_agg(jsonb_build_object(
+     'resultType', d.result_type, 'sendingMtaIp', d.sending_mta_ip,
+     'receivingMxHostname', d.receiving_mx_hostname, 'receivingMxHelo', d.receiving_mx_helo,
+     'receivingIp', d.receiving_ip, 'failedSessionCount', d.failed_session_count,
+     'additionalInformation', d.additional_information, 'failureReasonCode', d.failure_reason_code
+   ) ORDER BY d.id), '[]'::jsonb)
+   FROM tls_failure_details d WHERE d.tls_report_id = tls_reports.id) AS "failureDetails",
+  EXTRACT(EPOCH FROM begin_date)::float8 AS "beginDate",
+  EXTRACT(EPOCH FROM end_date)::float8 AS "endDate"`;
+
+const D1_FAILURE_REPORT_COLUMNS = `
+  id, reporter, feedback_type AS feedbackType, user_agent AS userAgent, version,
+  auth_failure AS authFailure, source_ip AS sourceIp, reported_domain AS reportedDomain,
+  original_mail_from AS originalMailFrom, original_rcpt_to AS originalRcptTo,
+  arrival_date AS arrivalDate, delivery_result AS deliveryResult,
+  identity_alignment AS identityAlignment, dkim_domain AS dkimDomain,
+  dkim_identity AS dkimIdentity, dkim_selector AS dkimSelector, spf_dns AS spfDns, incidents,
+  original_headers AS originalHeaders, redacted, created_at AS createdAt`;
+
+const PG_FAILURE_REPORT_COLUMNS = `
+  id, reporter, feedback_type AS "feedbackType", user_agent AS "userAgent", version,
+  auth_failure AS "authFailure", source_ip AS "sourceIp", reported_domain AS "reportedDomain",
+  original_mail_from AS "originalMailFrom",
+  COALESCE(original_rcpt_to, '[]'::jsonb) AS "originalRcptTo",
+  EXTRACT(EPOCH FROM arrival_date)::float8 AS "arrivalDate", delivery_result AS "deliveryResult",
+  identity_alignment AS "identityAlignment", dkim_domain AS "dkimDomain",
+  dkim_identity AS "dkimIdentity", dkim_selector AS "dkimSelector", spf_dns AS "spfDns",
+  incidents, original_headers AS "originalHeaders", redacted,
+  EXTRACT(EPOCH FROM created_at)::float8 AS "createdAt"`;
+
+type D1RecordRow = Omit<DMARCRecord, "reasons" | "dkimAligned" | "spfAligned"> & {
+  reasons: string | null;
+  dkimAligned: number | null;
+  spfAligned: number | null;
+};
+type D1TLSRow = Omit<TLSReportSummary, "policyStrings" | "mxHosts" | "failureDetails"> & {
+  policyStrings: string | null;
+  mxHosts: string | null;
+  failureDetails: string | null;
+};
+
+type D1FailureReportRow = Omit<FailureReportSummary, "originalRcptTo" | "redacted"> & {
+  originalRcptTo: string | null;
+  redacted: number;
+};
+
+function parseJSONColumn(value: string | null, fallback: unknown): unknown {
+  if (value === null) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return fallback;
+  }
+}
+
+// JSON-encoded string arrays stored in TEXT columns (report IDs, recipients)
+export function parseStringList(value: string | null): string[] {
+  const parsed = parseJSONColumn(value, []);
+  return Array.isArray(parsed) ? parsed.filter((item) => typeof item === "string") : [];
+}
+
+function isReason(value: unknown): value is DMARCRecord["reasons"][number] {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "type" in value &&
+    typeof value.type === "string" &&
+    "comment" in value &&
+    typeof value.comment === "string"
+  );
+}
+
+function parseReasons(value: string | null): DMARCRecord["reasons"] {
+  const parsed = parseJSONColumn(value, []);
+  return Array.isArray(parsed) ? parsed.filter(isReason) : [];
+}
+
+function isFailureDetail(value: unknown): value is TLSFailureDetailSummary {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "resultType" in value &&
+    typeof value.resultType === "string" &&
+    "failedSessionCount" in value &&
+    typeof value.failedSessionCount === "number"
+  );
+}
+
+function parseFailureDetails(value: string | null): TLSFailureDetailSummary[] {
+  const parsed = parseJSONColumn(value, []);
+  return Array.isArray(parsed) ? parsed.filter(isFailureDetail) : [];
+}
+
+// WHERE clause for D1: a report matches when its date range overlaps [from, to].
+// `alias` qualifies the report columns when the query joins other tables.
+function d1Conditions(
+  filters: Omit<ReportFilters, "limit" | "offset">,
+  domainColumn: string,
+  alias = "",
+  extraClauses: string[] = [],
+): { where: string; params: Array<string | number> } {
+  const column = (name: string): string => (alias === "" ? name : `${alias}.${name}`);
+  const clauses: string[] = [];
+  const params: Array<string | number> = [];
+
+  if (filters.domain !== undefined) {
+    clauses.push(`${column(domainColumn)} = ?`);
+    params.push(filters.domain);
+  }
+  if (filters.orgName !== undefined) {
+    clauses.push(`${column("org_name")} = ?`);
+    params.push(filters.orgName);
+  }
+  if (filters.from !== undefined) {
+    clauses.push(`${column("end_date")} >= ?`);
+    params.push(filters.from);
+  }
+  if (filters.to !== undefined) {
+    clauses.push(`${column("begin_date")} <= ?`);
+    params.push(filters.to);
+  }
+  if (filters.tenantId !== undefined) {
+    clauses.push(`${column("tenant_id")} = ?`);
+    params.push(filters.tenantId);
+  }
+  clauses.push(`${column("quarantined")} = ?`);
+  params.push(filters.quarantined === true ? 1 : 0);
+  clauses.push(...extraClauses);
+
+  return { where: `WHERE ${clauses.join(" AND ")}`, params };
+}
+
+function pgConditions(
+  client: PostgresClient,
+  filters: Omit<ReportFilters, "limit" | "offset">,
+  domainColumn: string,
+): postgres.PendingQuery<postgres.Row[]> {
+  return client`
+    WHERE TRUE
+    ${filters.domain !== undefined ? client`AND ${client(domainColumn)} = ${filters.domain}` : client``}
+    ${filters.orgName !== undefined ? client`AND org_name = ${filters.orgName}` : client``}
+    ${filters.from !== undefined ? client`AND end_date >= to_timestamp(${filters.from})` : client``}
+    ${filters.to !== undefined ? client`AND begin_date <= to_timestamp(${filters.to})` : client``}
+    ${filters.tenantId !== undefined ? client`AND tenant_id = ${filters.tenantId}` : client``}
+    AND quarantined = ${filters.quarantined === true}
+  `;
+}
+
+export async function listReports(filters: ReportFilters, env: Env): Promise<DMARCReportSummary[]> {
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    return client<DMARCReportSummary[]>`
+      SELECT ${client.unsafe(PG_REPORT_COLUMNS)}
+      FROM dmarc_reports
+      ${pgConditions(client, filters, "domain")}
+      ORDER BY begin_date DESC, id DESC
+      LIMIT ${filters.limit} OFFSET ${filters.offset}
+    `;
+  }
+
+  const { where, params } = d1Conditions(filters, "domain");
+  const { results } = await env.DB.prepare(
+    `SELECT ${D1_REPORT_COLUMNS} FROM dmarc_reports ${where}
+     ORDER BY begin_date DESC, id DESC LIMIT ? OFFSET ?`,
+  )
+    .bind(...params, filters.limit, filters.offset)
+    .all<DMARCReportSummary>();
+  return results;
+}
+
+// Identities of every stored report with the given report ID, which is only unique per reporter.
+// `tenantId` narrows both lookups to one tenant's reports.
+export async function findReportKeys(
+  reportId: string,
+  env: Env,
+  tenantId?: string,
+): Promise<DMARCReportKey[]> {
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    const rows = await client<DMARCReportKey[]>`
+      SELECT org_name AS "orgName", domain, report_id AS "reportId"
+      FROM dmarc_reports WHERE report_id = ${reportId}
+      ${tenantId !== undefined ? client`AND tenant_id = ${tenantId}` : client``}
+      ORDER BY org_name, domain
+    `;
+    return [...rows];
+  }
+
+  const { results } = await env.DB.prepare(
+    `SELECT org_name AS orgName, domain, report_id AS reportId
+     FROM dmarc_reports WHERE report_id = ? AND (? IS NULL OR tenant_id = ?)
+     ORDER BY org_name, domain`,
+  )
+    .bind(reportId, tenantId ?? null, tenantId ?? null)
+    .all<DMARCReportKey>();
+  return results;
+}
+
+export async function getReport(
+  key: DMARCReportKey,
+  env: Env,
+  tenantId?: string,
+): Promise<{ report: DMARCReportSummary; records: DMARCRecord[] } | null> {
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    const [report] = await client<Array<DMARCReportSummary & { id: number }>>`
+      SELECT id, ${client.unsafe(PG_REPORT_COLUMNS)}
+      FROM dmarc_reports
+      WHERE org_name = ${key.orgName} AND report_id = ${key.reportId} AND domain = ${key.domain}
+      ${tenantId !== undefined ? client`AND tenant_id = ${tenantId}` : client``}
+    `;
+    if (report === undefined) {
+      return null;
+    }
+    const { id, ...summary } = report;
+    const records = await client<DMARCRecord[]>`
+      SELECT source_ip AS "sourceIp", count, disposition,
+             dkim_evaluated AS "dkimEvaluated", spf_evaluated AS "spfEvaluated",
+             COALESCE(reasons, '[]'::jsonb) AS reasons,
+             header_from AS "headerFrom", envelope_from AS "envelopeFrom", envelope_to AS "envelopeTo",
+             dkim_aligned AS "dkimAligned", spf_aligned AS "spfAligned",
+             dkim_domain AS "dkimDomain", source_hostname AS "sourceHostname"
+      FROM dmarc_records WHERE dmarc_report_id = ${id}
+      ORDER BY count DESC, id
+    `;
+    return { report: summary, records: [...records] };
+  }
+
+  const report = await env.DB.prepare(
+    `SELECT id, ${D1_REPORT_COLUMNS} FROM dmarc_reports
+     WHERE org_name = ? AND report_id = ? AND domain = ? AND (? IS NULL OR tenant_id = ?)`,
+  )
+    .bind(key.orgName, key.reportId, key.domain, tenantId ?? null, tenantId ?? null)
+    .first<DMARCReportSummary & { id: number }>();
+  if (report === null) {
+    return null;
+  }
+  const { id, ...summary } = report;
+  const { results } = await env.DB.prepare(
+    `SELECT ${D1_RECORD_COLUMNS} FROM dmarc_records WHERE dmarc_report_id = ?
+     ORDER BY count DESC, id`,
+  )
+    .bind(id)
+    .all<D1RecordRow>();
+
+  return {
+    report: summary,
+    records: results.map((row) => ({
+      ...row,
+      reasons: parseReasons(row.reasons),
+      dkimAligned: row.dkimAligned === null ? null : row.dkimAligned === 1,
+      spfAligned: row.spfAligned === null ? null : row.spfAligned === 1,
+    })),
+  };
+}
+
+export async function listTLSReports(
+  filters: ReportFilters,
+  env: Env,
+): Promise<TLSReportSummary[]> {
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    return client<TLSReportSummary[]>`
+      SELECT ${client.unsafe(PG_TLS_COLUMNS)}
+      FROM tls_reports
+      ${pgConditions(client, filters, "policy_domain")}
+      ORDER BY begin_date DESC, id DESC
+      LIMIT ${filters.limit} OFFSET ${filters.offset}
+    `;
+  }
+
+  const { where, params } = d1Conditions(filters, "policy_domain");
+  const { results } = await env.DB.prepare(
+    `SELECT ${D1_TLS_COLUMNS} FROM tls_reports ${where}
+     ORDER BY begin_date DESC, id DESC LIMIT ? OFFSET ?`,
+  )
+    .bind(...params, filters.limit, filters.offset)
+    .all<D1TLSRow>();
+
+  return results.map((row) => ({
+    ...row,
+    policyStrings: parseStringList(row.policyStrings),
+    mxHosts: parseStringList(row.mxHosts),
+    failureDetails: parseFailureDetails(row.failureDetails),
+  }));
+}
+
+// Failure details across reports, newest report first
+export async function listTLSFailures(filters: TLSFailureFilters, env: Env): Promise<TLSFailure[]> {
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    return client<TLSFailure[]>`
+      SELECT r.report_id AS "reportId", r.org_name AS "orgName",
+             r.policy_domain AS "policyDomain", r.policy_type AS "policyType",
+             ${client.unsafe(PG_TLS_FAILURE_COLUMNS)},
+             EXTRACT(EPOCH FROM r.begin_date)::float8 AS "beginDate",
+             EXTRACT(EPOCH FROM r.end_date)::float8 AS "endDate"
+      FROM tls_failure_details d JOIN tls_reports r ON r.id = d.tls_report_id
+      ${pgConditions(client, filters, "policy_domain")}
+      ${filters.resultType !== undefined ? client`AND d.result_type = ${filters.resultType}` : client``}
+      ${filters.mxHost !== undefined ? client`AND lower(d.receiving_mx_hostname) = ${filters.mxHost.toLowerCase()}` : client``}
+      ORDER BY r.begin_date DESC, d.id DESC
+      LIMIT ${filters.limit} OFFSET ${filters.offset}
+    `;
+  }
+
+  const extraClauses: string[] = [];
+  const extraParams: string[] = [];
+  if (filters.resultType !== undefined) {
+    extraClauses.push("d.result_type = ?");
+    extraParams.push(filters.resultType);
+  }
+  if (filters.mxHost !== undefined) {
+    extraClauses.push("lower(d.receiving_mx_hostname) = ?");
+    extraParams.push(filters.mxHost.toLowerCase());
+  }
+  const { where, params } = d1Conditions(filters, "policy_domain", "r", extraClauses);
+  const { results } = await env.DB.prepare(
+    `SELECT r.report_id AS reportId, r.org_name AS orgName,
+            r.policy_domain AS policyDomain, r.policy_type AS policyType,
+            ${D1_TLS_FAILURE_COLUMNS},
+            r.begin_date AS beginDate, r.end_date AS endDate
+     FROM tls_failure_details d JOIN tls_reports r ON r.id = d.tls_report_id
+     ${where}
+     ORDER BY r.begin_date DESC, d.id DESC LIMIT ? OFFSET ?`,
+  )
+    .bind(...params, ...extraParams, filters.limit, filters.offset)
+    .all<TLSFailure>();
+  return results;
+}
+
+// Failure reports describe single messages, so dates match their arrival rather than a range.
+// Reports without an Arrival-Date fall back to when we received them.
+export async function listFailureReports(
+  filters: FailureReportFilters,
+  env: Env,
+): Promise<FailureReportSummary[]> {
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    return client<FailureReportSummary[]>`
+      SELECT ${client.unsafe(PG_FAILURE_REPORT_COLUMNS)}
+      FROM failure_reports
+      WHERE quarantined = ${filters.quarantined === true}
+      ${filters.tenantId !== undefined ? client`AND tenant_id = ${filters.tenantId}` : client``}
+      ${filters.domain !== undefined ? client`AND reported_domain = ${filters.domain}` : client``}
+      ${filters.sourceIp !== undefined ? client`AND source_ip = ${filters.sourceIp}` : client``}
+      ${filters.authFailure !== undefined ? client`AND auth_failure = ${filters.authFailure}` : client``}
+      ${filters.from !== undefined ? client`AND COALESCE(arrival_date, created_at) >= to_timestamp(${filters.from})` : client``}
+      ${filters.to !== undefined ? client`AND COALESCE(arrival_date, created_at) <= to_timestamp(${filters.to})` : client``}
+      ORDER BY COALESCE(arrival_date, created_at) DESC, id DESC
+      LIMIT ${filters.limit} OFFSET ${filters.offset}
+    `;
+  }
+
+  const clauses = ["quarantined = ?"];
+  const params: Array<string | number> = [filters.quarantined === true ? 1 : 0];
+  if (filters.tenantId !== undefined) {
+    clauses.push("tenant_id = ?");
+    params.push(filters.tenantId);
+  }
+  if (filters.domain !== undefined) {
+    clauses.push("reported_domain = ?");
+    params.push(filters.domain);
+  }
+  if (filters.sourceIp !== undefined) {
+    clauses.push("source_ip = ?");
+    params.push(filters.sourceIp);
+  }
+  if (filters.authFailure !== undefined) {
+    clauses.push("auth_failure = ?");
+    params.push(filters.authFailure);
+  }
+  if (filters.from !== undefined) {
+    clauses.push("COALESCE(arrival_date, created_at) >= ?");
+    params.push(filters.from);
+  }
+  if (filters.to !== undefined) {
+    clauses.push("COALESCE(arrival_date, created_at) <= ?");
+    params.push(filters.to);
+  }
+  const { results } = await env.DB.prepare(
+    `SELECT ${D1_FAILURE_REPORT_COLUMNS} FROM failure_reports
+     WHERE ${clauses.join(" AND ")}
+     ORDER BY COALESCE(arrival_date, created_at) DESC, id DESC LIMIT ? OFFSET ?`,
+  )
+    .bind(...params, filters.limit, filters.offset)
+    .all<D1FailureReportRow>();
+
+  return results.map((row) => ({
+    ...row,
+    originalRcptTo: parseStringList(row.originalRcptTo),
+    redacted: row.redacted === 1,
+  }));
+}
+
+type DMARCTotals = Omit<
+  DomainSummary,
+  "domain" | "from" | "to" | "tlsSuccessfulSessions" | "tlsFailedSessions" | "alignedPassRate"
+>;
+type TLSTotals = Pick<DomainSummary, "tlsSuccessfulSessions" | "tlsFailedSessions">;
+
+const EMPTY_DMARC_TOTALS: DMARCTotals = {
+  reports: 0,
+  reporters: 0,
+  messageCount: 0,
+  dmarcPass: 0,
+  dmarcFail: 0,
+  dkimPass: 0,
+  dkimFail: 0,
+  spfPass: 0,
+  spfFail: 0,
+  alignedMessageCount: 0,
+  dkimAlignedPass: 0,
+  spfAlignedPass: 0,
+  dmarcAlignedPass: 0,
+};
+
+function summarize(
+  domain: string,
+  from: number,
+  to: number,
+  dmarc: DMARCTotals,
+  tls: TLSTotals,
+): DomainSummary {
+  const alignedPassRate =
+    dmarc.alignedMessageCount === 0 ? null : dmarc.dmarcAlignedPass / dmarc.alignedMessageCount;
+  return { domain, from, to, ...dmarc, alignedPassRate, ...tls };
+}
+
+const EMPTY_TLS_TOTALS: TLSTotals = { tlsSuccessfulSessions: 0, tlsFailedSessions: 0 };
+
+export async function getDomainSummary(
+  domain: string,
+  from: number,
+  to: number,
+  env: Env,
+  tenantId?: string,
+): Promise<DomainSummary> {
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    const [[dmarc], [tls]] = await Promise.all([
+      client<DMARCTotals[]>`
+        SELECT COUNT(*)::integer AS reports,
+               COUNT(DISTINCT org_name)::integer AS reporters,
+               COALESCE(SUM(message_count), 0)::float8 AS "messageCount",
+               COALESCE(SUM(dmarc_pass), 0)::float8 AS "dmarcPass",
+               COALESCE(SUM(dmarc_fail), 0)::float8 AS "dmarcFail",
+               COALESCE(SUM(dkim_pass), 0)::float8 AS "dkimPass",
+               COALESCE(SUM(dkim_fail), 0)::float8 AS "dkimFail",
+               COALESCE(SUM(spf_pass), 0)::float8 AS "spfPass",
+               COALESCE(SUM(spf_fail), 0)::float8 AS "spfFail",
+               COALESCE(SUM(message_count) FILTER (WHERE dmarc_aligned_pass IS NOT NULL), 0)::float8
+                 AS "alignedMessageCount",
+               COALESCE(SUM(dkim_aligned_pass), 0)::float8 AS "dkimAlignedPass",
+               COALESCE(SUM(spf_aligned_pass), 0)::float8 AS "spfAlignedPass",
+               COALESCE(SUM(dmarc_aligned_pass), 0)::float8 AS "dmarcAlignedPass"
+        FROM dmarc_reports
+        ${pgConditions(client, { domain, from, to, tenantId }, "domain")}
+      `,
+      client<TLSTotals[]>`
+        SELECT COALESCE(SUM(total_success), 0)::float8 AS "tlsSuccessfulSessions",
+               COALESCE(SUM(total_failures), 0)::float8 AS "tlsFailedSessions"
+        FROM tls_reports
+        ${pgConditions(client, { domain, from, to, tenantId }, "policy_domain")}
+      `,
+    ]);
+    return summarize(domain, from, to, dmarc ?? EMPTY_DMARC_TOTALS, tls ?? EMPTY_TLS_TOTALS);
+  }
+
+  const dmarcWhere = d1Conditions({ domain, from, to, tenantId }, "domain");
+  const tlsWhere = d1Conditions({ domain, from, to, tenantId }, "policy_domain");
+  const [dmarc, tls] = await Promise.all([
+    env.DB.prepare(
+      `SELECT COUNT(*) AS reports,
+              COUNT(DISTINCT org_name) AS reporters,
+              COALESCE(SUM(message_count), 0) AS messageCount,
+              COALESCE(SUM(dmarc_pass), 0) AS dmarcPass,
+              COALESCE(SUM(dmarc_fail), 0) AS dmarcFail,
+              COALESCE(SUM(dkim_pass), 0) AS dkimPass,
+              COALESCE(SUM(dkim_fail), 0) AS dkimFail,
+              COALESCE(SUM(spf_pass), 0) AS spfPass,
+              COALESCE(SUM(spf_fail), 0) AS spfFail,
+              COALESCE(SUM(CASE WHEN dmarc_aligned_pass IS NOT NULL THEN message_count END), 0)
+                AS alignedMessageCount,
+              COALESCE(SUM(dkim_aligned_pass), 0) AS dkimAlignedPass,
+              COALESCE(SUM(spf_aligned_pass), 0) AS spfAlignedPass,
+              COALESCE(SUM(dmarc_aligned_pass), 0) AS dmarcAlignedPass
+       FROM dmarc_reports ${dmarcWhere.where}`,
+    )
+      .bind(...dmarcWhere.params)
+      .first<DMARCTotals>(),
+    env.DB.prepare(
+      `SELECT COALESCE(SUM(total_success), 0) AS tlsSuccessfulSessions,
+              COALESCE(SUM(total_failures), 0) AS tlsFailedSessions
+       FROM tls_reports ${tlsWhere.where}`,
+    )
+      .bind(...tlsWhere.params)
+      .first<TLSTotals>(),
+  ]);
+  return summarize(domain, from, to, dmarc ?? EMPTY_DMARC_TOTALS, tls ?? EMPTY_TLS_TOTALS);
+}
+
+// Reporters that sent reports for the domain in the window but never before it
+export async function getNewReporters(
+  domain: string,
+  from: number,
+  to: number,
+  env: Env,
+): Promise<string[]> {
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    const rows = await client<Array<{ orgName: string }>>`
+      SELECT DISTINCT org_name AS "orgName"
+      FROM dmarc_reports
+      ${pgConditions(client, { domain, from, to }, "domain")}
+        AND org_name NOT IN (
+          SELECT org_name FROM dmarc_reports
+          WHERE domain = ${domain} AND end_date < to_timestamp(${from}) AND NOT quarantined
+        )
+      ORDER BY "orgName"
+    `;
+    return rows.map((row) => row.orgName);
+  }
+
+  const { where, params } = d1Conditions({ domain, from, to }, "domain", "", [
+    `org_name NOT IN (
+       SELECT org_name FROM dmarc_reports
+       WHERE domain = ? AND end_date < ? AND quarantined = 0
+     )`,
+  ]);
+  const { results } = await env.DB.prepare(
+    `SELECT DISTINCT org_name AS orgName FROM dmarc_reports ${where} ORDER BY orgName`,
+  )
+    .bind(...params, domain, from)
+    .all<{ orgName: string }>();
+  return results.map((row) => row.orgName);
+}
+
+type PolicyObservation = PublishedPolicy & { orgName: string; reportId: string; beginDate: number };
+
+function samePolicy(a: PublishedPolicy, b: PublishedPolicy): boolean {
+  return (
+    a.policyP === b.policyP &&
+    a.policySp === b.policySp &&
+    a.policyAdkim === b.policyAdkim &&
+    a.policyAspf === b.policyAspf &&
+    a.policyPct === b.policyPct &&
+    a.policyFo === b.policyFo &&
+    a.policyNp === b.policyNp &&
+    a.policyTesting === b.policyTesting
+  );
+}
+
+function publishedPolicy(observation: PolicyObservation): PublishedPolicy {
+  const {
+    policyP,
+    policySp,
+    policyAdkim,
+    policyAspf,
+    policyPct,
+    policyFo,
+    policyNp,
+    policyTesting,
+  } = observation;
+  return {
+    policyP,
+    policySp,
+    policyAdkim,
+    policyAspf,
+    policyPct,
+    policyFo,
+    policyNp,
+    policyTesting,
+  };
+}
+
+// Walks each reporter's reports in date order and keeps those whose policy differs from the
+// reporter's previous one, so a DNS change shows up once per reporter when it first noticed it
+function policyChanges(observations: PolicyObservation[]): PolicyChange[] {
+  const latest = new Map<string, PublishedPolicy>();
+  const changes: PolicyChange[] = [];
+
+  for (const observation of observations) {
+    const policy = publishedPolicy(observation);
+    const previous = latest.get(observation.orgName) ?? null;
+    latest.set(observation.orgName, policy);
+    if (previous !== null && samePolicy(previous, policy)) {
+      continue;
+    }
+    changes.push({
+      ...policy,
+      orgName: observation.orgName,
+      reportId: observation.reportId,
+      firstSeen: observation.beginDate,
+      previous,
+    });
+  }
+
+  return changes.sort((a, b) => a.firstSeen - b.firstSeen || a.orgName.localeCompare(b.orgName));
+}
+
+export async function getPolicyHistory(
+  domain: string,
+  from: number | undefined,
+  to: number | undefined,
+  env: Env,
+  tenantId?: string,
+): Promise<PolicyChange[]> {
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    const rows = await client<PolicyObservation[]>`
+      SELECT org_name AS "orgName", report_id AS "reportId",
+             EXTRACT(EPOCH FROM begin_date)::float8 AS "beginDate",
+             ${client.unsafe(PG_POLICY_COLUMNS)}
+      FROM dmarc_reports
+      ${pgConditions(client, { domain, from, to, tenantId }, "domain")}
+      ORDER BY begin_date, id
+    `;
+    return policyChanges(rows);
+  }
+
+  const { where, params } = d1Conditions({ domain, from, to, tenantId }, "domain");
+  const { results } = await env.DB.prepare(
+    `SELECT org_name AS orgName, report_id AS reportId, begin_date AS beginDate,
+            ${D1_POLICY_COLUMNS}
+     FROM dmarc_reports ${where}
+     ORDER BY begin_date, id`,
+  )
+    .bind(...params)
+    .all<PolicyObservation>();
+  return policyChanges(results);
+}
+
+// Date ranges of the domain's reports in the window, grouped by reporter in date order
+export async function listReportWindows(
+  domain: string,
+  from: number,
+  to: number,
+  env: Env,
+  tenantId?: string,
+): Promise<ReportWindow[]> {
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    return client<ReportWindow[]>`
+      SELECT org_name AS "orgName", report_id AS "reportId",
+             EXTRACT(EPOCH FROM begin_date)::float8 AS "beginDate",
+             EXTRACT(EPOCH FROM end_date)::float8 AS "endDate"
+      FROM dmarc_reports
+      ${pgConditions(client, { domain, from, to, tenantId }, "domain")}
+      ORDER BY org_name, begin_date, end_date, id
+    `;
+  }
+
+  const { where, params } = d1Conditions({ domain, from, to, tenantId }, "domain");
+  const { results } = await env.DB.prepare(
+    `SELECT org_name AS orgName, report_id AS reportId,
+            begin_date AS beginDate, end_date AS endDate
+     FROM dmarc_reports ${where}
+     ORDER BY org_name, begin_date, end_date, id`,
+  )
+    .bind(...params)
+    .all<ReportWindow>();
+  return results;
+}
+
+// The policy in the domain's most recent report, as its reporter saw it
+export async function getCurrentPolicy(
+  domain: string,
+  env: Env,
+  tenantId?: string,
+): Promise<PublishedPolicy | null> {
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    const [policy] = await client<PublishedPolicy[]>`
+      SELECT ${client.unsafe(PG_POLICY_COLUMNS)}
+      FROM dmarc_reports
+      ${pgConditions(client, { domain, tenantId }, "domain")}
+      ORDER BY begin_date DESC, id DESC LIMIT 1
+    `;
+    return policy ?? null;
+  }
+
+  const { where, params } = d1Conditions({ domain, tenantId }, "domain");
+  return env.DB.prepare(
+    `SELECT ${D1_POLICY_COLUMNS} FROM dmarc_reports ${where}
+     ORDER BY begin_date DESC, id DESC LIMIT 1`,
+  )
+    .bind(...params)
+    .first<PublishedPolicy>();
+}
+
+// Per-source message volume and how much of it aligned, over records with alignment data
+export async function getSourceAlignment(
+  domain: string,
+  from: number,
+  to: number,
+  env: Env,
+  tenantId?: string,
+): Promise<SourceAlignment[]> {
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    return client<SourceAlignment[]>`
+      SELECT r.source_ip AS "sourceIp",
+             SUM(r.count)::float8 AS "messageCount",
+             COALESCE(SUM(r.count) FILTER (WHERE r.dkim_aligned OR r.spf_aligned), 0)::float8
+               AS "alignedMessages",
+             COUNT(DISTINCT p.org_name)::integer AS reporters
+      FROM dmarc_records r JOIN dmarc_reports p ON p.id = r.dmarc_report_id
+      WHERE p.domain = ${domain}
+        AND p.end_date >= to_timestamp(${from}) AND p.begin_date <= to_timestamp(${to})
+        ${tenantId !== undefined ? client`AND p.tenant_id = ${tenantId}` : client``}
+        AND NOT p.quarantined
+        AND r.dkim_aligned IS NOT NULL
+      GROUP BY r.source_ip
+      ORDER BY "messageCount" DESC
+    `;
+  }
+
+  const { where, params } = d1Conditions({ domain, from, to, tenantId }, "domain", "p", [
+    "r.dkim_aligned IS NOT NULL",
+  ]);
+  const { results } = await env.DB.prepare(
+    `SELECT r.source_ip AS sourceIp, SUM(r.count) AS messageCount,
+            SUM(CASE WHEN r.dkim_aligned = 1 OR r.spf_aligned = 1 THEN r.count ELSE 0 END)
+              AS alignedMessages,
+            COUNT(DISTINCT p.org_name) AS reporters
+     FROM dmarc_records r JOIN dmarc_reports p ON p.id = r.dmarc_report_id
+     ${where}
+     GROUP BY r.source_ip
+     ORDER BY messageCount DESC`,
+  )
+    .bind(...params)
+    .all<SourceAlignment>();
+  return results;
+}
+
+// Volume and DMARC passes per source IP and DKIM signing domain, for sender classification
+export async function getSenderSources(
+  domain: string,
+  from: number,
+  to: number,
+  env: Env,
+  tenantId?: string,
+): Promise<SenderSource[]> {
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    return client<SenderSource[]>`
+      SELECT r.source_ip AS "sourceIp", MAX(r.source_hostname) AS "sourceHostname",
+             r.dkim_domain AS "dkimDomain", SUM(r.count)::float8 AS "messageCount",
+             COALESCE(SUM(r.count) FILTER (WHERE r.dkim_evaluated = 'pass' OR r.spf_evaluated = 'pass'), 0)::float8
+               AS "dmarcPass"
+      FROM dmarc_records r JOIN dmarc_reports p ON p.id = r.dmarc_report_id
+      WHERE p.domain = ${domain}
+        AND p.end_date >= to_timestamp(${from}) AND p.begin_date <= to_timestamp(${to})
+        ${tenantId !== undefined ? client`AND p.tenant_id = ${tenantId}` : client``}
+        AND NOT p.quarantined
+      GROUP BY r.source_ip, r.dkim_domain
+      ORDER BY "messageCount" DESC
+    `;
+  }
+
+  const { where, params } = d1Conditions({ domain, from, to, tenantId }, "domain", "p");
+  const { results } = await env.DB.prepare(
+    `SELECT r.source_ip AS sourceIp, MAX(r.source_hostname) AS sourceHostname,
+            r.dkim_domain AS dkimDomain, SUM(r.count) AS messageCount,
+            SUM(CASE WHEN r.dkim_evaluated = 'pass' OR r.spf_evaluated = 'pass' THEN r.count ELSE 0 END)
+              AS dmarcPass
+     FROM dmarc_records r JOIN dmarc_reports p ON p.id = r.dmarc_report_id
+     ${where}
+     GROUP BY r.source_ip, r.dkim_domain
+     ORDER BY messageCount DESC`,
+  )
+    .bind(...params)
+    .all<SenderSource>();
+  return results;
+}
+
+// Sources first seen in [from, to], newest first, with a hostname and DKIM domain from their records
+export async function listNewSources(
+  domain: string,
+  from: number,
+  to: number,
+  env: Env,
+): Promise<SourceObservation[]> {
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    return client<SourceObservation[]>`
+      SELECT s.source_ip AS "sourceIp",
+             EXTRACT(EPOCH FROM s.first_seen)::float8 AS "firstSeen",
+             EXTRACT(EPOCH FROM s.last_seen)::float8 AS "lastSeen",
+             s.message_count::float8 AS "messageCount", s.dmarc_pass::float8 AS "dmarcPass",
+             s.report_count AS "reportCount", s.first_org_name AS "firstOrgName",
+             s.first_report_id AS "firstReportId", s.suspected_spoofing AS "suspectedSpoofing",
+             r.source_hostname AS "sourceHostname", r.dkim_domain AS "dkimDomain"
+      FROM dmarc_sources s
+      LEFT JOIN LATERAL (
+        SELECT MAX(r.source_hostname) AS source_hostname, MAX(r.dkim_domain) AS dkim_domain
+        FROM dmarc_records r JOIN dmarc_reports p ON p.id = r.dmarc_report_id
+        WHERE p.domain = s.domain AND r.source_ip = s.source_ip
+      ) r ON TRUE
+      WHERE s.domain = ${domain}
+        AND s.first_seen >= to_timestamp(${from}) AND s.first_seen <= to_timestamp(${to})
+      ORDER BY s.first_seen DESC, s.message_count DESC
+    `;
+  }
+
+  const { results } = await env.DB.prepare(
+    `SELECT s.source_ip AS sourceIp, s.first_seen AS firstSeen, s.last_seen AS lastSeen,
+            s.message_count AS messageCount, s.dmarc_pass AS dmarcPass,
+            s.report_count AS reportCount, s.first_org_name AS firstOrgName,
+            s.first_report_id AS firstReportId, s.suspected_spoofing AS suspectedSpoofing,
+            (SELECT MAX(r.source_hostname) FROM dmarc_records r
+             JOIN dmarc_reports p ON p.id = r.dmarc_report_id
+             WHERE p.domain = s.domain AND r.source_ip = s.source_ip) AS sourceHostname,
+            (SELECT MAX(r.dkim_domain) FROM dmarc_records r
+             JOIN dmarc_reports p ON p.id = r.dmarc_report_id
+             WHERE p.domain = s.domain AND r.source_ip = s.source_ip) AS dkimDomain
+     FROM dmarc_sources s
+     WHERE s.domain = ? AND s.first_seen >= ? AND s.first_seen <= ?
+     ORDER BY s.first_seen DESC, s.message_count DESC`,
+  )
+    .bind(domain, from, to)
+    .all<Omit<SourceObservation, "suspectedSpoofing"> & { suspectedSpoofing: number }>();
+  return results.map((row) => ({ ...row, suspectedSpoofing: row.suspectedSpoofing === 1 }));
+}
+
+// Whether any report other than `report` has listed the source IP for its domain
+export async function hasSeenSource(
+  report: DMARCReportKey,
+  sourceIp: string,
+  env: Env,
+): Promise<boolean> {
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    const rows = await client`
+      SELECT 1 FROM dmarc_records r JOIN dmarc_reports p ON p.id = r.dmarc_report_id
+      WHERE p.domain = ${report.domain} AND r.source_ip = ${sourceIp}
+        AND NOT (p.org_name = ${report.orgName} AND p.report_id = ${report.reportId})
+        AND NOT p.quarantined
+      LIMIT 1
+    `;
+    return rows.length > 0;
+  }
+
+  const row = await env.DB.prepare(
+    `SELECT 1 AS seen FROM dmarc_records r JOIN dmarc_reports p ON p.id = r.dmarc_report_id
+     WHERE p.domain = ? AND r.source_ip = ?
+       AND NOT (p.org_name = ? AND p.report_id = ?) AND p.quarantined = 0
+     LIMIT 1`,
+  )
+    .bind(report.domain, sourceIp, report.orgName, report.reportId)
+    .first();
+  return row !== null;
+}
+
+const TOP_FAILING_SOURCES_LIMIT = 20;
+
+export async function getDashboardData(
+  filters: Pick<ReportFilters, "domain" | "tenantId"> & { from: number; to: number },
+  env: Env,
+): Promise<DashboardData> {
+  const { domain, from, to, tenantId } = filters;
+  const client = getPostgresClient(env);
+  if (client !== null) {
+    const [dailyPassRates, topFailingSources, reporters, tlsFailureTypes] = await Promise.all([
+      client<DashboardData["dailyPassRates"]>`
+        SELECT to_char(begin_date, 'YYYY-MM-DD') AS day, domain,
+               SUM(message_count)::float8 AS "messageCount",
+               SUM(dmarc_pass)::float8 AS "dmarcPass"
+        FROM dmarc_reports
+        ${pgConditions(client, filters, "domain")}
+        GROUP BY day, domain ORDER BY day, domain
+      `,
+      client<DashboardData["topFailingSources"]>`
+        SELECT r.source_ip AS "sourceIp", p.domain,
+               SUM(r.count)::float8 AS "messageCount",
+               COUNT(DISTINCT p.org_name)::integer AS reporters
+        FROM dmarc_records r JOIN dmarc_reports p ON p.id = r.dmarc_report_id
+        WHERE p.end_date >= to_timestamp(${from}) AND p.begin_date <= to_timestamp(${to})
+          ${domain !== undefined ? client`AND p.domain = ${domain}` : client``}
+          ${tenantId !== undefined ? client`AND p.tenant_id = ${tenantId}` : client``}
+          AND NOT p.quarantined
+          AND r.dkim_evaluated IS DISTINCT FROM 'pass' AND r.spf_evaluated IS DISTINCT FROM 'pass'
+        GROUP BY r.source_ip, p.domain
+        ORDER BY "messageCount" DESC LIMIT ${TOP_FAILING_SOURCES_LIMIT}
+      `,
+      client<DashboardData["reporters"]>`
+        SELECT org_name AS "orgName", COUNT(*)::integer AS reports,
+               SUM(message_count)::float8 AS "messageCount",
+               SUM(dmarc_pass)::float8 AS "dmarcPass"
+        FROM dmarc_reports
+        ${pgConditions(client, filters, "domain")}
+        GROUP BY org_name ORDER BY "messageCount" DESC
+      `,
+      client<DashboardData["tlsFailureTypes"]>`
+        SELECT d.result_type AS "resultType",
+               SUM(d.failed_session_count)::float8 AS "failedSessions"
+        FROM tls_failure_details d JOIN tls_reports ON tls_reports.id = d.tls_report_id
+        ${pgConditions(client, filters, "policy_domain")}
+        GROUP BY "resultType" ORDER BY "failedSessions" DESC
+      `,
+    ]);
+    return {
+      from,
+      to,
+      domain,
+      dailyPassRates: [...dailyPassRates],
+      topFailingSources: [...topFailingSources],
+      reporters: [...reporters],
+      tlsFailureTypes: [...tlsFailureTypes],
+    };
+  }
+
+  const dmarcWhere = d1Conditions(filters, "domain");
+  const recordsWhere = d1Conditions(filters, "domain", "p", [
+    "COALESCE(r.dkim_evaluated, '') <> 'pass'",
+    "COALESCE(r.spf_evaluated, '') <> 'pass'",
+  ]);
+  const tlsWhere = d1Conditions(filters, "policy_domain", "r");
+  const [dailyPassRates, topFailingSources, reporters, tlsFailureTypes] = await Promise.all([
+    env.DB.prepare(
+      `SELECT date(begin_date, 'unixepoch') AS day, domain,
+              SUM(message_count) AS messageCount, SUM(dmarc_pass) AS dmarcPass
+       FROM dmarc_reports ${dmarcWhere.where}
+       GROUP BY day, domain ORDER BY day, domain`,
+    )
+      .bind(...dmarcWhere.params)
+      .all<DashboardData["dailyPassRates"][number]>(),
+    env.DB.prepare(
+      `SELECT r.source_ip AS sourceIp, p.domain AS domain,
+              SUM(r.count) AS messageCount, COUNT(DISTINCT p.org_name) AS reporters
+       FROM dmarc_records r JOIN dmarc_reports p ON p.id = r.dmarc_report_id
+       ${recordsWhere.where}
+       GROUP BY r.source_ip, p.domain
+       ORDER BY messageCount DESC LIMIT ?`,
+    )
+      .bind(...recordsWhere.params, TOP_FAILING_SOURCES_LIMIT)
+      .all<DashboardData["topFailingSources"][number]>(),
+    env.DB.prepare(
+      `SELECT org_name AS orgName, COUNT(*) AS reports,
+              SUM(message_count) AS messageCount, SUM(dmarc_pass) AS dmarcPass
+       FROM dmarc_reports ${dmarcWhere.where}
+       GROUP BY org_name ORDER BY messageCount DESC`,
+    )
+      .bind(...dmarcWhere.params)
+      .all<DashboardData["reporters"][number]>(),
+    env.DB.prepare(
+      `SELECT d.result_type AS resultType, SUM(d.failed_session_count) AS failedSessions
+       FROM tls_failure_details d JOIN tls_reports r ON r.id = d.tls_report_id
+       ${tlsWhere.where}
+       GROUP BY resultType ORDER BY failedSessions DESC`,
+    )
+      .bind(...tlsWhere.params)
+      .all<DashboardData["tlsFailureTypes"][number]>(),
+  ]);
+
+  return {
+    from,
+    to,
+    domain,
+    dailyPassRates: dailyPassRates.results,
+    topFailingSources: topFailingSources.results,
+    reporters: reporters.results,
+    tlsFailureTypes: tlsFailureTypes.results,
+  };
+}
@@ -0,0 +1,243 @@
+import { getCurrentPolicy, getDomainSummary, getSourceAlignment } from "./queries";
+import type {
+  BlockingSender,
+  DomainSummary,
+  Env,
+  PolicyReadiness,
+  PublishedPolicy,
+  SourceAlignment,
+} from "./types";
+
+export const READINESS_WINDOW_DAYS = 30;
+
+// Enough aligned-evaluated mail, seen by enough receivers, for the pass rate to mean something
+const MIN_MESSAGES = 100;
+const MIN_REPORTERS = 2;
+
+// Aligned pass rate the window needs before the policy may apply a disposition
+const REQUIRED_PASS_RATE: Record<"quarantine" | "reject", number> = {
+  quarantine: 0.95,
+  reject: 0.98,
+};
+
+// A sender that aligns some mail but fails this much is treated as misconfigured, not spoofed
+const BLOCKING_SENDER_MIN_MESSAGES = 10;
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+/**
+ * The next change on the ladder p=none, p=quarantine, p=reject, where a partial rollout
+ * (pct below 100, or DMARCbis t=y) is completed before the policy itself is raised.
+ * `target` is the disposition the change puts into effect for all mail.
+ */
+function nextStep(
+  policy: PublishedPolicy | null,
+): { step: string; target: "quarantine" | "reject" | null } | null {
+  if (policy === null) {
+    return { step: "p=none", target: null };
+  }
+  const p = policy.policyP;
+  if (p !== "quarantine" && p !== "reject") {
+    return { step: "p=quarantine", target: "quarantine" };
+  }
+  if (policy.policyTesting === "y") {
+    return { step: "t=n", target: p };
+  }
+  if (policy.policyPct !== null && policy.policyPct < 100) {
+    return { step: "pct=100", target: p };
+  }
+  return p === "quarantine" ? { step: "p=reject", target: "reject" } : null;
+}
+
+function blockingSenders(sources: SourceAlignment[]): BlockingSender[] {
+  return sources
+    .map((source) => ({
+      ...source,
+      unalignedMessages: source.messageCount - source.alignedMessages,
+    }))
+    .filter(
+      (source) =>
+        source.alignedMessages > 0 && source.unalignedMessages >= BLOCKING_SENDER_MIN_MESSAGES,
+    )
+    .sort((a, b) => b.unalignedMessages - a.unalignedMessages);
+}
+
+export function assessReadiness(
+  policy: PublishedPolicy | null,
+  summary: DomainSummary,
+  sources: SourceAlignment[],
+): PolicyReadiness {
+  const next = nextStep(policy);
+  const blocking = blockingSenders(sources);
+  const reasons: string[] = [];
+
+  if (policy === null) {
+    reasons.push("No aggregate reports have been received for the domain");
+  } else if (next === null) {
+    reasons.push("The policy is fully enforced at p=reject");
+  } else if (next.target !== null) {
+    if (summary.alignedMessageCount < MIN_MESSAGES) {
+      reasons.push(
+        `Only ${summary.alignedMessageCount} messages with alignment data in the window; at least ${MIN_MESSAGES} are needed`,
+      );
+    }
+    if (summary.reporters < MIN_REPORTERS) {
+      reasons.push(
+        `Only ${summary.reporters} reporters in the window; at least ${MIN_REPORTERS} are needed`,
+      );
+    }
+    const required = REQUIRED_PASS_RATE[next.target];
+    if (summary.alignedPassRate !== null && summary.alignedPassRate < required) {
+      reasons.push(
+        `Aligned pass rate ${formatRate(summary.alignedPassRate)} is below the ${formatRate(required)} needed for p=${next.target}`,
+      );
+    }
+    if (blocking.length > 0) {
+      reasons.push(
+        `${blocking.length} sending sources that align some of their mail would have unaligned messages ${next.target === "reject" ? "rejected" : "quarantined"}`,
+      );
+    }
+  }
+
+  return {
+    domain: summary.domain,
+    from: summary.from,
+    to: summary.to,
+    currentPolicy: policy,
+    nextStep: next?.step ?? null,
+    ready: next !== null && reasons.length === 0,
+    reasons,
+    messageCount: summary.alignedMessageCount,
+    alignedPassRate: summary.alignedPassRate,
+    reporters: summary.reporters,
+    blockingSenders: blocking,
+  };
+}
+
+// Readiness over the window of READINESS_WINDOW_DAYS ending at `to`
+export async function getReadiness(
+  domain: string,
+  to: number,
+  env: Env,
+  days = READINESS_WINDOW_DAYS,
+  tenantId?: string,
+): Promise<PolicyReadiness> {
+  const from = to - days * 86400;
+  const [policy, summary, sources] = await Promise.all([
+    getCurrentPolicy(domain, env, tenantId),
+    getDomainSummary(domain, from, to, env, tenantId),
+    getSourceAlignment(domain, from, to, env, tenantId),
+  ]);
+  return assessReadiness(policy, summary, sources);
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const policy = (overrides: Partial<PublishedPolicy> = {}): PublishedPolicy => ({
+    policyP: "none",
+    policySp: null,
+    policyAdkim: "r",
+    policyAspf: "r",
+    policyPct: 100,
+    policyFo: null,
+    policyNp: null,
+    policyTesting: null,
+    ...overrides,
+  });
+
+  const summary = (alignedMessageCount: number, dmarcAlignedPass: number): DomainSummary => ({
+    domain: "example.com",
+    from: 1701475200,
+    to: 1704067200,
+    reports: 10,
+    reporters: 3,
+    messageCount: alignedMessageCount,
+    dmarcPass: dmarcAlignedPass,
+    dmarcFail: alignedMessageCount - dmarcAlignedPass,
+    dkimPass: 0,
+    dkimFail: 0,
+    spfPass: 0,
+    spfFail: 0,
+    alignedMessageCount,
+    dkimAlignedPass: dmarcAlignedPass,
+    spfAlignedPass: 0,
+    dmarcAlignedPass,
+    alignedPassRate: alignedMessageCount === 0 ? null : dmarcAlignedPass / alignedMessageCount,
+    tlsSuccessfulSessions: 0,
+    tlsFailedSessions: 0,
+  });
+
+  const source = (
+    sourceIp: string,
+    messageCount: number,
+    alignedMessages: number,
+  ): SourceAlignment => ({ sourceIp, messageCount, alignedMessages, reporters: 2 });
+
+  describe("assessReadiness", () => {
+    it("recommends quarantine once p=none traffic aligns", () => {
+      const readiness = assessReadiness(policy(), summary(1000, 990), [
+        source("192.0.2.1", 990, 990),
+        // Never aligns: a spoofer, not a blocking sender
+        source("203.0.113.9", 10, 0),
+      ]);
+
+      expect(readiness).toMatchObject({
+        nextStep: "p=quarantine",
+        ready: true,
+        reasons: [],
+        messageCount: 1000,
+        alignedPassRate: 0.99,
+        blockingSenders: [],
+      });
+    });
+
+    it("completes a partial rollout before raising the policy", () => {
+      const quarantine = policy({ policyP: "quarantine", policyPct: 25 });
+      expect(assessReadiness(quarantine, summary(1000, 990), []).nextStep).toBe("pct=100");
+
+      const testing = policy({ policyP: "reject", policyTesting: "y" });
+      expect(assessReadiness(testing, summary(1000, 990), []).nextStep).toBe("t=n");
+    });
+
+    it("needs a higher pass rate for reject than for quarantine", () => {
+      const readiness = assessReadiness(policy({ policyP: "quarantine" }), summary(1000, 960), []);
+
+      expect(readiness.nextStep).toBe("p=reject");
+      expect(readiness.ready).toBe(false);
+      expect(readiness.reasons).toEqual([
+        "Aligned pass rate 96.0% is below the 98.0% needed for p=reject",
+      ]);
+    });
+
+    it("blocks on partly aligned senders and thin data", () => {
+      const readiness = assessReadiness(policy(), { ...summary(50, 49), reporters: 1 }, [
+        source("192.0.2.1", 30, 30),
+        source("198.51.100.7", 20, 8),
+        source("198.51.100.8", 12, 4),
+      ]);
+
+      expect(readiness.ready).toBe(false);
+      expect(readiness.reasons).toHaveLength(3);
+      expect(readiness.blockingSenders).toEqual([
+        { ...source("198.51.100.7", 20, 8), unalignedMessages: 12 },
+      ]);
+    });
+
+    it("has no next step once fully enforced", () => {
+      const readiness = assessReadiness(policy({ policyP: "reject" }), summary(1000, 1000), []);
+
+      expect(readiness.nextStep).toBeNull();
+      expect(readiness.ready).toBe(false);
+    });
+
+    it("starts with p=none when no report has arrived", () => {
+      const readiness = assessReadiness(null, summary(0, 0), []);
+
+      expect(readiness.nextStep).toBe("p=none");
+      expect(readiness.ready).toBe(false);
+    });
+  });
+}
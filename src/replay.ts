@@ -0,0 +1,200 @@
+import PostalMime from "postal-mime";
+
+import { processEmail, senderDomain } from "./pipeline";
+import type { Env, InboundEmail, ReplayItem, ReplayJob, ReplaySelection } from "./types";
+
+export const ARCHIVE_PREFIX = "raw-emails/";
+
+const LIST_PAGE_SIZE = 500;
+// Emails replayed per job on each cron run; keeps a run well inside subrequest limits
+const JOB_BATCH_SIZE = 25;
+
+// Matches archiveKey's output: the sender directory, then the receipt time
+const ARCHIVE_KEY_PATTERN = /^(.*\/)(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.eml$/;
+
+function archiveTimestamp(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, "-");
+}
+
+export function archiveKey(from: string, receivedAt: Date): string {
+  return `${ARCHIVE_PREFIX}${senderDomain(from)}/${archiveTimestamp(receivedAt)}.eml`;
+}
+
+// Rebuilds what the email handler saw from the archived bytes and their R2 metadata
+async function loadArchivedEmail(object: R2ObjectBody): Promise<InboundEmail> {
+  const raw = await object.arrayBuffer();
+  const parsed = await PostalMime.parse(new Uint8Array(raw));
+  const headers = new Headers();
+  for (const header of parsed.headers) {
+    headers.append(header.key, header.value);
+  }
+
+  return {
+    raw,
+    from: object.customMetadata?.["from"] ?? parsed.from?.address ?? "",
+    to: object.customMetadata?.["to"] ?? parsed.to?.[0]?.address ?? "",
+    headers,
+  };
+}
+
+// Returns null when nothing is archived under the key
+export async function replayKey(key: string, env: Env): Promise<ReplayItem | null> {
+  const object = await env.R2_BUCKET.get(key);
+  if (object === null) {
+    return null;
+  }
+
+  try {
+    const email = await loadArchivedEmail(object);
+    const result = await processEmail(email, env, { replay: true });
+    return { key, outcome: result.outcome, reportIds: result.reportIds, error: result.error };
+  } catch (e) {
+    console.error(`Replay of ${key} failed:`, e);
+    return { key, reportIds: [], error: String(e) };
+  }
+}
+
+// Receipt time encoded by archiveKey, falling back to the R2 upload time
+function archivedAt(object: R2Object): Date {
+  const match = object.key.match(ARCHIVE_KEY_PATTERN);
+  if (match === null) {
+    return object.uploaded;
+  }
+  const [, , date, hours, minutes, seconds, millis] = match;
+  return new Date(`${date}T${hours}:${minutes}:${seconds}.${millis}Z`);
+}
+
+function inRange(object: R2Object, selection: ReplaySelection): boolean {
+  const seconds = archivedAt(object).getTime() / 1000;
+  return (
+    (selection.from === undefined || seconds >= selection.from) &&
+    (selection.to === undefined || seconds <= selection.to)
+  );
+}
+
+/**
+ * Where to continue listing after an archived key outside the selection's date range. Keys sort
+ * by sender directory and then by receipt time, so a key before `from` can jump to `from` in
+ * its directory and a key after `to` can skip the rest of the directory. Undefined for keys
+ * that do not follow archiveKey's layout.
+ */
+function skipPast(object: R2Object, selection: ReplaySelection): string | undefined {
+  const directory = object.key.match(ARCHIVE_KEY_PATTERN)?.[1];
+  if (directory === undefined) {
+    return undefined;
+  }
+  const seconds = archivedAt(object).getTime() / 1000;
+  if (selection.from !== undefined && seconds < selection.from) {
+    return `${directory}${archiveTimestamp(new Date(selection.from * 1000 - 1))}.eml`;
+  }
+  if (selection.to !== undefined && seconds > selection.to) {
+    // "~" sorts after every character of a timestamp
+    return `${directory}~`;
+  }
+  return undefined;
+}
+
+/**
+ * Replays up to `limit` archived emails under the selection's prefix, oldest key first.
+ * The returned cursor is the last key examined; pass it back to continue.
+ */
+export async function replayBatch(
+  selection: ReplaySelection,
+  limit: number,
+  cursor: string | undefined,
+  env: Env,
+): Promise<{ items: ReplayItem[]; cursor?: string }> {
+  const items: ReplayItem[] = [];
+  let startAfter = cursor;
+
+  for (;;) {
+    const listing = await env.R2_BUCKET.list({
+      prefix: selection.prefix ?? ARCHIVE_PREFIX,
+      startAfter,
+      limit: LIST_PAGE_SIZE,
+    });
+    let skipped = false;
+
+    for (const object of listing.objects) {
+      if (items.length >= limit) {
+        return { items, cursor: startAfter };
+      }
+      startAfter = object.key;
+      if (!inRange(object, selection)) {
+        const next = skipPast(object, selection);
+        if (next !== undefined && next > object.key) {
+          startAfter = next;
+          skipped = true;
+          break;
+        }
+        continue;
+      }
+      const item = await replayKey(object.key, env);
+      if (item !== null) {
+        items.push(item);
+      }
+    }
+
+    if (!skipped && !listing.truncated) {
+      return { items };
+    }
+  }
+}
+
+const REPLAY_JOB_COLUMNS = `
+  id, prefix, from_ts AS "from", to_ts AS "to", cursor, status,
+  processed, stored, failed, created_at AS createdAt, updated_at AS updatedAt`;
+
+export async function createReplayJob(selection: ReplaySelection, env: Env): Promise<ReplayJob> {
+  const job = await env.DB.prepare(
+    `INSERT INTO replay_jobs (prefix, from_ts, to_ts) VALUES (?, ?, ?)
+     RETURNING ${REPLAY_JOB_COLUMNS}`,
+  )
+    .bind(selection.prefix ?? ARCHIVE_PREFIX, selection.from ?? null, selection.to ?? null)
+    .first<ReplayJob>();
+  if (job === null) {
+    throw new Error("Failed to create replay job");
+  }
+  return job;
+}
+
+export async function getReplayJob(id: number, env: Env): Promise<ReplayJob | null> {
+  return env.DB.prepare(`SELECT ${REPLAY_JOB_COLUMNS} FROM replay_jobs WHERE id = ?`)
+    .bind(id)
+    .first<ReplayJob>();
+}
+
+// Cron entry point: advances every unfinished job by one batch
+export async function runReplayJobs(env: Env): Promise<void> {
+  const { results: jobs } = await env.DB.prepare(
+    `SELECT ${REPLAY_JOB_COLUMNS} FROM replay_jobs WHERE status IN ('pending', 'running') ORDER BY id`,
+  ).all<ReplayJob>();
+
+  for (const job of jobs) {
+    const selection: ReplaySelection = {
+      prefix: job.prefix,
+      from: job.from ?? undefined,
+      to: job.to ?? undefined,
+    };
+    const batch = await replayBatch(selection, JOB_BATCH_SIZE, job.cursor ?? undefined, env);
+    const stored = batch.items.filter((item) => item.outcome === "stored").length;
+    const failed = batch.items.filter((item) => item.error !== undefined).length;
+
+    await env.DB.prepare(
+      `UPDATE replay_jobs SET
+         cursor = ?, status = ?,
+         processed = processed + ?, stored = stored + ?, failed = failed + ?,
+         updated_at = strftime('%s', 'now')
+       WHERE id = ?`,
+    )
+      .bind(
+        batch.cursor ?? null,
+        batch.cursor === undefined ? "done" : "running",
+        batch.items.length,
+        stored,
+        failed,
+        job.id,
+      )
+      .run();
+  }
+}
@@ -1,11 +1,11 @@
 import { EmailMessage } from "cloudflare:email";
 import { createMimeMessage } from "mimetext";
 
-import type { Env, ReplyMessage } from "./types";
+import type { DMARCReportKey, Env, ReplyMessage } from "./types";
 
 export async function queueReply(
-  message: ForwardableEmailMessage,
-  reportId: string,
+  message: Pick<ForwardableEmailMessage, "from" | "headers">,
+  report: DMARCReportKey,
   env: Env,
 ): Promise<void> {
   if (env.EMAIL_QUEUE === undefined) {
@@ -21,13 +21,20 @@ export async function queueReply(
     {
       messageId: msgId,
       replyTo: message.from,
-      reportId: reportId,
+      reportId: report.reportId,
+      orgName: report.orgName,
+      domain: report.domain,
       subject: message.headers.get("Subject") ?? "DMARC Report",
     },
     { delaySeconds: 3600 },
   );
 }
 
+// API path of a stored report, matching GET /reports/:org/:domain/:id
+function reportPath(key: DMARCReportKey): string {
+  return `/reports/${[key.orgName, key.domain, key.reportId].map(encodeURIComponent).join("/")}`;
+}
+
 export async function sendReply(msg: ReplyMessage, env: Env): Promise<void> {
   if (env.EMAIL === undefined) {
     return;
@@ -42,7 +49,7 @@ export async function sendReply(msg: ReplyMessage, env: Env): Promise<void> {
   mime.setSubject(`Re: ${msg.subject} - Processed`);
   mime.addMessage({
     contentType: "text/plain",
-    data: `Your report ${msg.reportId} has been received and processed.\n\nView: https://${env.SENDER_DOMAIN}/reports/${msg.reportId}`,
+    data: `Your report ${msg.reportId} has been received and processed.\n\nView: https://${env.SENDER_DOMAIN}${reportPath(msg)}`,
   });
 
   const email = new EmailMessage(env.SENDER_EMAIL, msg.replyTo, mime.asRaw());
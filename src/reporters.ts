@@ -0,0 +1,131 @@
+import type { Env, TrustedReporter } from "./types";
+
+// Used when the TRUSTED_REPORTERS variable is not set
+const DEFAULT_TRUSTED_REPORTERS = [
+  "google.com",
+  "microsoft.com",
+  "yahoo.com",
+  "amazon.com",
+  "apple.com",
+  "icloud.com",
+  "proofpoint.com",
+  "dmarcian.com",
+  "postmarkapp.com",
+  "sendgrid.net",
+];
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+export function normalizeReporterDomain(domain: string): string | null {
+  const normalized = domain.trim().toLowerCase().replace(/\.$/, "");
+  return DOMAIN_PATTERN.test(normalized) ? normalized : null;
+}
+
+// An entry trusts the domain itself and every subdomain of it
+export function matchesReporter(domain: string, entries: Iterable<string>): boolean {
+  const candidate = domain.toLowerCase();
+  for (const entry of entries) {
+    if (candidate === entry || candidate.endsWith(`.${entry}`)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function envReporters(env: Env): string[] {
+  if (env.TRUSTED_REPORTERS === undefined) {
+    return DEFAULT_TRUSTED_REPORTERS;
+  }
+  return env.TRUSTED_REPORTERS.split(",")
+    .map(normalizeReporterDomain)
+    .filter((domain) => domain !== null);
+}
+
+export async function listTrustedReporters(env: Env): Promise<TrustedReporter[]> {
+  const { results } = await env.DB.prepare(
+    "SELECT domain, note, created_at AS createdAt FROM trusted_reporters ORDER BY domain",
+  ).all<Omit<TrustedReporter, "source">>();
+
+  return [
+    ...envReporters(env).map(
+      (domain): TrustedReporter => ({ domain, note: null, createdAt: null, source: "env" }),
+    ),
+    ...results.map((row): TrustedReporter => ({ ...row, source: "database" })),
+  ];
+}
+
+export async function isTrustedReporter(domain: string, env: Env): Promise<boolean> {
+  if (matchesReporter(domain, envReporters(env))) {
+    return true;
+  }
+  try {
+    const { results } = await env.DB.prepare("SELECT domain FROM trusted_reporters").all<{
+      domain: string;
+    }>();
+    return matchesReporter(
+      domain,
+      results.map((row) => row.domain),
+    );
+  } catch (e) {
+    console.error("Trusted reporter lookup failed:", e);
+    return false;
+  }
+}
+
+export async function addTrustedReporter(
+  domain: string,
+  note: string | null,
+  env: Env,
+): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO trusted_reporters (domain, note) VALUES (?, ?)
+     ON CONFLICT (domain) DO UPDATE SET note = excluded.note`,
+  )
+    .bind(domain, note)
+    .run();
+}
+
+// Returns false when the domain had no database entry
+export async function removeTrustedReporter(domain: string, env: Env): Promise<boolean> {
+  const result = await env.DB.prepare("DELETE FROM trusted_reporters WHERE domain = ?")
+    .bind(domain)
+    .run();
+  return result.meta.changes > 0;
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("matchesReporter", () => {
+    const entries = ["google.com", "mail.ru"];
+
+    it("matches the domain itself", () => {
+      expect(matchesReporter("google.com", entries)).toBe(true);
+      expect(matchesReporter("Mail.RU", entries)).toBe(true);
+    });
+
+    it("matches subdomains on a label boundary", () => {
+      expect(matchesReporter("dmarc.google.com", entries)).toBe(true);
+      expect(matchesReporter("a.b.mail.ru", entries)).toBe(true);
+    });
+
+    it("does not match lookalike domains", () => {
+      expect(matchesReporter("evilgoogle.com", entries)).toBe(false);
+      expect(matchesReporter("google.com.evil.net", entries)).toBe(false);
+      expect(matchesReporter("com", entries)).toBe(false);
+    });
+  });
+
+  describe("normalizeReporterDomain", () => {
+    it("lower-cases and strips a trailing dot", () => {
+      expect(normalizeReporterDomain(" Comcast.NET. ")).toBe("comcast.net");
+    });
+
+    it("rejects values that are not domain names", () => {
+      expect(normalizeReporterDomain("")).toBeNull();
+      expect(normalizeReporterDomain("localhost")).toBeNull();
+      expect(normalizeReporterDomain("*.example.com")).toBeNull();
+      expect(normalizeReporterDomain("user@example.com")).toBeNull();
+    });
+  });
+}
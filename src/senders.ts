@@ -0,0 +1,431 @@
+// Catalogue of well-known sending services; edit it to add services, or add overrides at runtime
+import catalogue from "./data/sending-services.json";
+import { getSenderSources, listNewSources } from "./queries";
+import { normalizeReporterDomain } from "./reporters";
+import type {
+  DMARCReport,
+  Env,
+  NewSender,
+  SenderInventory,
+  SenderPatternKind,
+  SenderSource,
+  SendingServiceOverride,
+  SendingServiceSummary,
+} from "./types";
+
+// DNS-over-HTTPS resolver used for reverse DNS lookups
+const DOH_ENDPOINT = "https://cloudflare-dns.com/dns-query";
+const DNS_TYPE_PTR = 12;
+// Subrequests are limited per invocation, and a report can list hundreds of sources
+const MAX_HOSTNAME_LOOKUPS = 25;
+
+interface ParsedAddress {
+  bits: 32 | 128;
+  value: bigint;
+}
+
+interface SenderRule {
+  service: string;
+  kind: SenderPatternKind;
+  pattern: string;
+}
+
+export function isSenderPatternKind(value: unknown): value is SenderPatternKind {
+  return value === "cidr" || value === "hostname" || value === "dkim_domain";
+}
+
+function parseIPv4(address: string): bigint | null {
+  const octets = address.split(".");
+  if (octets.length !== 4 || !octets.every((octet) => /^\d{1,3}$/.test(octet))) {
+    return null;
+  }
+  const values = octets.map((octet) => parseInt(octet));
+  if (values.some((value) => value > 255)) {
+    return null;
+  }
+  return values.reduce((acc, value) => (acc << 8n) | BigInt(value), 0n);
+}
+
+// 16-bit groups of one side of "::", with an optional embedded IPv4 address at the end
+function ipv6Groups(part: string): number[] | null {
+  if (part === "") {
+    return [];
+  }
+  const groups: number[] = [];
+  const pieces = part.split(":");
+  for (const [index, piece] of pieces.entries()) {
+    if (index === pieces.length - 1 && piece.includes(".")) {
+      const ipv4 = parseIPv4(piece);
+      if (ipv4 === null) {
+        return null;
+      }
+      groups.push(Number(ipv4 >> 16n), Number(ipv4 & 0xffffn));
+    } else if (/^[0-9a-f]{1,4}$/.test(piece)) {
+      groups.push(parseInt(piece, 16));
+    } else {
+      return null;
+    }
+  }
+  return groups;
+}
+
+function parseIPv6(address: string): bigint | null {
+  const halves = address.toLowerCase().split("::");
+  if (halves.length > 2) {
+    return null;
+  }
+  const head = ipv6Groups(halves[0] ?? "");
+  const tail = halves.length === 2 ? ipv6Groups(halves[1] ?? "") : [];
+  if (head === null || tail === null) {
+    return null;
+  }
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return null;
+  }
+  return [...head, ...new Array<number>(missing).fill(0), ...tail].reduce(
+    (acc, group) => (acc << 16n) | BigInt(group),
+    0n,
+  );
+}
+
+function parseAddress(address: string): ParsedAddress | null {
+  const trimmed = address.trim();
+  if (trimmed.includes(":")) {
+    const value = parseIPv6(trimmed);
+    return value === null ? null : { bits: 128, value };
+  }
+  const value = parseIPv4(trimmed);
+  return value === null ? null : { bits: 32, value };
+}
+
+function parseCidr(cidr: string): (ParsedAddress & { prefix: number }) | null {
+  const [address = "", prefixText, ...rest] = cidr.trim().split("/");
+  const parsed = parseAddress(address);
+  if (
+    parsed === null ||
+    rest.length > 0 ||
+    (prefixText !== undefined && !/^\d{1,3}$/.test(prefixText))
+  ) {
+    return null;
+  }
+  const prefix = prefixText === undefined ? parsed.bits : parseInt(prefixText);
+  return prefix > parsed.bits ? null : { ...parsed, prefix };
+}
+
+function cidrContains(cidr: string, address: string): boolean {
+  const range = parseCidr(cidr);
+  const parsed = parseAddress(address);
+  if (range === null || parsed === null || range.bits !== parsed.bits) {
+    return false;
+  }
+  const shift = BigInt(range.bits - range.prefix);
+  return range.value >> shift === parsed.value >> shift;
+}
+
+// A domain pattern matches the domain itself and every subdomain of it
+function matchesDomain(domain: string | null, pattern: string): boolean {
+  if (domain === null) {
+    return false;
+  }
+  const candidate = domain.toLowerCase().replace(/\.$/, "");
+  return candidate === pattern || candidate.endsWith(`.${pattern}`);
+}
+
+// Canonical form of a pattern for storage; null when it is not valid for its kind
+export function normalizeSenderPattern(kind: SenderPatternKind, pattern: string): string | null {
+  if (kind === "cidr") {
+    return parseCidr(pattern) === null ? null : pattern.trim().toLowerCase();
+  }
+  return normalizeReporterDomain(pattern);
+}
+
+function ruleMatches(rule: SenderRule, source: SenderSource): boolean {
+  switch (rule.kind) {
+    case "cidr":
+      return cidrContains(rule.pattern, source.sourceIp);
+    case "hostname":
+      return matchesDomain(source.sourceHostname, rule.pattern);
+    case "dkim_domain":
+      return matchesDomain(source.dkimDomain, rule.pattern);
+  }
+}
+
+// The service of the first rule matching the source's IP, reverse DNS name or DKIM domain
+function classifySource(source: SenderSource, rules: SenderRule[]): string | null {
+  return rules.find((rule) => ruleMatches(rule, source))?.service ?? null;
+}
+
+function catalogueRules(): SenderRule[] {
+  return catalogue.flatMap((entry) => [
+    ...entry.cidrs.map(
+      (pattern): SenderRule => ({ service: entry.service, kind: "cidr", pattern }),
+    ),
+    ...entry.hostnames.map(
+      (pattern): SenderRule => ({ service: entry.service, kind: "hostname", pattern }),
+    ),
+    ...entry.dkimDomains.map(
+      (pattern): SenderRule => ({ service: entry.service, kind: "dkim_domain", pattern }),
+    ),
+  ]);
+}
+
+function summarizeSenders(
+  sources: SenderSource[],
+  rules: SenderRule[],
+): Pick<SenderInventory, "services" | "unclassified"> {
+  const services = new Map<string, { ips: Set<string>; messageCount: number; dmarcPass: number }>();
+  const unclassified: SenderSource[] = [];
+
+  for (const source of sources) {
+    const service = classifySource(source, rules);
+    if (service === null) {
+      unclassified.push(source);
+      continue;
+    }
+    const totals = services.get(service) ?? { ips: new Set(), messageCount: 0, dmarcPass: 0 };
+    totals.ips.add(source.sourceIp);
+    totals.messageCount += source.messageCount;
+    totals.dmarcPass += source.dmarcPass;
+    services.set(service, totals);
+  }
+
+  return {
+    services: [...services]
+      .map(
+        ([service, totals]): SendingServiceSummary => ({
+          service,
+          sources: totals.ips.size,
+          messageCount: totals.messageCount,
+          dmarcPass: totals.dmarcPass,
+          passRate: totals.messageCount === 0 ? 0 : totals.dmarcPass / totals.messageCount,
+        }),
+      )
+      .sort((a, b) => b.messageCount - a.messageCount || a.service.localeCompare(b.service)),
+    unclassified: unclassified.sort((a, b) => b.messageCount - a.messageCount),
+  };
+}
+
+export async function listSendingServiceOverrides(env: Env): Promise<SendingServiceOverride[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT id, service, kind, pattern, created_at AS createdAt
+     FROM sending_services ORDER BY service, kind, pattern`,
+  ).all<SendingServiceOverride>();
+  return results;
+}
+
+// Re-adding a pattern moves it to the given service
+export async function addSendingServiceOverride(
+  service: string,
+  kind: SenderPatternKind,
+  pattern: string,
+  env: Env,
+): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO sending_services (service, kind, pattern) VALUES (?, ?, ?)
+     ON CONFLICT (kind, pattern) DO UPDATE SET service = excluded.service`,
+  )
+    .bind(service, kind, pattern)
+    .run();
+}
+
+// Returns false when no override had the ID
+export async function removeSendingServiceOverride(id: number, env: Env): Promise<boolean> {
+  const result = await env.DB.prepare("DELETE FROM sending_services WHERE id = ?").bind(id).run();
+  return result.meta.changes > 0;
+}
+
+export async function getSenderInventory(
+  domain: string,
+  from: number,
+  to: number,
+  env: Env,
+  tenantId?: string,
+): Promise<SenderInventory> {
+  const [overrides, sources] = await Promise.all([
+    listSendingServiceOverrides(env),
+    getSenderSources(domain, from, to, env, tenantId),
+  ]);
+  return {
+    domain,
+    from,
+    to,
+    ...summarizeSenders(sources, [...overrides, ...catalogueRules()]),
+  };
+}
+
+// Sources a domain's reports listed for the first time in [from, to], classified like the inventory
+export async function getNewSenders(
+  domain: string,
+  from: number,
+  to: number,
+  env: Env,
+): Promise<NewSender[]> {
+  const [overrides, sources] = await Promise.all([
+    listSendingServiceOverrides(env),
+    listNewSources(domain, from, to, env),
+  ]);
+  const rules = [...overrides, ...catalogueRules()];
+  return sources.map((source) => ({
+    ...source,
+    service: classifySource(source, rules),
+    passRate: source.messageCount === 0 ? 0 : source.dmarcPass / source.messageCount,
+  }));
+}
+
+// PTR query name: reversed octets under in-addr.arpa, reversed nibbles under ip6.arpa
+function reverseName(address: string): string | null {
+  const parsed = parseAddress(address);
+  if (parsed === null) {
+    return null;
+  }
+  if (parsed.bits === 32) {
+    return `${address.trim().split(".").reverse().join(".")}.in-addr.arpa`;
+  }
+  const nibbles = parsed.value.toString(16).padStart(32, "0").split("");
+  return `${nibbles.reverse().join(".")}.ip6.arpa`;
+}
+
+async function lookupHostname(address: string): Promise<string | null> {
+  const name = reverseName(address);
+  if (name === null) {
+    return null;
+  }
+  try {
+    const response = await fetch(`${DOH_ENDPOINT}?name=${name}&type=PTR`, {
+      headers: { Accept: "application/dns-json" },
+    });
+    if (!response.ok) {
+      return null;
+    }
+    const body = await response.json<{ Answer?: Array<{ type: number; data: string }> }>();
+    const answer = body.Answer?.find((record) => record.type === DNS_TYPE_PTR);
+    return answer === undefined ? null : answer.data.toLowerCase().replace(/\.$/, "");
+  } catch (e) {
+    console.error(`Reverse DNS lookup failed for ${address}:`, e);
+    return null;
+  }
+}
+
+/**
+ * Fills in each record's sourceHostname from reverse DNS. Pass one `hostnames` cache (PTR
+ * answers by source IP, null when the lookup failed) for every report in an email: cached
+ * addresses are not looked up again, and at most MAX_HOSTNAME_LOOKUPS addresses are resolved
+ * across all of them. The rest stay null.
+ */
+export async function resolveSourceHostnames(
+  report: DMARCReport,
+  hostnames = new Map<string, string | null>(),
+): Promise<DMARCReport> {
+  const addresses = [...new Set(report.records.map((record) => record.sourceIp))]
+    .filter((address) => !hostnames.has(address))
+    .slice(0, Math.max(0, MAX_HOSTNAME_LOOKUPS - hostnames.size));
+  const resolved = await Promise.all(
+    addresses.map(async (address) => [address, await lookupHostname(address)] as const),
+  );
+  for (const [address, hostname] of resolved) {
+    hostnames.set(address, hostname);
+  }
+  return {
+    ...report,
+    records: report.records.map((record) => ({
+      ...record,
+      sourceHostname: hostnames.get(record.sourceIp) ?? null,
+    })),
+  };
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const source = (
+    sourceIp: string,
+    messageCount: number,
+    overrides: Partial<SenderSource> = {},
+  ): SenderSource => ({
+    sourceIp,
+    sourceHostname: null,
+    dkimDomain: null,
+    messageCount,
+    dmarcPass: messageCount,
+    ...overrides,
+  });
+
+  describe("cidrContains", () => {
+    it("matches IPv4 and IPv6 ranges", () => {
+      expect(cidrContains("209.85.128.0/17", "209.85.220.41")).toBe(true);
+      expect(cidrContains("209.85.128.0/17", "209.85.127.255")).toBe(false);
+      expect(cidrContains("2a00:1450:4000::/36", "2a00:1450:4864:20::32a")).toBe(true);
+      expect(cidrContains("2a00:1450:4000::/36", "2a00:1450:8000::1")).toBe(false);
+      expect(cidrContains("192.0.2.1", "192.0.2.1")).toBe(true);
+    });
+
+    it("never matches across address families or invalid input", () => {
+      expect(cidrContains("0.0.0.0/0", "2001:db8::1")).toBe(false);
+      expect(cidrContains("192.0.2.0/33", "192.0.2.1")).toBe(false);
+      expect(cidrContains("192.0.2.0/24", "192.0.2.256")).toBe(false);
+      expect(cidrContains("2001:db8::/32", "2001:db8::1::1")).toBe(false);
+    });
+  });
+
+  describe("normalizeSenderPattern", () => {
+    it("validates patterns for their kind", () => {
+      expect(normalizeSenderPattern("cidr", " 2001:DB8::/32 ")).toBe("2001:db8::/32");
+      expect(normalizeSenderPattern("cidr", "mail.example.com")).toBeNull();
+      expect(normalizeSenderPattern("hostname", "Mail.Example.com.")).toBe("mail.example.com");
+      expect(normalizeSenderPattern("dkim_domain", "192.0.2.0/24")).toBeNull();
+    });
+  });
+
+  describe("summarizeSenders", () => {
+    const rules = [
+      { service: "Our MTAs", kind: "cidr", pattern: "192.0.2.0/24" } as const,
+      ...catalogueRules(),
+    ];
+
+    it("classifies by IP range, reverse DNS name and DKIM domain", () => {
+      const { services, unclassified } = summarizeSenders(
+        [
+          source("209.85.220.41", 500, { dmarcPass: 490 }),
+          source("192.0.2.10", 200),
+          source("192.0.2.11", 100),
+          source("198.51.100.7", 40, { sourceHostname: "o1.ptr1234.sendgrid.net" }),
+          source("198.51.100.8", 10, { dkimDomain: "em.sendgrid.net" }),
+          source("203.0.113.5", 30, { dkimDomain: "shadow-crm.example", dmarcPass: 0 }),
+        ],
+        rules,
+      );
+
+      expect(services).toEqual([
+        {
+          service: "Google Workspace",
+          sources: 1,
+          messageCount: 500,
+          dmarcPass: 490,
+          passRate: 0.98,
+        },
+        { service: "Our MTAs", sources: 2, messageCount: 300, dmarcPass: 300, passRate: 1 },
+        { service: "SendGrid", sources: 2, messageCount: 50, dmarcPass: 50, passRate: 1 },
+      ]);
+      expect(unclassified.map((entry) => entry.sourceIp)).toEqual(["203.0.113.5"]);
+    });
+
+    it("lets earlier rules win", () => {
+      const withRelay = [
+        { service: "Our relay", kind: "cidr", pattern: "209.85.220.0/24" } as const,
+        ...catalogueRules(),
+      ];
+      expect(classifySource(source("209.85.220.41", 1), withRelay)).toBe("Our relay");
+    });
+  });
+
+  describe("reverseName", () => {
+    it("builds PTR query names", () => {
+      expect(reverseName("192.0.2.10")).toBe("10.2.0.192.in-addr.arpa");
+      expect(reverseName("2001:db8::1")).toBe(
+        "1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa",
+      );
+      expect(reverseName("not an address")).toBeNull();
+    });
+  });
+}
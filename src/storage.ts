@@ -1,11 +1,19 @@
 import postgres from "postgres";
 
-import type { DMARCReport, Env, TLSReport } from "./types";
+import { mergeTLSPolicies } from "./tlsrpt";
+import type {
+  DMARCReport,
+  Env,
+  FailureReport,
+  StoreOptions,
+  TLSFailureDetail,
+  TLSReport,
+} from "./types";
 
 // Hyperdrive connection singleton
 let hyperdriveClient: ReturnType<typeof postgres> | null = null;
 
-function getPostgresClient(env: Env): ReturnType<typeof postgres> | null {
+export function getPostgresClient(env: Env): ReturnType<typeof postgres> | null {
   if (hyperdriveClient === null && env.HYPERDRIVE !== undefined) {
     hyperdriveClient = postgres(env.HYPERDRIVE.connectionString);
   }
@@ -16,45 +24,184 @@ export async function storeReport(
   report: DMARCReport,
   type: "dmarc" | "tlsrpt",
   env: Env,
+  options: StoreOptions = {},
 ): Promise<void> {
-  storeInAnalytics(report, type, env);
+  // Quarantined reports stay out of the metrics until their reporter is trusted, and a replay
+  // would count the report twice
+  if (options.quarantined !== true && options.replay !== true) {
+    storeInAnalytics(report, type, env);
+  }
   await Promise.allSettled([
-    storeInD1(report, env.DB),
-    env.HYPERDRIVE !== undefined ? storeInPostgres(report, env) : Promise.resolve(),
+    storeInD1(report, env.DB, options),
+    env.HYPERDRIVE !== undefined ? storeInPostgres(report, env, options) : Promise.resolve(),
   ]);
 }
 
-export async function storeTLSReport(report: TLSReport, env: Env): Promise<void> {
-  const policies = report.policies ?? [];
+export async function storeTLSReport(
+  report: TLSReport,
+  env: Env,
+  options: StoreOptions = {},
+): Promise<void> {
+  if (options.quarantined !== true && options.replay !== true) {
+    storeTLSInAnalytics(report, env);
+  }
+  // Both stores key policy rows on (policy domain, policy type), which a report may repeat
+  const merged: TLSReport =
+    report.policies === undefined
+      ? report
+      : { ...report, policies: mergeTLSPolicies(report.policies) };
+  await Promise.allSettled([
+    storeTLSInD1(merged, env.DB, options),
+    env.HYPERDRIVE !== undefined ? storeTLSInPostgres(merged, env, options) : Promise.resolve(),
+  ]);
+}
 
-  for (const policy of policies) {
-    try {
-      await env.DB.prepare(
-        `
-        INSERT INTO tls_reports
-        (report_id, org_name, policy_domain, policy_type,
-         total_success, total_failures, failure_details, begin_date, end_date)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `,
-      )
-        .bind(
-          report["report-id"],
-          report["organization-name"],
-          policy["policy-domain"],
-          policy["policy-type"],
-          policy.summary["total-successful-session-count"],
-          policy.summary["total-failure-session-count"],
-          JSON.stringify(policy["failure-details"] ?? []),
-          new Date(report["date-range"]["start-datetime"]).getTime() / 1000,
-          new Date(report["date-range"]["end-datetime"]).getTime() / 1000,
-        )
-        .run();
-    } catch (e) {
-      console.error("TLS-RPT insert failed:", e);
-    }
+// Failure reports are per-message evidence rather than metrics, so they skip Analytics
+export async function storeFailureReport(
+  report: FailureReport,
+  reporter: string,
+  env: Env,
+  options: StoreOptions = {},
+): Promise<void> {
+  const fingerprint = await failureFingerprint(report);
+  await Promise.allSettled([
+    storeFailureInD1(report, reporter, fingerprint, env.DB, options),
+    env.HYPERDRIVE !== undefined
+      ? storeFailureInPostgres(report, reporter, fingerprint, env, options)
+      : Promise.resolve(),
+  ]);
+}
+
+// Identifies a failure report per reporter, so a resent or replayed copy is stored once
+async function failureFingerprint(report: FailureReport): Promise<string> {
+  const key = JSON.stringify([report.sourceIp, report.arrivalDate, report.originalHeaders]);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Date range of a TLS-RPT report in Unix seconds
+function tlsDateRange(report: TLSReport): { beginDate: number; endDate: number } {
+  return {
+    beginDate: new Date(report["date-range"]["start-datetime"]).getTime() / 1000,
+    endDate: new Date(report["date-range"]["end-datetime"]).getTime() / 1000,
+  };
+}
+
+// One data point per policy, so session counts can be summed per policy domain
+function storeTLSInAnalytics(report: TLSReport, env: Env): void {
+  for (const { policy, summary } of report.policies ?? []) {
+    env.ANALYTICS.writeDataPoint({
+      blobs: [
+        report["organization-name"],
+        policy["policy-domain"],
+        report["report-id"],
+        "tlsrpt",
+        policy["policy-type"],
+      ],
+      doubles: [summary["total-successful-session-count"], summary["total-failure-session-count"]],
+      indexes: [policy["policy-domain"]],
+    });
   }
 }
 
+// Natural key of a stored TLS-RPT policy row; bound as org, report ID, policy domain, policy type
+const TLS_REPORT_KEY = `org_name = ? AND report_id = ? AND policy_domain = ? AND policy_type = ?`;
+
+// Upserts every policy row and replaces its failure details in one D1 batch (a transaction),
+// so a resent or replayed report overwrites the earlier copy instead of adding to it.
+// Like DMARC reports, a trusted copy releases a quarantined one but never the reverse
+async function storeTLSInD1(
+  report: TLSReport,
+  db: D1Database,
+  options: StoreOptions,
+): Promise<void> {
+  const { beginDate, endDate } = tlsDateRange(report);
+  const statements = (report.policies ?? []).flatMap(
+    ({ policy, summary, "failure-details": details = [] }) => {
+      const key = [
+        report["organization-name"],
+        report["report-id"],
+        policy["policy-domain"],
+        policy["policy-type"],
+      ];
+      return [
+        db
+          .prepare(
+            `
+          INSERT INTO tls_reports
+          (org_name, report_id, policy_domain, policy_type, policy_string, mx_host,
+           total_success, total_failures, begin_date, end_date, quarantined, tenant_id)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (org_name, report_id, policy_domain, policy_type) DO UPDATE SET
+            policy_string = excluded.policy_string,
+            mx_host = excluded.mx_host,
+            total_success = excluded.total_success,
+            total_failures = excluded.total_failures,
+            begin_date = excluded.begin_date,
+            end_date = excluded.end_date,
+            quarantined = MIN(quarantined, excluded.quarantined),
+            tenant_id = excluded.tenant_id
+        `,
+          )
+          .bind(
+            ...key,
+            JSON.stringify(policy["policy-string"] ?? []),
+            JSON.stringify(policy["mx-host"] ?? []),
+            summary["total-successful-session-count"],
+            summary["total-failure-session-count"],
+            beginDate,
+            endDate,
+            options.quarantined === true ? 1 : 0,
+            options.tenantId ?? null,
+          ),
+        db
+          .prepare(
+            `DELETE FROM tls_failure_details
+             WHERE tls_report_id = (SELECT id FROM tls_reports WHERE ${TLS_REPORT_KEY})`,
+          )
+          .bind(...key),
+        ...details.map((detail) => bindD1FailureDetail(db, key, detail)),
+      ];
+    },
+  );
+
+  if (statements.length === 0) {
+    return;
+  }
+  try {
+    await db.batch(statements);
+  } catch (e) {
+    console.error("TLS-RPT D1 insert failed:", e);
+  }
+}
+
+function bindD1FailureDetail(
+  db: D1Database,
+  key: string[],
+  detail: TLSFailureDetail,
+): D1PreparedStatement {
+  return db
+    .prepare(
+      `
+      INSERT INTO tls_failure_details
+      (tls_report_id, result_type, sending_mta_ip, receiving_mx_hostname, receiving_mx_helo,
+       receiving_ip, failed_session_count, additional_information, failure_reason_code)
+      VALUES ((SELECT id FROM tls_reports WHERE ${TLS_REPORT_KEY}), ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    )
+    .bind(
+      ...key,
+      detail["result-type"],
+      detail["sending-mta-ip"] ?? null,
+      detail["receiving-mx-hostname"] ?? null,
+      detail["receiving-mx-helo"] ?? null,
+      detail["receiving-ip"] ?? null,
+      detail["failed-session-count"],
+      detail["additional-information"] ?? null,
+      detail["failure-reason-code"] ?? null,
+    );
+}
+
 function storeInAnalytics(report: DMARCReport, type: string, env: Env): void {
   env.ANALYTICS.writeDataPoint({
     blobs: [report.orgName, report.domain, report.reportId, type],
@@ -65,22 +212,53 @@ function storeInAnalytics(report: DMARCReport, type: string, env: Env): void {
       report.spfPass,
       report.spfFail,
       report.spfTemperror,
+      report.messageCount,
+      report.dmarcPass,
+      report.dmarcFail,
+      report.dkimPassResults,
+      report.dkimFailResults,
+      report.dkimTemperrorResults,
+      report.spfPassResults,
+      report.spfFailResults,
+      report.spfTemperrorResults,
     ],
     indexes: [report.domain],
   });
 }
 
-async function storeInD1(report: DMARCReport, db: D1Database): Promise<void> {
-  try {
-    await db
+// Natural key of a stored DMARC report; bound as org, report ID, domain
+const DMARC_REPORT_KEY = `org_name = ? AND report_id = ? AND domain = ?`;
+
+// Writes the report, its source totals and its records in one D1 batch (a transaction), so a
+// failure leaves nothing behind and a retry starts over
+async function storeInD1(
+  report: DMARCReport,
+  db: D1Database,
+  options: StoreOptions,
+): Promise<void> {
+  const key = [report.orgName, report.reportId, report.domain];
+  const statements = [
+    // Source totals go first, while the report row cannot exist yet unless this is a duplicate
+    // or the release of a quarantined copy
+    ...(options.quarantined === true ? [] : [bindD1Sources(db, report, key)]),
+    db
       .prepare(
         `
       INSERT INTO dmarc_reports
       (report_id, org_name, domain, begin_date, end_date,
+       message_count, dmarc_pass, dmarc_fail,
        dkim_pass, dkim_fail, dkim_temperror,
-       spf_pass, spf_fail, spf_temperror, policy_p, raw_xml)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      ON CONFLICT (report_id) DO NOTHING
+       spf_pass, spf_fail, spf_temperror,
+       dkim_pass_results, dkim_fail_results, dkim_temperror_results,
+       spf_pass_results, spf_fail_results, spf_temperror_results,
+       dkim_aligned_pass, spf_aligned_pass, dmarc_aligned_pass,
+       policy_p, policy_sp, policy_adkim, policy_aspf, policy_pct, policy_fo,
+       policy_np, policy_testing, policy_discovery_method, schema_version, generator,
+       raw_xml, quarantined, tenant_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
+              ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (org_name, report_id, domain) DO UPDATE SET quarantined = 0
+      WHERE quarantined = 1 AND excluded.quarantined = 0
     `,
       )
       .bind(
@@ -89,22 +267,395 @@ async function storeInD1(report: DMARCReport, db: D1Database): Promise<void> {
         report.domain,
         report.beginDate,
         report.endDate,
+        report.messageCount,
+        report.dmarcPass,
+        report.dmarcFail,
         report.dkimPass,
         report.dkimFail,
         report.dkimTemperror,
         report.spfPass,
         report.spfFail,
         report.spfTemperror,
+        report.dkimPassResults,
+        report.dkimFailResults,
+        report.dkimTemperrorResults,
+        report.spfPassResults,
+        report.spfFailResults,
+        report.spfTemperrorResults,
+        report.dkimAlignedPass,
+        report.spfAlignedPass,
+        report.dmarcAlignedPass,
         report.policyP,
+        report.policySp,
+        report.policyAdkim,
+        report.policyAspf,
+        report.policyPct,
+        report.policyFo,
+        report.policyNp,
+        report.policyTesting,
+        report.policyDiscoveryMethod,
+        report.schemaVersion,
+        report.generator,
         report.rawXml,
+        options.quarantined === true ? 1 : 0,
+        options.tenantId ?? null,
+      ),
+    bindD1Records(db, report, key),
+  ];
+
+  try {
+    await db.batch(statements);
+  } catch (e) {
+    console.error("D1 insert failed:", e);
+  }
+}
+
+// Records are added only while their report has none, so a duplicate report adds nothing
+function bindD1Records(db: D1Database, report: DMARCReport, key: string[]): D1PreparedStatement {
+  const records = report.records.map((record) => ({
+    source_ip: record.sourceIp,
+    count: record.count,
+    disposition: record.disposition,
+    dkim_evaluated: record.dkimEvaluated,
+    spf_evaluated: record.spfEvaluated,
+    reasons: JSON.stringify(record.reasons),
+    header_from: record.headerFrom,
+    envelope_from: record.envelopeFrom,
+    envelope_to: record.envelopeTo,
+    dkim_aligned: d1Boolean(record.dkimAligned),
+    spf_aligned: d1Boolean(record.spfAligned),
+    dkim_domain: record.dkimDomain,
+    source_hostname: record.sourceHostname,
+  }));
+  return db
+    .prepare(
+      `
+      INSERT INTO dmarc_records
+      (dmarc_report_id, source_ip, count, disposition, dkim_evaluated, spf_evaluated,
+       reasons, header_from, envelope_from, envelope_to, dkim_aligned, spf_aligned,
+       dkim_domain, source_hostname)
+      SELECT p.id, json_extract(r.value, '$.source_ip'), json_extract(r.value, '$.count'),
+             json_extract(r.value, '$.disposition'), json_extract(r.value, '$.dkim_evaluated'),
+             json_extract(r.value, '$.spf_evaluated'), json_extract(r.value, '$.reasons'),
+             json_extract(r.value, '$.header_from'), json_extract(r.value, '$.envelope_from'),
+             json_extract(r.value, '$.envelope_to'), json_extract(r.value, '$.dkim_aligned'),
+             json_extract(r.value, '$.spf_aligned'), json_extract(r.value, '$.dkim_domain'),
+             json_extract(r.value, '$.source_hostname')
+      FROM (SELECT id FROM dmarc_reports WHERE ${DMARC_REPORT_KEY}) p, json_each(?) r
+      WHERE NOT EXISTS (SELECT 1 FROM dmarc_records WHERE dmarc_report_id = p.id)
+    `,
+    )
+    .bind(...key, JSON.stringify(records));
+}
+
+interface ObservedSource {
+  sourceIp: string;
+  messageCount: number;
+  dmarcPass: number;
+}
+
+// A report's records totalled per source IP; a record passes DMARC when DKIM or SPF passed
+function observedSources(report: DMARCReport): ObservedSource[] {
+  const sources = new Map<string, ObservedSource>();
+  for (const record of report.records) {
+    const source = sources.get(record.sourceIp) ?? {
+      sourceIp: record.sourceIp,
+      messageCount: 0,
+      dmarcPass: 0,
+    };
+    source.messageCount += record.count;
+    if (record.dkimEvaluated === "pass" || record.spfEvaluated === "pass") {
+      source.dmarcPass += record.count;
+    }
+    sources.set(record.sourceIp, source);
+  }
+  return [...sources.values()];
+}
+
+// The first report to list a source decides whether it is suspected spoofing:
+// later reports only widen its date range and add to its totals. Skipped when the
+// report is already stored unquarantined, so a duplicate is not counted twice.
+// Sources are tracked per domain across every tenant.
+function bindD1Sources(db: D1Database, report: DMARCReport, key: string[]): D1PreparedStatement {
+  const sources = observedSources(report).map((source) => ({
+    source_ip: source.sourceIp,
+    message_count: source.messageCount,
+    dmarc_pass: source.dmarcPass,
+  }));
+  return db
+    .prepare(
+      `
+      INSERT INTO dmarc_sources
+      (domain, source_ip, first_seen, last_seen, message_count, dmarc_pass, report_count,
+       first_org_name, first_report_id, suspected_spoofing)
+      SELECT ?, json_extract(s.value, '$.source_ip'), ?, ?,
+             json_extract(s.value, '$.message_count'), json_extract(s.value, '$.dmarc_pass'), 1,
+             ?, ?, json_extract(s.value, '$.dmarc_pass') = 0
+      FROM json_each(?) s
+      WHERE NOT EXISTS (SELECT 1 FROM dmarc_reports WHERE ${DMARC_REPORT_KEY} AND quarantined = 0)
+      ON CONFLICT (domain, source_ip) DO UPDATE SET
+        first_seen = MIN(first_seen, excluded.first_seen),
+        last_seen = MAX(last_seen, excluded.last_seen),
+        message_count = message_count + excluded.message_count,
+        dmarc_pass = dmarc_pass + excluded.dmarc_pass,
+        report_count = report_count + 1
+    `,
+    )
+    .bind(
+      report.domain,
+      report.beginDate,
+      report.endDate,
+      report.orgName,
+      report.reportId,
+      JSON.stringify(sources),
+      ...key,
+    );
+}
+
+function d1Boolean(value: boolean | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+async function storeInPostgres(
+  report: DMARCReport,
+  env: Env,
+  options: StoreOptions,
+): Promise<void> {
+  const client = getPostgresClient(env);
+  if (client === null) {
+    return;
+  }
+
+  const records = report.records.map((record) => ({
+    source_ip: record.sourceIp,
+    count: record.count,
+    disposition: record.disposition,
+    dkim_evaluated: record.dkimEvaluated,
+    spf_evaluated: record.spfEvaluated,
+    reasons: record.reasons,
+    header_from: record.headerFrom,
+    envelope_from: record.envelopeFrom,
+    envelope_to: record.envelopeTo,
+    dkim_aligned: record.dkimAligned,
+    spf_aligned: record.spfAligned,
+    dkim_domain: record.dkimDomain,
+    source_hostname: record.sourceHostname,
+  }));
+
+  const sources = (options.quarantined === true ? [] : observedSources(report)).map((source) => ({
+    source_ip: source.sourceIp,
+    message_count: source.messageCount,
+    dmarc_pass: source.dmarcPass,
+  }));
+
+  // Single statement so the report, its records and the source totals land atomically.
+  // A duplicate report returns no row and therefore adds no records or totals either; a
+  // trusted copy of a quarantined report releases it and adds its totals, but not its records again
+  try {
+    await client`
+      WITH inserted AS (
+        INSERT INTO dmarc_reports
+        (report_id, org_name, domain, begin_date, end_date,
+         message_count, dmarc_pass, dmarc_fail,
+         dkim_pass, dkim_fail, dkim_temperror,
+         spf_pass, spf_fail, spf_temperror,
+         dkim_pass_results, dkim_fail_results, dkim_temperror_results,
+         spf_pass_results, spf_fail_results, spf_temperror_results,
+         dkim_aligned_pass, spf_aligned_pass, dmarc_aligned_pass,
+         policy_p, policy_sp, policy_adkim, policy_aspf, policy_pct, policy_fo,
+         policy_np, policy_testing, policy_discovery_method, schema_version, generator,
+         raw_xml, quarantined, tenant_id)
+        VALUES
+        (${report.reportId}, ${report.orgName}, ${report.domain},
+         to_timestamp(${report.beginDate}), to_timestamp(${report.endDate}),
+         ${report.messageCount}, ${report.dmarcPass}, ${report.dmarcFail},
+         ${report.dkimPass}, ${report.dkimFail}, ${report.dkimTemperror},
+         ${report.spfPass}, ${report.spfFail}, ${report.spfTemperror},
+         ${report.dkimPassResults}, ${report.dkimFailResults}, ${report.dkimTemperrorResults},
+         ${report.spfPassResults}, ${report.spfFailResults}, ${report.spfTemperrorResults},
+         ${report.dkimAlignedPass}, ${report.spfAlignedPass}, ${report.dmarcAlignedPass},
+         ${report.policyP}, ${report.policySp}, ${report.policyAdkim}, ${report.policyAspf},
+         ${report.policyPct}, ${report.policyFo}, ${report.policyNp}, ${report.policyTesting},
+         ${report.policyDiscoveryMethod}, ${report.schemaVersion}, ${report.generator},
+         ${report.rawXml}, ${options.quarantined === true}, ${options.tenantId ?? null})
+        ON CONFLICT (org_name, report_id, domain) DO UPDATE SET quarantined = false
+        WHERE dmarc_reports.quarantined AND NOT excluded.quarantined
+        RETURNING id
+      ), inserted_records AS (
+        INSERT INTO dmarc_records
+        (dmarc_report_id, source_ip, count, disposition, dkim_evaluated, spf_evaluated,
+         reasons, header_from, envelope_from, envelope_to, dkim_aligned, spf_aligned,
+         dkim_domain, source_hostname)
+        SELECT inserted.id, r.source_ip, r.count, r.disposition, r.dkim_evaluated, r.spf_evaluated,
+               r.reasons, r.header_from, r.envelope_from, r.envelope_to, r.dkim_aligned,
+               r.spf_aligned, r.dkim_domain, r.source_hostname
+        FROM inserted, jsonb_to_recordset(${client.json(records)}) AS r(
+          source_ip TEXT, count INTEGER, disposition TEXT, dkim_evaluated TEXT, spf_evaluated TEXT,
+          reasons JSONB, header_from TEXT, envelope_from TEXT, envelope_to TEXT,
+          dkim_aligned BOOLEAN, spf_aligned BOOLEAN, dkim_domain TEXT, source_hostname TEXT
+        )
+        WHERE NOT EXISTS (SELECT 1 FROM dmarc_records WHERE dmarc_report_id = inserted.id)
+      )
+      INSERT INTO dmarc_sources
+      (domain, source_ip, first_seen, last_seen, message_count, dmarc_pass, report_count,
+       first_org_name, first_report_id, suspected_spoofing)
+      SELECT ${report.domain}, s.source_ip, to_timestamp(${report.beginDate}),
+             to_timestamp(${report.endDate}), s.message_count, s.dmarc_pass, 1,
+             ${report.orgName}, ${report.reportId}, s.dmarc_pass = 0
+      FROM inserted, jsonb_to_recordset(${client.json(sources)}) AS s(
+        source_ip TEXT, message_count INTEGER, dmarc_pass INTEGER
+      )
+      ON CONFLICT (domain, source_ip) DO UPDATE SET
+        first_seen = LEAST(dmarc_sources.first_seen, excluded.first_seen),
+        last_seen = GREATEST(dmarc_sources.last_seen, excluded.last_seen),
+        message_count = dmarc_sources.message_count + excluded.message_count,
+        dmarc_pass = dmarc_sources.dmarc_pass + excluded.dmarc_pass,
+        report_count = dmarc_sources.report_count + 1
+    `;
+  } catch (e) {
+    console.error("Postgres insert failed:", e);
+  }
+}
+
+async function storeTLSInPostgres(
+  report: TLSReport,
+  env: Env,
+  options: StoreOptions,
+): Promise<void> {
+  const client = getPostgresClient(env);
+  const policies = report.policies ?? [];
+  if (client === null || policies.length === 0) {
+    return;
+  }
+
+  const { beginDate, endDate } = tlsDateRange(report);
+  const rows = policies.map(({ policy, summary, "failure-details": details = [] }) => ({
+    policy_domain: policy["policy-domain"],
+    policy_type: policy["policy-type"],
+    policy_string: policy["policy-string"] ?? [],
+    mx_host: policy["mx-host"] ?? [],
+    total_success: summary["total-successful-session-count"],
+    total_failures: summary["total-failure-session-count"],
+    failure_details: details.map((detail) => ({
+      result_type: detail["result-type"],
+      sending_mta_ip: detail["sending-mta-ip"] ?? null,
+      receiving_mx_hostname: detail["receiving-mx-hostname"] ?? null,
+      receiving_mx_helo: detail["receiving-mx-helo"] ?? null,
+      receiving_ip: detail["receiving-ip"] ?? null,
+      failed_session_count: detail["failed-session-count"],
+      additional_information: detail["additional-information"] ?? null,
+      failure_reason_code: detail["failure-reason-code"] ?? null,
+    })),
+  }));
+
+  // Single statement so the policies and their failure details land atomically. Policy rows
+  // are upserted on their natural key and their previous failure details replaced;
+  // details find their policy row again by (policy_domain, policy_type)
+  try {
+    await client`
+      WITH input AS (
+        SELECT * FROM jsonb_to_recordset(${client.json(rows)}) AS p(
+          policy_domain TEXT, policy_type TEXT, policy_string JSONB, mx_host JSONB,
+          total_success INTEGER, total_failures INTEGER, failure_details JSONB
+        )
+      ), inserted AS (
+        INSERT INTO tls_reports
+        (org_name, report_id, policy_domain, policy_type, policy_string, mx_host,
+         total_success, total_failures, begin_date, end_date, quarantined, tenant_id)
+        SELECT ${report["organization-name"]}, ${report["report-id"]}, policy_domain, policy_type,
+               policy_string, mx_host, total_success, total_failures,
+               to_timestamp(${beginDate}), to_timestamp(${endDate}), ${options.quarantined === true},
+               ${options.tenantId ?? null}
+        FROM input
+        ON CONFLICT (org_name, report_id, policy_domain, policy_type) DO UPDATE SET
+          policy_string = excluded.policy_string,
+          mx_host = excluded.mx_host,
+          total_success = excluded.total_success,
+          total_failures = excluded.total_failures,
+          begin_date = excluded.begin_date,
+          end_date = excluded.end_date,
+          quarantined = tls_reports.quarantined AND excluded.quarantined,
+          tenant_id = excluded.tenant_id
+        RETURNING id, policy_domain, policy_type
+      ), cleared AS (
+        DELETE FROM tls_failure_details WHERE tls_report_id IN (SELECT id FROM inserted)
+      )
+      INSERT INTO tls_failure_details
+      (tls_report_id, result_type, sending_mta_ip, receiving_mx_hostname, receiving_mx_helo,
+       receiving_ip, failed_session_count, additional_information, failure_reason_code)
+      SELECT inserted.id, d.result_type, d.sending_mta_ip, d.receiving_mx_hostname,
+             d.receiving_mx_helo, d.receiving_ip, d.failed_session_count,
+             d.additional_information, d.failure_reason_code
+      FROM inserted
+      JOIN input USING (policy_domain, policy_type),
+      jsonb_to_recordset(input.failure_details) AS d(
+        result_type TEXT, sending_mta_ip TEXT, receiving_mx_hostname TEXT, receiving_mx_helo TEXT,
+        receiving_ip TEXT, failed_session_count INTEGER, additional_information TEXT,
+        failure_reason_code TEXT
+      )
+    `;
+  } catch (e) {
+    console.error("TLS-RPT Postgres insert failed:", e);
+  }
+}
+
+async function storeFailureInD1(
+  report: FailureReport,
+  reporter: string,
+  fingerprint: string,
+  db: D1Database,
+  options: StoreOptions,
+): Promise<void> {
+  try {
+    await db
+      .prepare(
+        `
+      INSERT INTO failure_reports
+      (reporter, feedback_type, user_agent, version, auth_failure, source_ip, reported_domain,
+       original_mail_from, original_rcpt_to, arrival_date, delivery_result, identity_alignment,
+       dkim_domain, dkim_identity, dkim_selector, spf_dns, incidents, original_headers,
+       redacted, quarantined, tenant_id, fingerprint)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (reporter, fingerprint) DO NOTHING
+    `,
+      )
+      .bind(
+        reporter,
+        report.feedbackType,
+        report.userAgent,
+        report.version,
+        report.authFailure,
+        report.sourceIp,
+        report.reportedDomain,
+        report.originalMailFrom,
+        JSON.stringify(report.originalRcptTo),
+        report.arrivalDate,
+        report.deliveryResult,
+        report.identityAlignment,
+        report.dkimDomain,
+        report.dkimIdentity,
+        report.dkimSelector,
+        report.spfDns,
+        report.incidents,
+        report.originalHeaders,
+        report.redacted ? 1 : 0,
+        options.quarantined === true ? 1 : 0,
+        options.tenantId ?? null,
+        fingerprint,
       )
       .run();
   } catch (e) {
-    console.error("D1 insert failed:", e);
+    console.error("Failure report D1 insert failed:", e);
   }
 }
 
-async function storeInPostgres(report: DMARCReport, env: Env): Promise<void> {
+async function storeFailureInPostgres(
+  report: FailureReport,
+  reporter: string,
+  fingerprint: string,
+  env: Env,
+  options: StoreOptions,
+): Promise<void> {
   const client = getPostgresClient(env);
   if (client === null) {
     return;
@@ -112,19 +663,22 @@ async function storeInPostgres(report: DMARCReport, env: Env): Promise<void> {
 
   try {
     await client`
-      INSERT INTO dmarc_reports
-      (report_id, org_name, domain, begin_date, end_date,
-       dkim_pass, dkim_fail, dkim_temperror,
-       spf_pass, spf_fail, spf_temperror, policy_p, raw_xml)
+      INSERT INTO failure_reports
+      (reporter, feedback_type, user_agent, version, auth_failure, source_ip, reported_domain,
+       original_mail_from, original_rcpt_to, arrival_date, delivery_result, identity_alignment,
+       dkim_domain, dkim_identity, dkim_selector, spf_dns, incidents, original_headers,
+       redacted, quarantined, tenant_id, fingerprint)
       VALUES
-      (${report.reportId}, ${report.orgName}, ${report.domain},
-       to_timestamp(${report.beginDate}), to_timestamp(${report.endDate}),
-       ${report.dkimPass}, ${report.dkimFail}, ${report.dkimTemperror},
-       ${report.spfPass}, ${report.spfFail}, ${report.spfTemperror},
-       ${report.policyP}, ${report.rawXml})
-      ON CONFLICT (report_id) DO NOTHING
+      (${reporter}, ${report.feedbackType}, ${report.userAgent}, ${report.version},
+       ${report.authFailure}, ${report.sourceIp}, ${report.reportedDomain},
+       ${report.originalMailFrom}, ${client.json(report.originalRcptTo)},
+       to_timestamp(${report.arrivalDate}), ${report.deliveryResult}, ${report.identityAlignment},
+       ${report.dkimDomain}, ${report.dkimIdentity}, ${report.dkimSelector}, ${report.spfDns},
+       ${report.incidents}, ${report.originalHeaders}, ${report.redacted},
+       ${options.quarantined === true}, ${options.tenantId ?? null}, ${fingerprint})
+      ON CONFLICT (reporter, fingerprint) DO NOTHING
     `;
   } catch (e) {
-    console.error("Postgres insert failed:", e);
+    console.error("Failure report Postgres insert failed:", e);
   }
 }
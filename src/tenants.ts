@@ -0,0 +1,238 @@
+import { parseStringList } from "./queries";
+import { getPostgresClient } from "./storage";
+import type { Env, Tenant } from "./types";
+
+const TENANT_ID_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,62}[a-z0-9])?$/;
+
+const TENANT_COLUMNS = `
+  id, name, addresses, trusted_reporters AS trustedReporters,
+  retention_days AS retentionDays, api_key_hash IS NOT NULL AS hasApiKey,
+  created_at AS createdAt`;
+
+interface TenantRow extends Omit<Tenant, "addresses" | "trustedReporters" | "hasApiKey"> {
+  addresses: string;
+  trustedReporters: string;
+  hasApiKey: number;
+}
+
+function toTenant(row: TenantRow): Tenant {
+  return {
+    ...row,
+    addresses: parseStringList(row.addresses),
+    trustedReporters: parseStringList(row.trustedReporters),
+    hasApiKey: row.hasApiKey === 1,
+  };
+}
+
+export function normalizeTenantId(id: string): string | null {
+  const normalized = id.trim().toLowerCase();
+  return TENANT_ID_PATTERN.test(normalized) ? normalized : null;
+}
+
+// The +tag of a subaddressed recipient, e.g. "acme" for dmarc+acme@reports.example
+function subaddressTag(address: string): string | null {
+  const local = address.split("@")[0] ?? "";
+  const separator = local.indexOf("+");
+  return separator === -1 ? null : local.slice(separator + 1);
+}
+
+// An exact address wins over a +tag, so a tenant can claim any address
+export function matchTenant(recipient: string, tenants: Tenant[]): Tenant | null {
+  const address = recipient.trim().toLowerCase();
+  const tag = subaddressTag(address);
+  return (
+    tenants.find((tenant) => tenant.addresses.includes(address)) ??
+    tenants.find((tenant) => tenant.id === tag) ??
+    null
+  );
+}
+
+async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export async function listTenants(env: Env): Promise<Tenant[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT ${TENANT_COLUMNS} FROM tenants ORDER BY id`,
+  ).all<TenantRow>();
+  return results.map(toTenant);
+}
+
+export async function getTenant(id: string, env: Env): Promise<Tenant | null> {
+  const row = await env.DB.prepare(`SELECT ${TENANT_COLUMNS} FROM tenants WHERE id = ?`)
+    .bind(id)
+    .first<TenantRow>();
+  return row === null ? null : toTenant(row);
+}
+
+/**
+ * The tenant a report email addressed to `recipient` belongs to, or null for the shared pool.
+ * A failed lookup also answers null: the report is kept, visible to API_TOKEN only.
+ */
+export async function resolveTenant(recipient: string, env: Env): Promise<Tenant | null> {
+  try {
+    return matchTenant(recipient, await listTenants(env));
+  } catch (e) {
+    console.error(`Tenant lookup failed for ${recipient}:`, e);
+    return null;
+  }
+}
+
+export async function putTenant(
+  tenant: Omit<Tenant, "hasApiKey" | "createdAt">,
+  env: Env,
+): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO tenants (id, name, addresses, trusted_reporters, retention_days)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET
+       name = excluded.name,
+       addresses = excluded.addresses,
+       trusted_reporters = excluded.trusted_reporters,
+       retention_days = excluded.retention_days`,
+  )
+    .bind(
+      tenant.id,
+      tenant.name,
+      JSON.stringify(tenant.addresses),
+      JSON.stringify(tenant.trustedReporters),
+      tenant.retentionDays,
+    )
+    .run();
+}
+
+// Returns false when there was no such tenant. Its stored reports are kept.
+export async function removeTenant(id: string, env: Env): Promise<boolean> {
+  const result = await env.DB.prepare("DELETE FROM tenants WHERE id = ?").bind(id).run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Issues a new API key for the tenant, replacing any earlier one, and returns it.
+ * Only its digest is stored, so the key cannot be shown again. Null when there is no such tenant.
+ */
+export async function issueTenantApiKey(id: string, env: Env): Promise<string | null> {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const key = `dmarc_${[...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+  const result = await env.DB.prepare("UPDATE tenants SET api_key_hash = ? WHERE id = ?")
+    .bind(await hashApiKey(key), id)
+    .run();
+  return result.meta.changes > 0 ? key : null;
+}
+
+export async function findTenantByApiKey(key: string, env: Env): Promise<string | null> {
+  const row = await env.DB.prepare("SELECT id FROM tenants WHERE api_key_hash = ?")
+    .bind(await hashApiKey(key))
+    .first<{ id: string }>();
+  return row?.id ?? null;
+}
+
+// Deletes one tenant's reports that ended before `cutoff`; records and failure details cascade
+async function purgeInD1(tenantId: string, cutoff: number, db: D1Database): Promise<void> {
+  try {
+    await db.batch([
+      db
+        .prepare("DELETE FROM dmarc_reports WHERE tenant_id = ? AND end_date < ?")
+        .bind(tenantId, cutoff),
+      db
+        .prepare("DELETE FROM tls_reports WHERE tenant_id = ? AND end_date < ?")
+        .bind(tenantId, cutoff),
+      db
+        .prepare(
+          `DELETE FROM failure_reports
+           WHERE tenant_id = ? AND COALESCE(arrival_date, created_at) < ?`,
+        )
+        .bind(tenantId, cutoff),
+    ]);
+  } catch (e) {
+    console.error(`D1 retention failed for tenant ${tenantId}:`, e);
+  }
+}
+
+async function purgeInPostgres(tenantId: string, cutoff: number, env: Env): Promise<void> {
+  const client = getPostgresClient(env);
+  if (client === null) {
+    return;
+  }
+  try {
+    // Single statement so the three deletions land atomically
+    await client`
+      WITH dmarc AS (
+        DELETE FROM dmarc_reports
+        WHERE tenant_id = ${tenantId} AND end_date < to_timestamp(${cutoff})
+      ), tls AS (
+        DELETE FROM tls_reports
+        WHERE tenant_id = ${tenantId} AND end_date < to_timestamp(${cutoff})
+      )
+      DELETE FROM failure_reports
+      WHERE tenant_id = ${tenantId}
+        AND COALESCE(arrival_date, created_at) < to_timestamp(${cutoff})
+    `;
+  } catch (e) {
+    console.error(`Postgres retention failed for tenant ${tenantId}:`, e);
+  }
+}
+
+/**
+ * Cron entry point: deletes each tenant's stored reports older than its retention.
+ * Reports without a tenant, archived raw emails and the per-source history are left alone.
+ */
+export async function runRetention(env: Env, now: Date): Promise<void> {
+  for (const tenant of await listTenants(env)) {
+    if (tenant.retentionDays === null) {
+      continue;
+    }
+    const cutoff = Math.floor(now.getTime() / 1000) - tenant.retentionDays * 86400;
+    await Promise.allSettled([
+      purgeInD1(tenant.id, cutoff, env.DB),
+      env.HYPERDRIVE !== undefined ? purgeInPostgres(tenant.id, cutoff, env) : Promise.resolve(),
+    ]);
+  }
+}
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const tenant = (id: string, addresses: string[] = []): Tenant => ({
+    id,
+    name: id,
+    addresses,
+    trustedReporters: [],
+    retentionDays: null,
+    hasApiKey: false,
+    createdAt: null,
+  });
+
+  describe("matchTenant", () => {
+    const tenants = [tenant("acme"), tenant("globex", ["rua@globex.example", "dmarc+acme@x.test"])];
+
+    it("resolves a +tag to the tenant with that ID", () => {
+      expect(matchTenant("dmarc+acme@reports.example", tenants)?.id).toBe("acme");
+      expect(matchTenant("DMARC+ACME@reports.example", tenants)?.id).toBe("acme");
+    });
+
+    it("prefers an exact address over a +tag", () => {
+      expect(matchTenant("rua@globex.example", tenants)?.id).toBe("globex");
+      expect(matchTenant("dmarc+acme@x.test", tenants)?.id).toBe("globex");
+    });
+
+    it("leaves other recipients in the shared pool", () => {
+      expect(matchTenant("dmarc@reports.example", tenants)).toBeNull();
+      expect(matchTenant("dmarc+initech@reports.example", tenants)).toBeNull();
+    });
+  });
+
+  describe("normalizeTenantId", () => {
+    it("accepts lower-case slugs", () => {
+      expect(normalizeTenantId(" Acme-EU ")).toBe("acme-eu");
+    });
+
+    it("rejects IDs that cannot appear in a +tag", () => {
+      expect(normalizeTenantId("")).toBeNull();
+      expect(normalizeTenantId("acme corp")).toBeNull();
+      expect(normalizeTenantId("-acme")).toBeNull();
+      expect(normalizeTenantId("acme+eu")).toBeNull();
+    });
+  });
+}
@@ -1,17 +1,80 @@
-import type { TLSReport } from "./types";
+import { gzip, ungzip } from "pako";
 
+import type { TLSFailureDetail, TLSPolicy, TLSReport } from "./types";
+
+// RFC 8460 section 5.3.2 media types for HTTPS submissions
+export const TLSRPT_GZIP_MEDIA_TYPE = "application/tlsrpt+gzip";
+export const TLSRPT_JSON_MEDIA_TYPE = "application/tlsrpt+json";
+
+const POLICY_TYPES = new Set(["sts", "tlsa", "no-policy-found"]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === "string";
+}
+
+function isOptionalStringList(value: unknown): boolean {
+  return (
+    value === undefined || (Array.isArray(value) && value.every((item) => typeof item === "string"))
+  );
+}
+
+function isFailureDetail(value: unknown): value is TLSFailureDetail {
+  return (
+    isRecord(value) &&
+    typeof value["result-type"] === "string" &&
+    isCount(value["failed-session-count"]) &&
+    isOptionalString(value["sending-mta-ip"]) &&
+    isOptionalString(value["receiving-mx-hostname"]) &&
+    isOptionalString(value["receiving-mx-helo"]) &&
+    isOptionalString(value["receiving-ip"]) &&
+    isOptionalString(value["additional-information"]) &&
+    isOptionalString(value["failure-reason-code"])
+  );
+}
+
+function isPolicy(value: unknown): value is TLSPolicy {
+  if (!isRecord(value) || !isRecord(value["policy"]) || !isRecord(value["summary"])) {
+    return false;
+  }
+  const { policy, summary } = value;
+  const details = value["failure-details"];
+  return (
+    typeof policy["policy-type"] === "string" &&
+    POLICY_TYPES.has(policy["policy-type"]) &&
+    typeof policy["policy-domain"] === "string" &&
+    isOptionalStringList(policy["policy-string"]) &&
+    isOptionalStringList(policy["mx-host"]) &&
+    isCount(summary["total-successful-session-count"]) &&
+    isCount(summary["total-failure-session-count"]) &&
+    (details === undefined || (Array.isArray(details) && details.every(isFailureDetail)))
+  );
+}
+
+// Structural check of the RFC 8460 section 4.4 report schema
 function isTLSReport(obj: unknown): obj is TLSReport {
-  if (typeof obj !== "object" || obj === null) {
+  if (!isRecord(obj)) {
     return false;
   }
+  const dateRange = obj["date-range"];
+  const policies = obj["policies"];
   return (
-    "organization-name" in obj &&
     typeof obj["organization-name"] === "string" &&
-    "report-id" in obj &&
     typeof obj["report-id"] === "string" &&
-    "date-range" in obj &&
-    typeof obj["date-range"] === "object" &&
-    obj["date-range"] !== null
+    isOptionalString(obj["contact-info"]) &&
+    isRecord(dateRange) &&
+    typeof dateRange["start-datetime"] === "string" &&
+    !Number.isNaN(Date.parse(dateRange["start-datetime"])) &&
+    typeof dateRange["end-datetime"] === "string" &&
+    !Number.isNaN(Date.parse(dateRange["end-datetime"])) &&
+    (policies === undefined || (Array.isArray(policies) && policies.every(isPolicy)))
   );
 }
 
@@ -29,6 +92,46 @@ export function parseTLSReport(content: string): TLSReport | null {
   }
 }
 
+/**
+ * Merges policies that share a policy domain, in any case, and type, since stored rows are
+ * keyed on both. Session counts are summed and failure details concatenated; the first
+ * entry's policy domain, policy strings and MX hosts are kept.
+ */
+export function mergeTLSPolicies(policies: TLSPolicy[]): TLSPolicy[] {
+  const merged = new Map<string, TLSPolicy>();
+  for (const entry of policies) {
+    const key = `${entry.policy["policy-domain"].toLowerCase()}\n${entry.policy["policy-type"]}`;
+    const previous = merged.get(key);
+    if (previous === undefined) {
+      merged.set(key, entry);
+      continue;
+    }
+    const details = [...(previous["failure-details"] ?? []), ...(entry["failure-details"] ?? [])];
+    merged.set(key, {
+      policy: previous.policy,
+      summary: {
+        "total-successful-session-count":
+          previous.summary["total-successful-session-count"] +
+          entry.summary["total-successful-session-count"],
+        "total-failure-session-count":
+          previous.summary["total-failure-session-count"] +
+          entry.summary["total-failure-session-count"],
+      },
+      ...(details.length > 0 ? { "failure-details": details } : {}),
+    });
+  }
+  return [...merged.values()];
+}
+
+// Returns the JSON text of an HTTPS submission; throws when a gzip body does not inflate
+export function decodeTLSRPTBody(
+  mediaType: typeof TLSRPT_GZIP_MEDIA_TYPE | typeof TLSRPT_JSON_MEDIA_TYPE,
+  body: Uint8Array,
+): string {
+  const raw = mediaType === TLSRPT_GZIP_MEDIA_TYPE ? ungzip(body) : body;
+  return new TextDecoder().decode(raw);
+}
+
 if (import.meta.vitest) {
   const { describe, it, expect } = import.meta.vitest;
 
@@ -42,8 +145,17 @@ if (import.meta.vitest) {
     "report-id": "tls-abc123",
     "policies": [
       {
-        "policy-type": "sts",
-        "policy-domain": "example.com",
+        "policy": {
+          "policy-type": "sts",
+          "policy-string": [
+            "version: STSv1",
+            "mode: enforce",
+            "mx: *.example.com",
+            "max_age: 86400",
+          ],
+          "policy-domain": "example.com",
+          "mx-host": ["*.example.com"],
+        },
         "summary": {
           "total-successful-session-count": 100,
           "total-failure-session-count": 2,
@@ -53,13 +165,30 @@ if (import.meta.vitest) {
             "result-type": "certificate-expired",
             "sending-mta-ip": "1.2.3.4",
             "receiving-mx-hostname": "mx.example.com",
+            "receiving-mx-helo": "mx.example.com",
+            "receiving-ip": "192.0.2.25",
             "failed-session-count": 2,
+            "additional-information": "https://reports.example/tls/abc123",
+            "failure-reason-code": "X509_V_ERR_CERT_HAS_EXPIRED",
           },
         ],
       },
     ],
   });
 
+  // VALID_TLS_REPORT with its first policy entry edited
+  const withPolicy = (
+    edit: (entry: Record<string, unknown>, policy: Record<string, unknown>) => void,
+  ): string => {
+    const report: unknown = JSON.parse(VALID_TLS_REPORT);
+    const policies: unknown = isRecord(report) ? report["policies"] : undefined;
+    const entry: unknown = Array.isArray(policies) ? policies.at(0) : undefined;
+    if (isRecord(entry) && isRecord(entry["policy"])) {
+      edit(entry, entry["policy"]);
+    }
+    return JSON.stringify(report);
+  };
+
   describe("parseTLSReport", () => {
     it("parses a valid TLS-RPT report", () => {
       const report = parseTLSReport(VALID_TLS_REPORT);
@@ -74,8 +203,13 @@ if (import.meta.vitest) {
       expect(report.policies).toHaveLength(1);
 
       const policy = report.policies?.[0];
-      expect(policy?.["policy-type"]).toBe("sts");
+      expect(policy?.policy["policy-type"]).toBe("sts");
+      expect(policy?.policy["mx-host"]).toEqual(["*.example.com"]);
       expect(policy?.summary["total-successful-session-count"]).toBe(100);
+      expect(policy?.["failure-details"]?.[0]).toMatchObject({
+        "receiving-ip": "192.0.2.25",
+        "failure-reason-code": "X509_V_ERR_CERT_HAS_EXPIRED",
+      });
     });
 
     it("parses a report with no policies", () => {
@@ -144,6 +278,79 @@ if (import.meta.vitest) {
       expect(report).toBeNull();
     });
 
+    it("returns null for policies outside the RFC 8460 schema", () => {
+      // Pre-RFC layout with the policy fields directly on the entry
+      expect(
+        parseTLSReport(
+          withPolicy((entry, policy) => {
+            Object.assign(entry, policy);
+            delete entry["policy"];
+          }),
+        ),
+      ).toBeNull();
+      expect(
+        parseTLSReport(
+          withPolicy((_entry, policy) => {
+            policy["policy-type"] = "dane";
+          }),
+        ),
+      ).toBeNull();
+      expect(
+        parseTLSReport(
+          withPolicy((_entry, policy) => {
+            policy["mx-host"] = "mx.example.com";
+          }),
+        ),
+      ).toBeNull();
+      expect(
+        parseTLSReport(
+          withPolicy((entry) => {
+            entry["summary"] = { "total-successful-session-count": "100" };
+          }),
+        ),
+      ).toBeNull();
+    });
+
+    it("returns null for malformed failure details", () => {
+      expect(
+        parseTLSReport(
+          withPolicy((entry) => {
+            entry["failure-details"] = [{ "result-type": "certificate-expired" }];
+          }),
+        ),
+      ).toBeNull();
+      expect(
+        parseTLSReport(
+          withPolicy((entry) => {
+            entry["failure-details"] = [
+              { "result-type": "certificate-expired", "failed-session-count": -1 },
+            ];
+          }),
+        ),
+      ).toBeNull();
+      expect(
+        parseTLSReport(
+          withPolicy((entry) => {
+            entry["failure-details"] = [
+              {
+                "result-type": "starttls-not-supported",
+                "failed-session-count": 1,
+                "receiving-ip": 7,
+              },
+            ];
+          }),
+        ),
+      ).toBeNull();
+    });
+
+    it("decodes gzip and plain JSON submission bodies", () => {
+      const json = new TextEncoder().encode(VALID_TLS_REPORT);
+
+      expect(decodeTLSRPTBody(TLSRPT_JSON_MEDIA_TYPE, json)).toBe(VALID_TLS_REPORT);
+      expect(decodeTLSRPTBody(TLSRPT_GZIP_MEDIA_TYPE, gzip(json))).toBe(VALID_TLS_REPORT);
+      expect(() => decodeTLSRPTBody(TLSRPT_GZIP_MEDIA_TYPE, json)).toThrow();
+    });
+
     it("returns null for non-object JSON", () => {
       expect(parseTLSReport('"just a string"')).toBeNull();
       expect(parseTLSReport("42")).toBeNull();
@@ -151,4 +358,60 @@ if (import.meta.vitest) {
       expect(parseTLSReport("[]")).toBeNull();
     });
   });
+
+  describe("mergeTLSPolicies", () => {
+    const policy = (
+      domain: string,
+      type: TLSPolicy["policy"]["policy-type"],
+      success: number,
+      failedAt?: string,
+    ): TLSPolicy => ({
+      policy: { "policy-type": type, "policy-domain": domain, "mx-host": [`mx.${domain}`] },
+      summary: {
+        "total-successful-session-count": success,
+        "total-failure-session-count": failedAt === undefined ? 0 : 1,
+      },
+      ...(failedAt === undefined
+        ? {}
+        : {
+            "failure-details": [
+              {
+                "result-type": "certificate-expired",
+                "receiving-ip": failedAt,
+                "failed-session-count": 1,
+              },
+            ],
+          }),
+    });
+
+    it("sums policies listed twice for the same domain and type", () => {
+      const merged = mergeTLSPolicies([
+        policy("example.com", "sts", 10, "192.0.2.1"),
+        policy("example.com", "tlsa", 5),
+        policy("example.com", "sts", 20, "192.0.2.2"),
+      ]);
+
+      expect(merged).toHaveLength(2);
+      expect(merged[0]?.summary).toEqual({
+        "total-successful-session-count": 30,
+        "total-failure-session-count": 2,
+      });
+      expect(merged[0]?.["failure-details"]?.map((detail) => detail["receiving-ip"])).toEqual([
+        "192.0.2.1",
+        "192.0.2.2",
+      ]);
+      expect(merged[1]).toEqual(policy("example.com", "tlsa", 5));
+    });
+
+    it("merges policy domains that differ only in case", () => {
+      const merged = mergeTLSPolicies([
+        policy("Example.com", "sts", 10),
+        policy("example.COM", "sts", 20),
+      ]);
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0]?.policy["policy-domain"]).toBe("Example.com");
+      expect(merged[0]?.summary["total-successful-session-count"]).toBe(30);
+    });
+  });
 }
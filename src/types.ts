@@ -8,52 +8,687 @@ export interface Env {
   RATE_LIMIT: RateLimit;
   SENDER_EMAIL: string;
   SENDER_DOMAIN: string;
+  // Bearer token for the read-only HTTP API (wrangler secret put API_TOKEN)
+  API_TOKEN?: string;
+  // Separate bearer token for /admin routes (wrangler secret put ADMIN_TOKEN)
+  ADMIN_TOKEN?: string;
+  // Comma-separated reporter domains trusted in addition to the trusted_reporters table
+  TRUSTED_REPORTERS?: string;
+  // "true" stores reports from unknown reporters flagged as quarantined instead of dropping them
+  QUARANTINE_UNKNOWN_REPORTERS?: string;
+  // "true" masks recipient addresses and subjects in failure reports before they are stored
+  REDACT_FAILURE_REPORTS?: string;
+  // "true" looks up the reverse DNS name of each source IP in incoming aggregate reports
+  RESOLVE_SOURCE_HOSTNAMES?: string;
+}
+
+// An email as received, or as reloaded from the R2 archive for replay
+export interface InboundEmail {
+  raw: ArrayBuffer;
+  from: string;
+  to: string;
+  headers: Headers;
+}
+
+export type IngestOutcome =
+  | "stored"
+  | "rate_limited"
+  | "untrusted_reporter"
+  | "dmarc_fail"
+  | "no_attachments"
+  | "unknown_attachment"
+  | "unsolicited"
+  | "parse_error";
+
+export interface IngestResult {
+  outcome: IngestOutcome;
+  quarantined: boolean;
+  attachmentCount: number;
+  // Report IDs of every DMARC and TLS-RPT report stored from the email
+  reportIds: string[];
+  // Domains missing from the managed-domains registry whose reports were skipped
+  unsolicitedDomains: string[];
+  // Set with the "parse_error" outcome
+  error?: string;
+}
+
+export interface StoreOptions {
+  quarantined?: boolean;
+  // Tenant resolved from the recipient address or submission URL; null or absent for the shared pool
+  tenantId?: string | null;
+  // Re-ingesting an archived email; its data points already reached Analytics Engine
+  replay?: boolean;
+}
+
+// One row of the ingest_log ledger: what happened to a received email
+export interface IngestLogEntry {
+  id: number;
+  r2Key: string;
+  sender: string;
+  senderDomain: string;
+  recipient: string;
+  messageId: string | null;
+  outcome: IngestOutcome;
+  error: string | null;
+  attachmentCount: number;
+  reportIds: string[];
+  unsolicitedDomains: string[];
+  quarantined: boolean;
+  receivedAt: number;
+}
+
+export interface IngestLogFilters {
+  // Matches the sender's domain and its subdomains
+  senderDomain?: string;
+  outcome?: IngestOutcome;
+  reportId?: string;
+  // Unix seconds, matched against the receipt time
+  from?: number;
+  to?: number;
+  limit: number;
+  offset: number;
+}
+
+// Archived emails to replay; from/to bound the receipt time in Unix seconds
+export interface ReplaySelection {
+  prefix?: string;
+  from?: number;
+  to?: number;
+}
+
+export interface ReplayItem {
+  key: string;
+  outcome?: IngestOutcome;
+  reportIds: string[];
+  error?: string;
+}
+
+export interface ReplayJob {
+  id: number;
+  prefix: string;
+  from: number | null;
+  to: number | null;
+  // Last R2 key examined; null until the first batch runs
+  cursor: string | null;
+  status: "pending" | "running" | "done";
+  processed: number;
+  stored: number;
+  failed: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TrustedReporter {
+  domain: string;
+  note: string | null;
+  createdAt: number | null;
+  // "env" entries come from TRUSTED_REPORTERS and cannot be removed through the API
+  source: "env" | "database";
+}
+
+// A domain reports are collected for; "*.example.com" covers the subdomains of example.com
+export interface ManagedDomain {
+  domain: string;
+  note: string | null;
+  createdAt: number | null;
+}
+
+// A business unit or customer whose reports are kept apart from everyone else's
+export interface Tenant {
+  id: string;
+  name: string;
+  // rua recipients routed to the tenant, besides any address tagged +<id>
+  addresses: string[];
+  // Trusted for this tenant's reports on top of the global allowlist
+  trustedReporters: string[];
+  // Reports older than this are deleted by the cron trigger; null keeps them
+  retentionDays: number | null;
+  hasApiKey: boolean;
+  createdAt: number | null;
 }
 
 export interface ReplyMessage {
   messageId: string;
   replyTo: string;
   reportId: string;
+  orgName: string;
+  domain: string;
   subject: string;
 }
 
+// Report IDs are only unique per reporter, so a stored DMARC report is identified by all three
+export interface DMARCReportKey {
+  orgName: string;
+  domain: string;
+  reportId: string;
+}
+
 export interface DMARCReport {
   reportId: string;
   orgName: string;
   domain: string;
   beginDate: number;
   endDate: number;
+  // Totals below are weighted by each record's message count
+  messageCount: number;
+  dmarcPass: number;
+  dmarcFail: number;
   dkimPass: number;
   dkimFail: number;
   dkimTemperror: number;
   spfPass: number;
   spfFail: number;
   spfTemperror: number;
+  // Unweighted: one per <dkim>/<spf> result element
+  dkimPassResults: number;
+  dkimFailResults: number;
+  dkimTemperrorResults: number;
+  spfPassResults: number;
+  spfFailResults: number;
+  spfTemperrorResults: number;
+  // Messages whose DKIM or SPF pass aligned with header_from by our own check, weighted
+  dkimAlignedPass: number;
+  spfAlignedPass: number;
+  // Either of the two
+  dmarcAlignedPass: number;
   policyP: string;
+  // The rest of <policy_published>, null when the reporter left a tag out
+  policySp: string | null;
+  policyAdkim: string | null;
+  policyAspf: string | null;
+  policyPct: number | null;
+  policyFo: string | null;
+  // DMARCbis only
+  policyNp: string | null;
+  policyTesting: string | null;
+  policyDiscoveryMethod: string | null;
+  schemaVersion: DMARCSchemaVersion;
+  generator: string | null;
   rawXml: string;
+  records: DMARCRecord[];
+}
+
+// Aggregate report format: RFC 7489, or the DMARCbis revision (namespaced or not)
+export type DMARCSchemaVersion = "rfc7489" | "dmarcbis";
+
+// The published DMARC policy as a reporter saw it in DNS
+export type PublishedPolicy = Pick<
+  DMARCReport,
+  | "policyP"
+  | "policySp"
+  | "policyAdkim"
+  | "policyAspf"
+  | "policyPct"
+  | "policyFo"
+  | "policyNp"
+  | "policyTesting"
+>;
+
+// The first report in which a reporter saw a different published policy than before
+export interface PolicyChange extends PublishedPolicy {
+  orgName: string;
+  reportId: string;
+  // Start of that report's date range
+  firstSeen: number;
+  // The policy in the reporter's preceding report; null for its first report
+  previous: PublishedPolicy | null;
+}
+
+// A single <record> of an aggregate report: one source IP and its outcome
+export interface DMARCRecord {
+  sourceIp: string;
+  count: number;
+  disposition: string;
+  dkimEvaluated: string;
+  spfEvaluated: string;
+  reasons: Array<{
+    type: string;
+    comment: string;
+  }>;
+  headerFrom: string;
+  envelopeFrom: string;
+  envelopeTo: string;
+  // A passing DKIM signature / SPF check aligned with headerFrom under adkim / aspf;
+  // null for records stored before alignment was computed
+  dkimAligned: boolean | null;
+  spfAligned: boolean | null;
+  // d= of a passing DKIM signature, else of the first one; null without DKIM results
+  dkimDomain: string | null;
+  // PTR name of sourceIp, when the worker resolved it (see RESOLVE_SOURCE_HOSTNAMES)
+  sourceHostname: string | null;
+}
+
+// Filters shared by the report listing endpoints
+export interface ReportFilters {
+  domain?: string;
+  orgName?: string;
+  // Unix seconds, matched against the report's date range
+  from?: number;
+  to?: number;
+  // Quarantined reports are only returned when asked for explicitly
+  quarantined?: boolean;
+  tenantId?: string;
+  limit: number;
+  offset: number;
+}
+
+// A stored DMARC report as returned by the HTTP API (raw XML omitted)
+export interface DMARCReportSummary {
+  reportId: string;
+  orgName: string;
+  domain: string;
+  beginDate: number;
+  endDate: number;
+  messageCount: number;
+  dmarcPass: number;
+  dmarcFail: number;
+  dkimPass: number;
+  dkimFail: number;
+  dkimTemperror: number;
+  spfPass: number;
+  spfFail: number;
+  spfTemperror: number;
+  // Null for reports stored before alignment was computed
+  dkimAlignedPass: number | null;
+  spfAlignedPass: number | null;
+  dmarcAlignedPass: number | null;
+  policyP: string;
+  policySp: string | null;
+  policyAdkim: string | null;
+  policyAspf: string | null;
+  policyPct: number | null;
+  policyFo: string | null;
+  policyNp: string | null;
+  policyTesting: string | null;
+  policyDiscoveryMethod: string | null;
+  schemaVersion: DMARCSchemaVersion;
+  generator: string | null;
+}
+
+// One stored failure detail of a TLS-RPT policy
+export interface TLSFailureDetailSummary {
+  resultType: string;
+  sendingMtaIp: string | null;
+  receivingMxHostname: string | null;
+  receivingMxHelo: string | null;
+  receivingIp: string | null;
+  failedSessionCount: number;
+  additionalInformation: string | null;
+  failureReasonCode: string | null;
+}
+
+// One stored policy row of a TLS-RPT report
+export interface TLSReportSummary {
+  reportId: string;
+  orgName: string;
+  policyDomain: string;
+  policyType: string;
+  policyStrings: string[];
+  mxHosts: string[];
+  totalSuccess: number;
+  totalFailures: number;
+  failureDetails: TLSFailureDetailSummary[];
+  beginDate: number;
+  endDate: number;
+}
+
+// A failure detail with the policy row it was reported under, as listed by GET /tls-failures
+export interface TLSFailure extends TLSFailureDetailSummary {
+  reportId: string;
+  orgName: string;
+  policyDomain: string;
+  policyType: string;
+  beginDate: number;
+  endDate: number;
+}
+
+export interface TLSFailureFilters extends ReportFilters {
+  resultType?: string;
+  // Matched case-insensitively against receiving-mx-hostname
+  mxHost?: string;
+}
+
+export interface DomainSummary {
+  domain: string;
+  from: number;
+  to: number;
+  reports: number;
+  reporters: number;
+  messageCount: number;
+  dmarcPass: number;
+  dmarcFail: number;
+  dkimPass: number;
+  dkimFail: number;
+  spfPass: number;
+  spfFail: number;
+  // Messages in reports with alignment data, and how many of them passed aligned
+  alignedMessageCount: number;
+  dkimAlignedPass: number;
+  spfAlignedPass: number;
+  dmarcAlignedPass: number;
+  // dmarcAlignedPass / alignedMessageCount, null without alignment data
+  alignedPassRate: number | null;
+  tlsSuccessfulSessions: number;
+  tlsFailedSessions: number;
+}
+
+// Aggregates rendered by the HTML dashboard
+export interface DashboardData {
+  from: number;
+  to: number;
+  domain?: string;
+  dailyPassRates: Array<{
+    day: string;
+    domain: string;
+    messageCount: number;
+    dmarcPass: number;
+  }>;
+  topFailingSources: Array<{
+    sourceIp: string;
+    domain: string;
+    messageCount: number;
+    reporters: number;
+  }>;
+  reporters: Array<{
+    orgName: string;
+    reports: number;
+    messageCount: number;
+    dmarcPass: number;
+  }>;
+  tlsFailureTypes: Array<{
+    resultType: string;
+    failedSessions: number;
+  }>;
+}
+
+// One source IP's volume for a domain, over records with alignment data
+export interface SourceAlignment {
+  sourceIp: string;
+  messageCount: number;
+  // Messages whose DKIM or SPF result passed aligned with the header From
+  alignedMessages: number;
+  reporters: number;
+}
+
+// A source that aligns some of its mail but not all of it: likely a legitimate sender whose
+// unaligned messages a stricter policy would quarantine or reject
+export interface BlockingSender extends SourceAlignment {
+  unalignedMessages: number;
+}
+
+// Whether a domain's data supports taking the next step towards p=reject
+export interface PolicyReadiness {
+  domain: string;
+  from: number;
+  to: number;
+  // Policy in the most recent report; null when no report has been received
+  currentPolicy: PublishedPolicy | null;
+  // The next policy change to make, e.g. "p=quarantine"; null once fully enforced
+  nextStep: string | null;
+  ready: boolean;
+  // Why the next step should not be taken yet; empty when ready
+  reasons: string[];
+  messageCount: number;
+  alignedPassRate: number | null;
+  reporters: number;
+  blockingSenders: BlockingSender[];
+}
+
+// One stored aggregate report's date range, as its reporter declared it
+export interface ReportWindow {
+  orgName: string;
+  reportId: string;
+  beginDate: number;
+  endDate: number;
+}
+
+// A hole between consecutive reports from one reporter, or two reports covering the same time
+export interface CoverageIssue {
+  kind: "gap" | "overlap" | "duplicate";
+  from: number;
+  to: number;
+  // Reports on either side of a gap, or the reports that overlap
+  reportIds: string[];
+}
+
+// How regularly one reporter sends aggregates for a domain, and whether it has gone quiet
+export interface ReporterCoverage {
+  orgName: string;
+  reports: number;
+  firstBegin: number;
+  lastEnd: number;
+  lastReportId: string;
+  // Median report span in seconds, rounded to the hour (86400 for daily reporters)
+  cadenceSeconds: number;
+  // Seconds since the end of the last report's date range
+  silentSeconds: number;
+  // A full cadence plus the delivery grace has passed without a newer report
+  overdue: boolean;
+  issues: CoverageIssue[];
+}
+
+export interface DomainCoverage {
+  domain: string;
+  from: number;
+  to: number;
+  reporters: ReporterCoverage[];
+}
+
+// How a sender inventory pattern is matched: an IP range, or a domain (and its subdomains)
+// against the source's reverse DNS name or DKIM signing domain
+export type SenderPatternKind = "cidr" | "hostname" | "dkim_domain";
+
+// A runtime-managed classification rule, checked before the bundled catalogue
+export interface SendingServiceOverride {
+  id: number;
+  service: string;
+  kind: SenderPatternKind;
+  pattern: string;
+  createdAt: number | null;
+}
+
+// One source IP (and DKIM signing domain) sending as a domain, as the sender inventory sees it
+export interface SenderSource {
+  sourceIp: string;
+  sourceHostname: string | null;
+  dkimDomain: string | null;
+  messageCount: number;
+  // Messages that passed DMARC, i.e. DKIM or SPF passed as evaluated by the receiver
+  dmarcPass: number;
+}
+
+export interface SendingServiceSummary {
+  service: string;
+  // Distinct source IPs classified as the service
+  sources: number;
+  messageCount: number;
+  dmarcPass: number;
+  passRate: number;
+}
+
+// A source IP's history for a domain, from the first report that listed it to the latest
+export interface SourceObservation extends SenderSource {
+  firstSeen: number;
+  lastSeen: number;
+  reportCount: number;
+  // The report that introduced the source; null for sources backfilled by migration 0015
+  firstOrgName: string | null;
+  firstReportId: string | null;
+  // The introducing report saw every message from the source fail both DKIM and SPF
+  suspectedSpoofing: boolean;
+}
+
+export interface NewSender extends SourceObservation {
+  service: string | null;
+  passRate: number;
+}
+
+// A domain's mail broken down by sending service, plus the sources no rule matched
+export interface SenderInventory {
+  domain: string;
+  from: number;
+  to: number;
+  services: SendingServiceSummary[];
+  unclassified: SenderSource[];
+}
+
+export type DigestCadence = "daily" | "weekly";
+
+export interface DigestSubscription {
+  domain: string;
+  recipients: string[];
+  cadence: DigestCadence;
+  // End (Unix seconds, exclusive) of the last period a digest was sent for
+  lastPeriodEnd: number | null;
+  createdAt: number | null;
+}
+
+// Everything a digest email reports for one domain and period
+export interface DigestData {
+  domain: string;
+  cadence: DigestCadence;
+  current: DomainSummary;
+  previous: DomainSummary;
+  topFailingSources: DashboardData["topFailingSources"];
+  newReporters: string[];
+  tlsFailureTypes: DashboardData["tlsFailureTypes"];
+  readiness: PolicyReadiness;
+  senders: SenderInventory;
+}
+
+// Per-domain alert thresholds and where to deliver alerts; null disables a check
+export interface AlertRule {
+  domain: string;
+  // Fraction (0-1) of messages failing DKIM or SPF authentication, whichever fails more
+  failureRateThreshold: number | null;
+  // The failure rate is only checked once the window holds this many messages
+  minMessages: number;
+  windowHours: number;
+  // Failing messages from a never-seen source IP, within one report, that trigger an alert
+  newSourceMinMessages: number | null;
+  // Hours past a reporter's expected next report before its silence raises an alert
+  missingReportGraceHours: number | null;
+  emailRecipients: string[];
+  webhookUrl: string | null;
+  // Identical alerts (same domain and dedup key) are suppressed for this long
+  cooldownMinutes: number;
+  createdAt: number | null;
+}
+
+export type AlertKind = "failure_rate" | "new_source" | "missing_report";
+
+export interface Alert {
+  id: number;
+  domain: string;
+  kind: AlertKind;
+  dedupKey: string;
+  message: string;
+  value: number;
+  reportId: string;
+  // Channels the alert was delivered to ("email", "webhook")
+  channels: string[];
+  createdAt: number;
+}
+
+// RFC 6591 authentication failure report (DMARC ruf), from its message/feedback-report part
+export interface FailureReport {
+  feedbackType: string;
+  userAgent: string | null;
+  version: string | null;
+  // dkim, spf, adsp or dmarc
+  authFailure: string | null;
+  sourceIp: string | null;
+  reportedDomain: string | null;
+  originalMailFrom: string | null;
+  originalRcptTo: string[];
+  // Unix seconds
+  arrivalDate: number | null;
+  deliveryResult: string | null;
+  identityAlignment: string | null;
+  dkimDomain: string | null;
+  dkimIdentity: string | null;
+  dkimSelector: string | null;
+  spfDns: string | null;
+  incidents: number;
+  // Header block of the failed message, from the text/rfc822-headers or message/rfc822 part
+  originalHeaders: string | null;
+  redacted: boolean;
+}
+
+// A stored failure report as returned by the HTTP API
+export interface FailureReportSummary extends FailureReport {
+  id: number;
+  // Domain of the address that sent us the report
+  reporter: string;
+  createdAt: number;
+}
+
+export interface FailureReportFilters {
+  // Matched against Reported-Domain
+  domain?: string;
+  sourceIp?: string;
+  authFailure?: string;
+  // Unix seconds, matched against Arrival-Date (or the time we received the report)
+  from?: number;
+  to?: number;
+  quarantined?: boolean;
+  tenantId?: string;
+  limit: number;
+  offset: number;
 }
 
 // RFC 8460 TLS-RPT (kebab-case per spec)
+export type TLSPolicyType = "sts" | "tlsa" | "no-policy-found";
+
+// RFC 8460 section 4.3 result types, plus anything newer a reporter may send
+export type TLSResultType =
+  | "starttls-not-supported"
+  | "certificate-host-mismatch"
+  | "certificate-expired"
+  | "certificate-not-trusted"
+  | "validation-failure"
+  | "tlsa-invalid"
+  | "dnssec-invalid"
+  | "dane-required"
+  | "sts-policy-fetch-error"
+  | "sts-policy-invalid"
+  | "sts-webpki-invalid"
+  | (string & {});
+
+export interface TLSFailureDetail {
+  "result-type": TLSResultType;
+  "sending-mta-ip"?: string;
+  "receiving-mx-hostname"?: string;
+  "receiving-mx-helo"?: string;
+  "receiving-ip"?: string;
+  "failed-session-count": number;
+  "additional-information"?: string;
+  "failure-reason-code"?: string;
+}
+
+export interface TLSPolicy {
+  "policy": {
+    "policy-type": TLSPolicyType;
+    // The TLSA records or MTA-STS policy lines that were evaluated
+    "policy-string"?: string[];
+    "policy-domain": string;
+    // MX patterns from an MTA-STS policy
+    "mx-host"?: string[];
+  };
+  "summary": {
+    "total-successful-session-count": number;
+    "total-failure-session-count": number;
+  };
+  "failure-details"?: TLSFailureDetail[];
+}
+
 export interface TLSReport {
   "organization-name": string;
   "date-range": {
     "start-datetime": string;
     "end-datetime": string;
   };
-  "contact-info": string;
+  "contact-info"?: string;
   "report-id": string;
-  "policies"?: Array<{
-    "policy-type": "sts" | "dane" | "dane-only" | "no-policy-found";
-    "policy-domain": string;
-    "summary": {
-      "total-successful-session-count": number;
-      "total-failure-session-count": number;
-    };
-    "failure-details"?: Array<{
-      "result-type": string;
-      "sending-mta-ip": string;
-      "receiving-mx-hostname": string;
-      "failed-session-count": number;
-    }>;
-  }>;
+  "policies"?: TLSPolicy[];
 }